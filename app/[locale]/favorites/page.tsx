@@ -43,6 +43,7 @@ export default function FavoritesPage() {
             const { data, error } = await supabase
                 .from('markets')
                 .select('id, slug, name, city, header_url, logo_url, about_text, is_premium, zip_code')
+                .is('deleted_at', null)
                 .in('id', favorites);
 
             if (error) {
@@ -6,12 +6,19 @@ import { useEffect, useState, useRef, useCallback, Suspense, useMemo } from 'rea
 import { useSearchParams } from 'next/navigation';
 import { createClient } from '@/utils/supabase/client';
 import { useFavorites } from '@/hooks/useFavorites';
+import { formatBasePrice, getDiscountPercent } from '@/lib/offerPricing';
 
 interface Offer {
     id: string;
     product_name: string;
     price: string;
+    // Price before the discount, shown struck through
+    regular_price?: number | null;
     unit: string | null;
+    // Grundpreis, see lib/offerPricing.ts
+    quantity?: number | null;
+    base_unit?: string | null;
+    base_price?: number | null;
     image_library: {
         url: string;
     } | null;
@@ -72,10 +79,12 @@ function OffersPageContent() {
 
             let query = supabase
                 .from('offers')
-                .select('id, product_name, price, unit, expires_at, market_id, created_at, ai_category, image_library(url), markets!inner(id, slug, name, city, zip_code, logo_url)')
+                .select('id, product_name, price, regular_price, unit, quantity, base_unit, base_price, expires_at, market_id, created_at, ai_category, image_library(url), markets!inner(id, slug, name, city, zip_code, logo_url)')
+                .is('deleted_at', null)
                 .eq('markets.is_active', true)
                 .eq('status', 'live')
                 .gt('expires_at', new Date().toISOString())
+                .or(`starts_at.is.null,starts_at.lte.${new Date().toISOString()}`)
                 .order('created_at', { ascending: false });
 
             // Filter by favorites if applicable
@@ -587,6 +596,7 @@ function OffersPageContent() {
                                     : marketData?.city || '';
                                 const expiresDate = new Date(offer.expires_at);
                                 const daysLeft = Math.ceil((expiresDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+                                const discount = getDiscountPercent(offer.price, offer.regular_price);
 
                                 return (
                                     <Link
@@ -617,6 +627,15 @@ function OffersPageContent() {
                                                     {daysLeft <= 0 ? 'Läuft heute ab' : `Noch ${daysLeft} Tag${daysLeft > 1 ? 'e' : ''}`}
                                                 </div>
                                             )}
+                                            {/* Discount Badge */}
+                                            {discount !== null && (
+                                                <div
+                                                    className="absolute bottom-4 left-4 px-3 py-1.5 rounded-full text-sm font-black shadow-lg"
+                                                    style={{ background: 'var(--saffron)', color: 'var(--charcoal)' }}
+                                                >
+                                                    -{discount}%
+                                                </div>
+                                            )}
                                             {/* Market Logo Badge - Top Left */}
                                             <div className="absolute top-4 left-4 flex items-center gap-2 px-3 py-1.5 rounded-full shadow-lg" style={{ background: 'white' }}>
                                                 {marketLogo ? (
@@ -650,13 +669,25 @@ function OffersPageContent() {
                                                 className="flex items-center justify-between pt-3 border-t"
                                                 style={{ borderColor: 'var(--sand)' }}
                                             >
-                                                <span
-                                                    className="text-2xl font-black"
-                                                    style={{ color: 'var(--terracotta)' }}
-                                                >
-                                                    {offer.price} €
-                                                    {offer.unit && <span className="text-sm font-medium ml-1" style={{ color: 'var(--warm-gray)' }}>/ {offer.unit}</span>}
-                                                </span>
+                                                <div>
+                                                    <span
+                                                        className="text-2xl font-black"
+                                                        style={{ color: 'var(--terracotta)' }}
+                                                    >
+                                                        {offer.price} €
+                                                        {offer.unit && <span className="text-sm font-medium ml-1" style={{ color: 'var(--warm-gray)' }}>/ {offer.unit}</span>}
+                                                    </span>
+                                                    {discount !== null && (
+                                                        <span className="text-sm font-medium line-through ml-2" style={{ color: 'var(--warm-gray)' }}>
+                                                            {Number(offer.regular_price).toFixed(2)} €
+                                                        </span>
+                                                    )}
+                                                    {formatBasePrice(offer) && (
+                                                        <p className="text-xs mt-0.5" style={{ color: 'var(--warm-gray)' }}>
+                                                            Grundpreis {formatBasePrice(offer)}
+                                                        </p>
+                                                    )}
+                                                </div>
 
                                                 {/* Market Location */}
                                                 <div className="flex items-center gap-1.5 text-xs" style={{ color: 'var(--warm-gray)' }}>
@@ -35,6 +35,7 @@ export default async function Home({ params }: Props) {
   const { data: premiumMarkets } = await supabase
     .from('markets')
     .select('id, slug, name, city, zip_code, header_url, logo_url, about_text, is_premium')
+    .is('deleted_at', null)
     .eq('is_premium', true)
     .eq('is_active', true)
     .order('created_at', { ascending: false })
@@ -44,6 +45,7 @@ export default async function Home({ params }: Props) {
   const { data: newestMarkets } = await supabase
     .from('markets')
     .select('id, slug, name, city, zip_code, header_url, logo_url, about_text, is_premium')
+    .is('deleted_at', null)
     .eq('is_active', true)
     .order('created_at', { ascending: false })
     .limit(6);
@@ -52,10 +54,12 @@ export default async function Home({ params }: Props) {
   const { data: premiumOffers } = await supabase
     .from('offers')
     .select('id, product_name, price, unit, market_id, image_library(url), markets!inner(id, slug, name, city, is_premium, is_active)')
+    .is('deleted_at', null)
     .eq('markets.is_premium', true)
     .eq('markets.is_active', true)
     .eq('status', 'live')
     .gt('expires_at', new Date().toISOString())
+    .or(`starts_at.is.null,starts_at.lte.${new Date().toISOString()}`)
     .order('created_at', { ascending: false })
     .limit(10);
 
@@ -2,6 +2,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { createClient } from '@/utils/supabase/server';
 import SearchMarketGrid from '@/app/components/SearchMarketGrid';
+import { getDiscountPercent } from '@/lib/offerPricing';
 
 interface SearchPageProps {
     searchParams: Promise<{
@@ -32,6 +33,8 @@ type OfferWithMarket = {
     product_name: string;
     description?: string | null;
     price: string;
+    // Price before the discount, shown struck through
+    regular_price?: number | null;
     image_library: {
         url: string;
     } | null;
@@ -94,6 +97,7 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         let shopQuery = supabase
             .from('markets')
             .select('id, slug, name, city, zip_code, logo_url, header_url, about_text, is_premium')
+            .is('deleted_at', null)
             .eq('is_active', true)
             .ilike('name', `%${q}%`);
 
@@ -113,11 +117,13 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         // Search products
         let productQuery = supabase
             .from('offers')
-            .select('id, product_name, description, price, market_id, image_library(url), markets!inner(slug, name, city, zip_code, logo_url)')
+            .select('id, product_name, description, price, regular_price, market_id, image_library(url), markets!inner(slug, name, city, zip_code, logo_url)')
+            .is('deleted_at', null)
             .eq('markets.is_active', true)
             .or(`product_name.ilike.%${q}%,description.ilike.%${q}%`)
             .eq('status', 'live')
-            .gt('expires_at', new Date().toISOString());
+            .gt('expires_at', new Date().toISOString())
+            .or(`starts_at.is.null,starts_at.lte.${new Date().toISOString()}`);
 
         const { data: productData } = await productQuery
             .order('created_at', { ascending: false })
@@ -144,6 +150,7 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         let locationQuery = supabase
             .from('markets')
             .select('id, slug, name, city, zip_code, logo_url, header_url, about_text, is_premium')
+            .is('deleted_at', null)
             .eq('is_active', true);
 
         if (regionPrefix) {
@@ -487,6 +494,7 @@ function OfferCard({ offer, index }: { offer: OfferWithMarket; index: number })
     const marketLocation = market?.zip_code && market?.city
         ? `${market.zip_code} ${market.city}`
         : market?.city || '';
+    const discount = getDiscountPercent(offer.price, offer.regular_price);
 
     return (
         <Link
@@ -510,12 +518,27 @@ function OfferCard({ offer, index }: { offer: OfferWithMarket; index: number })
                 <div className="absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
 
                 {/* Price Badge - Top Right */}
-                <div className="absolute top-4 right-4 px-4 py-2 rounded-2xl shadow-lg" style={{ background: 'white' }}>
+                <div className="absolute top-4 right-4 px-4 py-2 rounded-2xl shadow-lg text-right" style={{ background: 'white' }}>
                     <span className="text-xl font-black" style={{ color: 'var(--terracotta)' }}>
                         {offer.price}
                     </span>
+                    {discount !== null && (
+                        <span className="block text-xs font-medium line-through" style={{ color: 'var(--warm-gray)' }}>
+                            {Number(offer.regular_price).toFixed(2)} €
+                        </span>
+                    )}
                 </div>
 
+                {/* Discount Badge - Bottom Left */}
+                {discount !== null && (
+                    <div
+                        className="absolute bottom-4 left-4 px-3 py-1.5 rounded-full text-sm font-black shadow-lg"
+                        style={{ background: 'var(--saffron)', color: 'var(--charcoal)' }}
+                    >
+                        -{discount}%
+                    </div>
+                )}
+
                 {/* Market Logo Badge - Top Left */}
                 <div className="absolute top-4 left-4 flex items-center gap-2 px-3 py-1.5 rounded-full shadow-lg" style={{ background: 'white' }}>
                     {marketLogo ? (
@@ -3,12 +3,19 @@
 import Image from 'next/image';
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { createClient } from '@/utils/supabase/client';
+import { formatBasePrice, getDiscountPercent } from '@/lib/offerPricing';
 
 interface Offer {
     id: string;
     product_name: string;
     price: string | number;
+    // Price before the discount, shown struck through
+    regular_price?: number | null;
     unit?: string | null;
+    // Grundpreis, see lib/offerPricing.ts
+    quantity?: number | null;
+    base_unit?: string | null;
+    base_price?: number | null;
     description?: string | null;
     ai_category?: string | null;
     image_library: {
@@ -91,19 +98,23 @@ export default function ShopOffersSection({ marketId, marketName }: ShopOffersSe
             const { count } = await supabase
                 .from('offers')
                 .select('*', { count: 'exact', head: true })
+                .is('deleted_at', null)
                 .eq('market_id', marketId)
                 .eq('status', 'live')
-                .gt('expires_at', new Date().toISOString());
+                .gt('expires_at', new Date().toISOString())
+                .or(`starts_at.is.null,starts_at.lte.${new Date().toISOString()}`);
 
             setTotalCount(count);
 
             // Fetch initial batch
             const { data, error } = await supabase
                 .from('offers')
-                .select('id, product_name, price, unit, description, ai_category, expires_at, created_at, image_library(url)')
+                .select('id, product_name, price, regular_price, unit, quantity, base_unit, base_price, description, ai_category, expires_at, created_at, image_library(url)')
+                .is('deleted_at', null)
                 .eq('market_id', marketId)
                 .eq('status', 'live')
                 .gt('expires_at', new Date().toISOString())
+                .or(`starts_at.is.null,starts_at.lte.${new Date().toISOString()}`)
                 .order('created_at', { ascending: false })
                 .range(0, INITIAL_LOAD - 1);
 
@@ -132,10 +143,12 @@ export default function ShopOffersSection({ marketId, marketName }: ShopOffersSe
 
         const { data, error } = await supabase
             .from('offers')
-            .select('id, product_name, price, unit, description, ai_category, expires_at, created_at, image_library(url)')
+            .select('id, product_name, price, regular_price, unit, quantity, base_unit, base_price, description, ai_category, expires_at, created_at, image_library(url)')
+            .is('deleted_at', null)
             .eq('market_id', marketId)
             .eq('status', 'live')
             .gt('expires_at', new Date().toISOString())
+            .or(`starts_at.is.null,starts_at.lte.${new Date().toISOString()}`)
             .order('created_at', { ascending: false })
             .range(start, end);
 
@@ -328,6 +341,15 @@ export default function ShopOffersSection({ marketId, marketName }: ShopOffersSe
                                             sizes="(max-width: 640px) 100vw, 50vw"
                                             className="object-contain group-hover:scale-105 transition-transform duration-500"
                                         />
+                                        {/* Discount Badge */}
+                                        {getDiscountPercent(offer.price, offer.regular_price) !== null && (
+                                            <div
+                                                className="absolute top-4 left-4 px-3 py-1.5 rounded-full text-sm font-black shadow-lg"
+                                                style={{ background: 'var(--saffron)', color: 'var(--charcoal)' }}
+                                            >
+                                                -{getDiscountPercent(offer.price, offer.regular_price)}%
+                                            </div>
+                                        )}
                                     </div>
 
                                     {/* Content */}
@@ -368,6 +390,16 @@ export default function ShopOffersSection({ marketId, marketName }: ShopOffersSe
                                                         / {offer.unit}
                                                     </span>
                                                 )}
+                                                {getDiscountPercent(offer.price, offer.regular_price) !== null && (
+                                                    <span className="text-sm font-medium line-through ml-2" style={{ color: 'var(--warm-gray)' }}>
+                                                        {Number(offer.regular_price).toFixed(2)} €
+                                                    </span>
+                                                )}
+                                                {formatBasePrice(offer) && (
+                                                    <p className="text-xs mt-0.5" style={{ color: 'var(--warm-gray)' }}>
+                                                        Grundpreis {formatBasePrice(offer)}
+                                                    </p>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
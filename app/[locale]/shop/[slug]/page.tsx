@@ -13,6 +13,7 @@ export async function generateMetadata({ params }: { params: Promise<{ slug: str
   const { data: market } = await supabase
     .from('markets')
     .select('name, about_text, header_url, city')
+    .is('deleted_at', null)
     .eq('slug', slug)
     .single();
 
@@ -46,6 +47,7 @@ export default async function ShopProfile({
   const { data: market, error } = await supabase
     .from('markets')
     .select('*')
+    .is('deleted_at', null)
     .eq('slug', slug)
     .single();
 
@@ -57,6 +59,7 @@ export default async function ShopProfile({
   let similarMarketsQuery = supabase
     .from('markets')
     .select('id, slug, name, city, zip_code, header_url, logo_url')
+    .is('deleted_at', null)
     .neq('id', market.id);
 
   if (market.zip_code && market.zip_code.length >= 2) {
@@ -45,6 +45,7 @@ export default function AllShopsClient() {
             const { data, error } = await supabase
                 .from('markets')
                 .select('id, slug, name, city, header_url, logo_url, about_text, is_premium, zip_code, created_at')
+                .is('deleted_at', null)
                 .eq('is_active', true);
 
             if (error) {
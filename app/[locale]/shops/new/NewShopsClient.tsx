@@ -39,7 +39,8 @@ export default function NewShopsClient() {
             // Get total count
             const { count } = await supabase
                 .from('markets')
-                .select('*', { count: 'exact', head: true });
+                .select('*', { count: 'exact', head: true })
+                .is('deleted_at', null);
 
             setTotalCount(count);
 
@@ -47,6 +48,7 @@ export default function NewShopsClient() {
             const { data, error } = await supabase
                 .from('markets')
                 .select('id, slug, name, city, header_url, logo_url, about_text, is_premium, zip_code, created_at')
+                .is('deleted_at', null)
                 .order('created_at', { ascending: false })
                 .range(0, INITIAL_LOAD - 1);
 
@@ -76,6 +78,7 @@ export default function NewShopsClient() {
         const { data, error } = await supabase
             .from('markets')
             .select('id, slug, name, city, header_url, logo_url, about_text, is_premium, zip_code, created_at')
+            .is('deleted_at', null)
             .order('created_at', { ascending: false })
             .range(start, end);
 
@@ -40,6 +40,7 @@ export default function PremiumShopsClient() {
             const { count } = await supabase
                 .from('markets')
                 .select('*', { count: 'exact', head: true })
+                .is('deleted_at', null)
                 .eq('is_premium', true);
 
             setTotalCount(count);
@@ -48,6 +49,7 @@ export default function PremiumShopsClient() {
             const { data, error } = await supabase
                 .from('markets')
                 .select('id, slug, name, city, header_url, logo_url, about_text, is_premium, zip_code, created_at')
+                .is('deleted_at', null)
                 .eq('is_premium', true)
                 .order('created_at', { ascending: false })
                 .range(0, INITIAL_LOAD - 1);
@@ -78,6 +80,7 @@ export default function PremiumShopsClient() {
         const { data, error } = await supabase
             .from('markets')
             .select('id, slug, name, city, header_url, logo_url, about_text, is_premium, zip_code, created_at')
+            .is('deleted_at', null)
             .eq('is_premium', true)
             .order('created_at', { ascending: false })
             .range(start, end);
@@ -0,0 +1,126 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { claimFailedBatch, getFailedBatch, markFailedBatchResolved } from '@/lib/failedMessages';
+import { processFailedBatch } from '@/lib/messageProcessor';
+import { recordAudit } from '@/lib/auditLog';
+
+// ============================================================================
+// Result types
+// ============================================================================
+
+interface ActionResult {
+    success: boolean;
+    error?: string;
+    offerIds?: string[];
+}
+
+// ============================================================================
+// Helper: Verify admin session
+// ============================================================================
+
+async function verifyAdmin(): Promise<{ userId: string } | { error: string }> {
+    const authClient = await createClient();
+    const { data: { user }, error: authError } = await authClient.auth.getUser();
+
+    if (authError || !user) {
+        return { error: 'Nicht authentifiziert. Bitte erneut anmelden.' };
+    }
+
+    const { data: isAdmin, error: rpcError } = await authClient.rpc('is_admin');
+
+    if (rpcError || !isAdmin) {
+        return { error: 'Keine Berechtigung. Nur Admins können fehlgeschlagene Nachrichten verwalten.' };
+    }
+
+    return { userId: user.id };
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Replays a failed batch from the dead-letter queue right away.
+ *
+ * Security: session → is_admin() → claim (pending/exhausted only) → processor
+ */
+export async function replayFailedBatch(batchId: string): Promise<ActionResult> {
+    if (!batchId || typeof batchId !== 'string') {
+        return { success: false, error: 'Ungültige ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const failedBatch = await claimFailedBatch(batchId);
+    if (!failedBatch) {
+        return { success: false, error: 'Nachricht nicht gefunden, bereits erledigt oder wird gerade verarbeitet.' };
+    }
+
+    const result = await processFailedBatch(failedBatch);
+
+    await recordAudit(auth.userId, [{
+        action: 'replay',
+        entityType: 'failed_message',
+        entityId: failedBatch.id,
+        entityLabel: failedBatch.sender_number,
+        before: { attempt_count: failedBatch.attempt_count, error: failedBatch.error },
+        after: {
+            attempt_count: failedBatch.attempt_count + 1,
+            error: result.error || result.invalidReason || null,
+            offer_ids: result.offerIds || null
+        }
+    }]);
+
+    if (result.retryable) {
+        console.error('[failedMessages/replayFailedBatch] Replay failed:', result.error);
+        return { success: false, error: `Erneute Verarbeitung fehlgeschlagen: ${result.error || 'Unbekannter Fehler'}` };
+    }
+
+    if (!result.success) {
+        // The AI gave a definite answer (e.g. no price) - the sender has been told, nothing left to retry
+        return { success: false, error: 'Die Nachricht enthält kein gültiges Angebot. Der Absender wurde informiert.' };
+    }
+
+    return { success: true, offerIds: result.offerIds };
+}
+
+/**
+ * Marks a failed batch as resolved without processing it again.
+ *
+ * Security: session → is_admin() → batch exists → service_role update
+ */
+export async function dismissFailedBatch(batchId: string): Promise<ActionResult> {
+    if (!batchId || typeof batchId !== 'string') {
+        return { success: false, error: 'Ungültige ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const failedBatch = await getFailedBatch(batchId);
+    if (!failedBatch) {
+        return { success: false, error: 'Nachricht nicht gefunden.' };
+    }
+
+    const resolved = await markFailedBatchResolved(batchId);
+    if (!resolved) {
+        return { success: false, error: 'Datenbankfehler beim Verwerfen der Nachricht.' };
+    }
+
+    await recordAudit(auth.userId, [{
+        action: 'dismiss',
+        entityType: 'failed_message',
+        entityId: failedBatch.id,
+        entityLabel: failedBatch.sender_number,
+        before: { status: failedBatch.status },
+        after: { status: 'resolved' }
+    }]);
+
+    return { success: true };
+}
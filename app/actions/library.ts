@@ -3,6 +3,7 @@
 import { z } from 'zod';
 import { createClient } from '@/utils/supabase/server';
 import { createServiceClient } from '@/utils/supabase/service';
+import { recordAudit } from '@/lib/auditLog';
 
 // ============================================================================
 // Zod Schemas
@@ -131,6 +132,15 @@ export async function addToImageLibrary(url: string, productName: string): Promi
         return { success: false, error: 'Datenbankfehler beim Hinzufügen des Bildes.' };
     }
 
+    await recordAudit(auth.userId, [{
+        action: 'create',
+        entityType: 'image',
+        entityId: newImage.id,
+        entityLabel: newImage.product_name,
+        before: null,
+        after: newImage
+    }]);
+
     return {
         success: true,
         imageId: newImage.id,
@@ -139,9 +149,9 @@ export async function addToImageLibrary(url: string, productName: string): Promi
 }
 
 /**
- * Deletes an image from the library.
+ * Moves an image of the library to the trash. It can be restored until the purge-trash cron job deletes it.
  *
- * Security: session → is_admin() → image exists → service_role delete
+ * Security: session → is_admin() → image exists → not in use → service_role update
  */
 export async function deleteFromLibrary(imageId: string): Promise<ActionResult> {
     if (!imageId || typeof imageId !== 'string') {
@@ -158,19 +168,21 @@ export async function deleteFromLibrary(imageId: string): Promise<ActionResult>
     // Verify image exists
     const { data: existing, error: fetchError } = await serviceClient
         .from('image_library')
-        .select('id')
+        .select('*')
         .eq('id', imageId)
+        .is('deleted_at', null)
         .single();
 
     if (fetchError || !existing) {
         return { success: false, error: 'Bild nicht gefunden.' };
     }
 
-    // Check if image is being used by any offers
+    // Check if image is being used by any offers (offers in the trash bring their image back when restored)
     const { data: offersUsingImage, error: checkError } = await serviceClient
         .from('offers')
         .select('id')
         .eq('image_id', imageId)
+        .is('deleted_at', null)
         .limit(1);
 
     if (checkError) {
@@ -182,17 +194,80 @@ export async function deleteFromLibrary(imageId: string): Promise<ActionResult>
         return { success: false, error: 'Bild wird noch von Angeboten verwendet und kann nicht gelöscht werden.' };
     }
 
-    // Delete the image
-    const { error: deleteError } = await serviceClient
+    // Move the image to the trash
+    const { data: trashed, error: deleteError } = await serviceClient
         .from('image_library')
-        .delete()
-        .eq('id', imageId);
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', imageId)
+        .select('*')
+        .single();
 
     if (deleteError) {
         console.error('[library/deleteFromLibrary] Delete failed:', deleteError);
         return { success: false, error: 'Datenbankfehler beim Löschen des Bildes.' };
     }
 
+    await recordAudit(auth.userId, [{
+        action: 'delete',
+        entityType: 'image',
+        entityId: imageId,
+        entityLabel: existing.product_name,
+        before: existing,
+        after: trashed
+    }]);
+
+    return { success: true };
+}
+
+/**
+ * Restores an image of the library from the trash.
+ *
+ * Security: session → is_admin() → trashed image exists → service_role update
+ */
+export async function restoreLibraryImage(imageId: string): Promise<ActionResult> {
+    if (!imageId || typeof imageId !== 'string') {
+        return { success: false, error: 'Ungültige Bild-ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data: existing, error: fetchError } = await serviceClient
+        .from('image_library')
+        .select('*')
+        .eq('id', imageId)
+        .not('deleted_at', 'is', null)
+        .single();
+
+    if (fetchError || !existing) {
+        return { success: false, error: 'Bild nicht im Papierkorb gefunden.' };
+    }
+
+    const { data: restored, error: updateError } = await serviceClient
+        .from('image_library')
+        .update({ deleted_at: null })
+        .eq('id', imageId)
+        .select('*')
+        .single();
+
+    if (updateError) {
+        console.error('[library/restoreLibraryImage] Restore failed:', updateError);
+        return { success: false, error: 'Datenbankfehler beim Wiederherstellen des Bildes.' };
+    }
+
+    await recordAudit(auth.userId, [{
+        action: 'restore',
+        entityType: 'image',
+        entityId: imageId,
+        entityLabel: restored.product_name,
+        before: existing,
+        after: restored
+    }]);
+
     return { success: true };
 }
 
@@ -212,6 +287,7 @@ export async function listLibraryImages(): Promise<ActionResult & { images?: Arr
     const { data: images, error: fetchError } = await serviceClient
         .from('image_library')
         .select('id, url, product_name')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
     if (fetchError) {
@@ -258,8 +334,9 @@ export async function updateImageProductName(imageId: string, productName: strin
     // Verify image exists
     const { data: existing, error: fetchError } = await serviceClient
         .from('image_library')
-        .select('id')
+        .select('*')
         .eq('id', imageId)
+        .is('deleted_at', null)
         .single();
 
     if (fetchError || !existing) {
@@ -267,15 +344,26 @@ export async function updateImageProductName(imageId: string, productName: strin
     }
 
     // Update the product name
-    const { error: updateError } = await serviceClient
+    const { data: updated, error: updateError } = await serviceClient
         .from('image_library')
         .update({ product_name: sanitizedProductName })
-        .eq('id', imageId);
+        .eq('id', imageId)
+        .select('*')
+        .single();
 
     if (updateError) {
         console.error('[library/updateImageProductName] Update failed:', updateError);
         return { success: false, error: 'Datenbankfehler beim Aktualisieren des Produktnamens.' };
     }
 
+    await recordAudit(auth.userId, [{
+        action: 'update',
+        entityType: 'image',
+        entityId: imageId,
+        entityLabel: updated.product_name,
+        before: existing,
+        after: updated
+    }]);
+
     return { success: true };
 }
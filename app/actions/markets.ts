@@ -3,6 +3,7 @@
 import { z } from 'zod';
 import { createClient } from '@/utils/supabase/server';
 import { createServiceClient } from '@/utils/supabase/service';
+import { recordAudit, type AuditAction } from '@/lib/auditLog';
 
 // ============================================================================
 // Zod Schemas
@@ -15,6 +16,11 @@ const OpeningHoursSchema = z.object({
 
 const MarketIdSchema = z.string().uuid('Ungültige Markt-ID (kein gültiges UUID-Format).');
 
+const MarketMemberSchema = z.object({
+    phone_number: z.string().regex(/^\d{6,15}$/, 'WhatsApp-Nummer darf nur Ziffern enthalten (6–15 Stellen).'),
+    role: z.enum(['owner', 'employee']),
+});
+
 const MarketDataSchema = z.object({
     slug: z.string().min(1, 'Slug ist erforderlich.').regex(/^[a-z0-9-]+$/, 'Slug darf nur Kleinbuchstaben, Zahlen und Bindestriche enthalten.'),
     name: z.string().min(1, 'Name ist erforderlich.'),
@@ -24,16 +30,27 @@ const MarketDataSchema = z.object({
     latitude: z.number().min(-90).max(90).nullable(),
     longitude: z.number().min(-180).max(180).nullable(),
     customer_phone: z.string().nullable(),
-    whatsapp_numbers: z.array(z.string()),
+    whatsapp_members: z.array(MarketMemberSchema).refine(
+        members => new Set(members.map(member => member.phone_number)).size === members.length,
+        'Jede WhatsApp-Nummer darf nur einmal vorkommen.'
+    ),
     header_url: z.string().url().nullable().or(z.literal('')).transform(v => v || null),
     logo_url: z.string().url().nullable().or(z.literal('')).transform(v => v || null),
     about_text: z.string().nullable(),
     features: z.array(z.string()).nullable(),
     opening_hours: z.array(OpeningHoursSchema).nullable(),
     is_premium: z.boolean(),
-});
+    auto_publish_enabled: z.boolean(),
+    auto_publish_min_confidence: z.number().min(0, 'Konfidenz muss zwischen 0 und 1 liegen.').max(1, 'Konfidenz muss zwischen 0 und 1 liegen.'),
+    auto_publish_min_price: z.number().min(0, 'Mindestpreis darf nicht negativ sein.'),
+    auto_publish_max_price: z.number().positive('Höchstpreis muss größer als 0 sein.'),
+}).refine(
+    data => data.auto_publish_min_price <= data.auto_publish_max_price,
+    { message: 'Mindestpreis darf nicht über dem Höchstpreis liegen.', path: ['auto_publish_max_price'] }
+);
 
 type MarketData = z.infer<typeof MarketDataSchema>;
+type MarketMemberData = z.infer<typeof MarketMemberSchema>;
 
 // ============================================================================
 // Result types
@@ -72,6 +89,116 @@ async function verifyAdmin(): Promise<{ userId: string } | { error: string }> {
     return { userId: user.id };
 }
 
+// ============================================================================
+// Helper: Sync WhatsApp members
+// ============================================================================
+
+/**
+ * Replaces a market's WhatsApp numbers and their roles with the given list.
+ * markets.whatsapp_numbers is kept as a plain mirror; authorization uses market_members.
+ */
+async function syncMarketMembers(
+    serviceClient: ReturnType<typeof createServiceClient>,
+    marketId: string,
+    members: MarketMemberData[]
+): Promise<boolean> {
+    const numbers = members.map(member => member.phone_number);
+
+    let deleteQuery = serviceClient
+        .from('market_members')
+        .delete()
+        .eq('market_id', marketId);
+
+    if (numbers.length > 0) {
+        deleteQuery = deleteQuery.not('phone_number', 'in', `(${numbers.join(',')})`);
+    }
+
+    const { error: deleteError } = await deleteQuery;
+
+    if (deleteError) {
+        console.error('[markets/syncMarketMembers] Delete failed:', deleteError);
+        return false;
+    }
+
+    if (members.length > 0) {
+        const { error: upsertError } = await serviceClient
+            .from('market_members')
+            .upsert(
+                members.map(member => ({ market_id: marketId, ...member })),
+                { onConflict: 'market_id,phone_number' }
+            );
+
+        if (upsertError) {
+            console.error('[markets/syncMarketMembers] Upsert failed:', upsertError);
+            return false;
+        }
+    }
+
+    const { error: mirrorError } = await serviceClient
+        .from('markets')
+        .update({ whatsapp_numbers: numbers })
+        .eq('id', marketId);
+
+    if (mirrorError) {
+        console.error('[markets/syncMarketMembers] Mirror update failed:', mirrorError);
+        return false;
+    }
+
+    return true;
+}
+
+// ============================================================================
+// Helper: Audit log
+// ============================================================================
+
+/**
+ * A market with its WhatsApp numbers ("<number> (<role>)"), as compared in the audit log
+ */
+async function fetchMarketSnapshot(
+    serviceClient: ReturnType<typeof createServiceClient>,
+    marketId: string
+): Promise<Record<string, unknown> | null> {
+    const { data: market } = await serviceClient
+        .from('markets')
+        .select('*')
+        .eq('id', marketId)
+        .maybeSingle();
+
+    if (!market) {
+        return null;
+    }
+
+    const { data: members } = await serviceClient
+        .from('market_members')
+        .select('phone_number, role')
+        .eq('market_id', marketId);
+
+    return {
+        ...market,
+        whatsapp_members: (members || []).map(member => `${member.phone_number} (${member.role})`).sort(),
+    };
+}
+
+/**
+ * Record a change of a market in the audit log, labelled with its name
+ */
+async function auditMarket(
+    actorId: string,
+    action: AuditAction,
+    marketId: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+): Promise<void> {
+    await recordAudit(actorId, [{
+        action,
+        entityType: 'market',
+        entityId: marketId,
+        entityLabel: String((after ?? before)?.name ?? ''),
+        before,
+        after
+    }]);
+}
+
 // ============================================================================
 // Actions
 // ============================================================================
@@ -98,7 +225,7 @@ export async function createMarket(rawData: unknown): Promise<ActionResult> {
     // Check if slug already exists (prevents duplicate constraint errors)
     const { data: existingSlug, error: slugCheckError } = await serviceClient
         .from('markets')
-        .select('id')
+        .select('id, deleted_at')
         .eq('slug', parsed.data.slug)
         .maybeSingle();
 
@@ -107,21 +234,35 @@ export async function createMarket(rawData: unknown): Promise<ActionResult> {
         return { success: false, error: 'Datenbankfehler bei der Slug-Prüfung.' };
     }
 
+    if (existingSlug?.deleted_at) {
+        return { success: false, error: 'Ein Markt mit diesem Slug liegt im Papierkorb. Bitte stelle ihn wieder her oder wähle einen anderen Slug.' };
+    }
+
     if (existingSlug) {
         return { success: false, error: 'Ein Markt mit diesem Slug existiert bereits. Bitte wähle einen anderen Slug.' };
     }
 
-    const { error: insertError } = await serviceClient
+    const { whatsapp_members, ...marketData } = parsed.data;
+
+    const { data: inserted, error: insertError } = await serviceClient
         .from('markets')
-        .insert(parsed.data)
-        .select()
+        .insert(marketData)
+        .select('id')
         .single();
 
-    if (insertError) {
+    if (insertError || !inserted) {
         console.error('[markets/createMarket] Insert failed:', insertError);
         return { success: false, error: 'Datenbankfehler beim Erstellen des Markts.' };
     }
 
+    const membersSynced = await syncMarketMembers(serviceClient, inserted.id, whatsapp_members);
+
+    await auditMarket(auth.userId, 'create', inserted.id, null, await fetchMarketSnapshot(serviceClient, inserted.id));
+
+    if (!membersSynced) {
+        return { success: false, error: 'Markt erstellt, aber Fehler beim Speichern der WhatsApp-Nummern.' };
+    }
+
     return { success: true };
 }
 
@@ -150,14 +291,10 @@ export async function updateMarket(marketId: string, rawData: unknown): Promise<
 
     const serviceClient = createServiceClient();
 
-    // Verify market exists and get current slug
-    const { data: existing, error: fetchError } = await serviceClient
-        .from('markets')
-        .select('id, slug')
-        .eq('id', marketId)
-        .single();
+    // Verify market exists and get its current state (slug, WhatsApp numbers)
+    const existing = await fetchMarketSnapshot(serviceClient, marketId);
 
-    if (fetchError || !existing) {
+    if (!existing || existing.deleted_at) {
         return { success: false, error: 'Markt nicht gefunden.' };
     }
 
@@ -180,9 +317,11 @@ export async function updateMarket(marketId: string, rawData: unknown): Promise<
         }
     }
 
+    const { whatsapp_members, ...marketData } = parsed.data;
+
     const { error: updateError } = await serviceClient
         .from('markets')
-        .update(parsed.data)
+        .update(marketData)
         .eq('id', marketId);
 
     if (updateError) {
@@ -190,6 +329,14 @@ export async function updateMarket(marketId: string, rawData: unknown): Promise<
         return { success: false, error: 'Datenbankfehler beim Aktualisieren des Markts.' };
     }
 
+    const membersSynced = await syncMarketMembers(serviceClient, marketId, whatsapp_members);
+
+    await auditMarket(auth.userId, 'update', marketId, existing, await fetchMarketSnapshot(serviceClient, marketId));
+
+    if (!membersSynced) {
+        return { success: false, error: 'Datenbankfehler beim Speichern der WhatsApp-Nummern.' };
+    }
+
     return { success: true };
 }
 
@@ -221,31 +368,37 @@ export async function updateMarketStatus(
 
     const { data: market, error: fetchError } = await serviceClient
         .from('markets')
-        .select('id')
+        .select('*')
         .eq('id', marketId)
+        .is('deleted_at', null)
         .single();
 
     if (fetchError || !market) {
         return { success: false, error: 'Markt nicht gefunden.' };
     }
 
-    const { error: updateError } = await serviceClient
+    const { data: updated, error: updateError } = await serviceClient
         .from('markets')
         .update({ is_active: isActive })
-        .eq('id', marketId);
+        .eq('id', marketId)
+        .select('*')
+        .single();
 
     if (updateError) {
         console.error('[markets/updateMarketStatus] Update failed:', updateError);
         return { success: false, error: 'Datenbankfehler beim Aktualisieren des Status.' };
     }
 
+    await auditMarket(auth.userId, isActive ? 'activate' : 'deactivate', marketId, market, updated);
+
     return { success: true };
 }
 
 /**
- * Permanently deletes a market.
+ * Moves a market and its offers to the trash. Customers no longer see it and its WhatsApp numbers
+ * are no longer recognized; it can be restored until the purge-trash cron job deletes it.
  *
- * Security: session → is_admin() → market exists → service_role delete
+ * Security: session → is_admin() → market exists → service_role update
  */
 export async function deleteMarket(marketId: string): Promise<ActionResult> {
     // Validate marketId is a valid UUID
@@ -261,19 +414,30 @@ export async function deleteMarket(marketId: string): Promise<ActionResult> {
 
     const serviceClient = createServiceClient();
 
-    const { data: existing, error: fetchError } = await serviceClient
-        .from('markets')
-        .select('id')
-        .eq('id', marketId)
-        .single();
+    const existing = await fetchMarketSnapshot(serviceClient, marketId);
 
-    if (fetchError || !existing) {
+    if (!existing || existing.deleted_at) {
         return { success: false, error: 'Markt nicht gefunden.' };
     }
 
+    // The offers get the market's timestamp, so restoring the market brings back exactly these
+    const deletedAt = new Date().toISOString();
+
+    const { data: trashedOffers, error: offersError } = await serviceClient
+        .from('offers')
+        .update({ deleted_at: deletedAt })
+        .eq('market_id', marketId)
+        .is('deleted_at', null)
+        .select('*');
+
+    if (offersError) {
+        console.error('[markets/deleteMarket] Trashing offers failed:', offersError);
+        return { success: false, error: 'Datenbankfehler beim Löschen des Markts.' };
+    }
+
     const { error: deleteError } = await serviceClient
         .from('markets')
-        .delete()
+        .update({ deleted_at: deletedAt })
         .eq('id', marketId);
 
     if (deleteError) {
@@ -281,6 +445,77 @@ export async function deleteMarket(marketId: string): Promise<ActionResult> {
         return { success: false, error: 'Datenbankfehler beim Löschen des Markts.' };
     }
 
+    await auditMarket(auth.userId, 'delete', marketId, existing, { ...existing, deleted_at: deletedAt });
+    await recordAudit(auth.userId, trashedOffers.map(offer => ({
+        action: 'delete' as const,
+        entityType: 'offer' as const,
+        entityId: offer.id,
+        entityLabel: offer.product_name,
+        before: { ...offer, deleted_at: null },
+        after: offer
+    })));
+
+    return { success: true };
+}
+
+/**
+ * Restores a market from the trash together with the offers that were trashed with it.
+ *
+ * Security: session → is_admin() → trashed market exists → service_role update
+ */
+export async function restoreMarket(marketId: string): Promise<ActionResult> {
+    // Validate marketId is a valid UUID
+    const idParsed = MarketIdSchema.safeParse(marketId);
+    if (!idParsed.success) {
+        return { success: false, error: idParsed.error.issues[0].message };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    const existing = await fetchMarketSnapshot(serviceClient, marketId);
+
+    if (!existing || !existing.deleted_at) {
+        return { success: false, error: 'Markt nicht im Papierkorb gefunden.' };
+    }
+
+    const { error: restoreError } = await serviceClient
+        .from('markets')
+        .update({ deleted_at: null })
+        .eq('id', marketId);
+
+    if (restoreError) {
+        console.error('[markets/restoreMarket] Restore failed:', restoreError);
+        return { success: false, error: 'Datenbankfehler beim Wiederherstellen des Markts.' };
+    }
+
+    // Offers deleted on their own before the market stay in the trash
+    const { data: restoredOffers, error: offersError } = await serviceClient
+        .from('offers')
+        .update({ deleted_at: null })
+        .eq('market_id', marketId)
+        .eq('deleted_at', existing.deleted_at)
+        .select('*');
+
+    if (offersError) {
+        console.error('[markets/restoreMarket] Restoring offers failed:', offersError);
+        return { success: false, error: 'Datenbankfehler beim Wiederherstellen der Angebote.' };
+    }
+
+    await auditMarket(auth.userId, 'restore', marketId, existing, { ...existing, deleted_at: null });
+    await recordAudit(auth.userId, restoredOffers.map(offer => ({
+        action: 'restore' as const,
+        entityType: 'offer' as const,
+        entityId: offer.id,
+        entityLabel: offer.product_name,
+        before: { ...offer, deleted_at: existing.deleted_at },
+        after: offer
+    })));
+
     return { success: true };
 }
 
@@ -361,13 +596,39 @@ export async function seedSampleMarkets(): Promise<SeedResult> {
     const { data: insertedMarkets, error: marketError } = await serviceClient
         .from('markets')
         .insert(sampleMarkets)
-        .select('id');
+        .select('*');
 
     if (marketError || !insertedMarkets || insertedMarkets.length === 0) {
         console.error('[markets/seedSampleMarkets] Market insert failed:', marketError);
         return { success: false, error: 'Fehler beim Einfügen der Märkte.' };
     }
 
+    await recordAudit(auth.userId, insertedMarkets.map(market => ({
+        action: 'create' as const,
+        entityType: 'market' as const,
+        entityId: market.id,
+        entityLabel: market.name,
+        before: null,
+        after: market
+    })));
+
+    // Register the sample WhatsApp numbers: the first one of each market is the owner
+    const sampleMembers = insertedMarkets.flatMap((market, index) =>
+        sampleMarkets[index].whatsapp_numbers.map((phoneNumber, position) => ({
+            market_id: market.id,
+            phone_number: phoneNumber,
+            role: position === 0 ? 'owner' : 'employee',
+        }))
+    );
+
+    const { error: memberError } = await serviceClient
+        .from('market_members')
+        .insert(sampleMembers);
+
+    if (memberError) {
+        console.error('[markets/seedSampleMarkets] Member insert failed:', memberError);
+    }
+
     // Insert offers linked to the new markets
     const sampleOffers = [
         { market_id: insertedMarkets[0].id, product_name: 'Frische Granatäpfel', price: '1.49€', expires_at: '2026-12-31', image_url: 'https://images.unsplash.com/photo-1615485290382-441e4d049cb5?w=400&h=300&fit=crop' },
@@ -381,9 +642,10 @@ export async function seedSampleMarkets(): Promise<SeedResult> {
         { market_id: insertedMarkets[2].id, product_name: 'Gewürzmischung Köfte', price: '2.99€', expires_at: '2026-12-31', image_url: 'https://images.unsplash.com/photo-1596040033229-a9821ebd058d?w=400&h=300&fit=crop' },
     ];
 
-    const { error: offerError } = await serviceClient
+    const { data: insertedOffers, error: offerError } = await serviceClient
         .from('offers')
-        .insert(sampleOffers);
+        .insert(sampleOffers)
+        .select('*');
 
     if (offerError) {
         console.error('[markets/seedSampleMarkets] Offer insert failed:', offerError);
@@ -395,6 +657,15 @@ export async function seedSampleMarkets(): Promise<SeedResult> {
         };
     }
 
+    await recordAudit(auth.userId, insertedOffers.map(offer => ({
+        action: 'create' as const,
+        entityType: 'offer' as const,
+        entityId: offer.id,
+        entityLabel: offer.product_name,
+        before: null,
+        after: offer
+    })));
+
     return {
         success: true,
         marketsInserted: insertedMarkets.length,
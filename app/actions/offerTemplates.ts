@@ -0,0 +1,371 @@
+'use server';
+
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { createServiceClient } from '@/utils/supabase/service';
+import { getDiscountPercent, parsePrice } from '@/lib/offerPricing';
+import { materializeOfferTemplates } from '@/lib/offerTemplates';
+import { recordAudit, type AuditAction } from '@/lib/auditLog';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Ungültiges Datum.');
+
+const OfferTemplateSchema = z.object({
+    market_id: z.string().uuid('Ungültige Markt-ID.'),
+    product_name: z.string().trim().min(1, 'Produktname ist erforderlich.'),
+    price: z.string().trim().min(1, 'Preis ist erforderlich.'),
+    // Regular price before the discount; empty or null if the offer is not reduced
+    regular_price: z.string().nullable().optional(),
+    description: z.string().nullable().optional(),
+    unit: z.string().nullable().optional(),
+    ai_category: z.string().nullable().optional(),
+    image_id: z.string().uuid().nullable().optional(),
+    // ISO weekdays: 1 = Monday ... 7 = Sunday
+    weekdays: z.array(z.number().int().min(1).max(7))
+        .min(1, 'Bitte mindestens einen Wochentag auswählen.')
+        .transform(weekdays => [...new Set(weekdays)].sort()),
+    interval_weeks: z.number().int().min(1, 'Ungültiger Rhythmus.').max(12, 'Maximal alle 12 Wochen.'),
+    duration_days: z.number().int().min(1, 'Mindestens ein Tag gültig.').max(28, 'Maximal 28 Tage gültig.'),
+    publish_status: z.enum(['draft', 'live']),
+    starts_on: DateSchema,
+    ends_on: DateSchema.nullable().optional(),
+    is_active: z.boolean().optional().default(true),
+});
+
+// ============================================================================
+// Result types
+// ============================================================================
+
+interface ActionResult {
+    success: boolean;
+    error?: string;
+    templateId?: string;
+    // Offers created right away for the coming week
+    createdOffers?: number;
+}
+
+// ============================================================================
+// Helper: Verify admin session
+// ============================================================================
+
+async function verifyAdmin(): Promise<{ userId: string } | { error: string }> {
+    const authClient = await createClient();
+    const { data: { user }, error: authError } = await authClient.auth.getUser();
+
+    if (authError || !user) {
+        return { error: 'Nicht authentifiziert. Bitte erneut anmelden.' };
+    }
+
+    const { data: isAdmin, error: rpcError } = await authClient.rpc('is_admin');
+
+    if (rpcError || !isAdmin) {
+        return { error: 'Keine Berechtigung. Nur Admins können wiederkehrende Angebote verwalten.' };
+    }
+
+    return { userId: user.id };
+}
+
+/**
+ * Check the fields of a template that depend on each other and convert the regular price
+ */
+function validateTemplate(data: { price: string; regular_price?: string | null; starts_on: string; ends_on?: string | null }):
+    { regular_price: number | null } | { error: string } {
+    if (parsePrice(data.price) === null) {
+        return { error: 'Ungültiger Preis.' };
+    }
+    if (data.ends_on && data.ends_on < data.starts_on) {
+        return { error: 'Das Enddatum muss nach dem Startdatum liegen.' };
+    }
+    if (!data.regular_price?.trim()) {
+        return { regular_price: null };
+    }
+    if (getDiscountPercent(data.price, data.regular_price) === null) {
+        return { error: 'Der reguläre Preis muss höher als der Angebotspreis sein.' };
+    }
+    return { regular_price: parsePrice(data.regular_price) };
+}
+
+/**
+ * Record a change of a template in the audit log, labelled with its product name
+ */
+async function auditTemplate(
+    actorId: string,
+    action: AuditAction,
+    templateId: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+): Promise<void> {
+    await recordAudit(actorId, [{
+        action,
+        entityType: 'offer_template',
+        entityId: templateId,
+        entityLabel: String((after ?? before)?.product_name ?? ''),
+        before,
+        after
+    }]);
+}
+
+/**
+ * Move the occurrences of a template that have not started yet (drafts and scheduled offers) to the trash
+ * They are detached from the template, so its changed occurrences can be created for the same days.
+ * Occurrences already in the trash stay attached, so the days an admin deleted by hand are not created again.
+ */
+async function trashUpcomingOffers(
+    serviceClient: ReturnType<typeof createServiceClient>,
+    actorId: string,
+    templateId: string
+): Promise<{ error?: unknown }> {
+    const { data: trashed, error } = await serviceClient
+        .from('offers')
+        .update({ deleted_at: new Date().toISOString(), template_id: null })
+        .eq('template_id', templateId)
+        .in('status', ['draft', 'scheduled'])
+        .is('deleted_at', null)
+        .gt('starts_at', new Date().toISOString())
+        .select('*');
+
+    if (error) {
+        return { error };
+    }
+
+    await recordAudit(actorId, trashed.map(offer => ({
+        action: 'delete' as const,
+        entityType: 'offer' as const,
+        entityId: offer.id,
+        entityLabel: offer.product_name,
+        before: { ...offer, deleted_at: null, template_id: templateId },
+        after: offer
+    })));
+
+    return {};
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Creates a recurring offer template and its offers for the coming week.
+ *
+ * Security: session → is_admin() → Zod validation → market exists check → service_role insert
+ */
+export async function createOfferTemplate(rawData: unknown): Promise<ActionResult> {
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const parsed = OfferTemplateSchema.safeParse(rawData);
+    if (!parsed.success) {
+        const firstError = parsed.error.issues[0];
+        return { success: false, error: `Validierungsfehler: ${firstError.path.join('.')} – ${firstError.message}` };
+    }
+
+    const validated = validateTemplate(parsed.data);
+    if ('error' in validated) {
+        return { success: false, error: validated.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    // IMPORTANT SECURITY CHECK: Verify market_id exists
+    const { data: marketExists, error: marketCheckError } = await serviceClient
+        .from('markets')
+        .select('id')
+        .eq('id', parsed.data.market_id)
+        .single();
+
+    if (marketCheckError || !marketExists) {
+        return { success: false, error: 'Der angegebene Markt existiert nicht.' };
+    }
+
+    const { data: template, error: insertError } = await serviceClient
+        .from('offer_templates')
+        .insert({
+            ...parsed.data,
+            regular_price: validated.regular_price,
+            description: parsed.data.description || null,
+            unit: parsed.data.unit || 'Stück',
+            ai_category: parsed.data.ai_category || null,
+            image_id: parsed.data.image_id || null,
+            ends_on: parsed.data.ends_on || null,
+        })
+        .select('*')
+        .single();
+
+    if (insertError) {
+        console.error('[offerTemplates/createOfferTemplate] Insert failed:', insertError);
+        return { success: false, error: 'Datenbankfehler beim Erstellen der Vorlage.' };
+    }
+
+    await auditTemplate(auth.userId, 'create', template.id, null, template);
+
+    try {
+        const createdOffers = await materializeOfferTemplates({ templateIds: [template.id] });
+        return { success: true, templateId: template.id, createdOffers };
+    } catch (err) {
+        // The cron job creates the offers later
+        console.error('[offerTemplates/createOfferTemplate] Materializing failed:', err);
+        return { success: true, templateId: template.id, createdOffers: 0 };
+    }
+}
+
+/**
+ * Updates a recurring offer template. Its upcoming offers are recreated from the changed template;
+ * offers that already started are kept.
+ *
+ * Security: session → is_admin() → Zod validation → template exists → service_role update
+ */
+export async function updateOfferTemplate(templateId: string, rawData: unknown): Promise<ActionResult> {
+    if (!templateId || typeof templateId !== 'string') {
+        return { success: false, error: 'Ungültige Vorlagen-ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const parsed = OfferTemplateSchema.partial().safeParse(rawData);
+    if (!parsed.success) {
+        const firstError = parsed.error.issues[0];
+        return { success: false, error: `Validierungsfehler: ${firstError.path.join('.')} – ${firstError.message}` };
+    }
+
+    // Reject empty updates
+    if (Object.keys(parsed.data).length === 0) {
+        return { success: false, error: 'Keine Änderungen angegeben.' };
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Verify template exists
+    const { data: existing, error: fetchError } = await serviceClient
+        .from('offer_templates')
+        .select('*')
+        .eq('id', templateId)
+        .single();
+
+    if (fetchError || !existing) {
+        return { success: false, error: 'Vorlage nicht gefunden.' };
+    }
+
+    const validated = validateTemplate({
+        price: parsed.data.price ?? existing.price,
+        regular_price: parsed.data.regular_price !== undefined
+            ? parsed.data.regular_price
+            : existing.regular_price !== null ? String(existing.regular_price) : null,
+        starts_on: parsed.data.starts_on ?? existing.starts_on,
+        ends_on: parsed.data.ends_on !== undefined ? parsed.data.ends_on : existing.ends_on,
+    });
+    if ('error' in validated) {
+        return { success: false, error: validated.error };
+    }
+
+    // If market_id is being updated, verify it exists
+    if (parsed.data.market_id) {
+        const { data: marketExists, error: marketCheckError } = await serviceClient
+            .from('markets')
+            .select('id')
+            .eq('id', parsed.data.market_id)
+            .single();
+
+        if (marketCheckError || !marketExists) {
+            return { success: false, error: 'Der angegebene Markt existiert nicht.' };
+        }
+    }
+
+    const { data: updated, error: updateError } = await serviceClient
+        .from('offer_templates')
+        .update({
+            ...parsed.data,
+            regular_price: validated.regular_price,
+            // Start over, so the upcoming offers are created from the changed template
+            materialized_until: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', templateId)
+        .select('*')
+        .single();
+
+    if (updateError) {
+        console.error('[offerTemplates/updateOfferTemplate] Update failed:', updateError);
+        return { success: false, error: 'Datenbankfehler beim Aktualisieren der Vorlage.' };
+    }
+
+    // materialized_until is bookkeeping of the cron job, not a change by the admin
+    await auditTemplate(
+        auth.userId,
+        'update',
+        templateId,
+        { ...existing, materialized_until: null },
+        updated
+    );
+
+    // Only after the update - if it failed, the upcoming offers of the unchanged template must stay
+    const { error: deleteError } = await trashUpcomingOffers(serviceClient, auth.userId, templateId);
+    if (deleteError) {
+        console.error('[offerTemplates/updateOfferTemplate] Trashing upcoming offers failed:', deleteError);
+        return { success: false, error: 'Vorlage gespeichert, aber die kommenden Angebote konnten nicht aktualisiert werden.' };
+    }
+
+    try {
+        const createdOffers = await materializeOfferTemplates({ templateIds: [templateId] });
+        return { success: true, templateId, createdOffers };
+    } catch (err) {
+        console.error('[offerTemplates/updateOfferTemplate] Materializing failed:', err);
+        return { success: true, templateId, createdOffers: 0 };
+    }
+}
+
+/**
+ * Deletes a recurring offer template and moves its upcoming offers to the trash; offers that already started are kept.
+ *
+ * Security: session → is_admin() → template exists → service_role delete
+ */
+export async function deleteOfferTemplate(templateId: string): Promise<ActionResult> {
+    if (!templateId || typeof templateId !== 'string') {
+        return { success: false, error: 'Ungültige Vorlagen-ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Verify template exists
+    const { data: existing, error: fetchError } = await serviceClient
+        .from('offer_templates')
+        .select('*')
+        .eq('id', templateId)
+        .single();
+
+    if (fetchError || !existing) {
+        return { success: false, error: 'Vorlage nicht gefunden.' };
+    }
+
+    const { error: offersError } = await trashUpcomingOffers(serviceClient, auth.userId, templateId);
+    if (offersError) {
+        console.error('[offerTemplates/deleteOfferTemplate] Trashing upcoming offers failed:', offersError);
+        return { success: false, error: 'Datenbankfehler beim Löschen der Vorlage.' };
+    }
+
+    const { error: deleteError } = await serviceClient
+        .from('offer_templates')
+        .delete()
+        .eq('id', templateId);
+
+    if (deleteError) {
+        console.error('[offerTemplates/deleteOfferTemplate] Delete failed:', deleteError);
+        return { success: false, error: 'Datenbankfehler beim Löschen der Vorlage.' };
+    }
+
+    await auditTemplate(auth.userId, 'delete', templateId, existing, null);
+
+    return { success: true };
+}
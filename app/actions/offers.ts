@@ -3,6 +3,11 @@
 import { z } from 'zod';
 import { createClient } from '@/utils/supabase/server';
 import { createServiceClient } from '@/utils/supabase/service';
+import { extractOffers, type ExtractionErrorCode } from '@/lib/offerExtraction';
+import { getPriceColumns, parsePrice } from '@/lib/offerPricing';
+import { getPublishStatus, type OfferStatus } from '@/lib/offerSchedule';
+import { findDuplicateOffer, mergeDuplicate, keepDuplicate } from '@/lib/offerDuplicates';
+import { recordAudit, type AuditAction } from '@/lib/auditLog';
 
 // ============================================================================
 // Zod Schemas
@@ -12,13 +17,19 @@ const OfferDataSchema = z.object({
     market_id: z.string().uuid('Ungültige Markt-ID.'),
     product_name: z.string().min(1, 'Produktname ist erforderlich.'),
     price: z.string().min(1, 'Preis ist erforderlich.'),
+    // Regular price before the discount ("statt 3,49"); empty or null if the offer is not reduced
+    regular_price: z.string().nullable().optional(),
     description: z.string().nullable().optional(),
     image_id: z.string().uuid().nullable().optional(),
     expires_at: z.string().refine((date) => {
         const parsed = new Date(date);
         return !isNaN(parsed.getTime());
     }, 'Ungültiges Ablaufdatum.'),
-    status: z.enum(['draft', 'live', 'expired']).optional().default('draft'),
+    // Start of the validity window; empty or null if the offer is valid from publication on
+    starts_at: z.string().nullable().optional().refine((date) => {
+        return !date || !isNaN(new Date(date).getTime());
+    }, 'Ungültiges Startdatum.'),
+    status: z.enum(['draft', 'scheduled', 'live', 'expired']).optional().default('draft'),
     unit: z.string().nullable().optional(),
     ai_category: z.string().nullable().optional(),
 });
@@ -30,6 +41,15 @@ const BulkIdsSchema = z.array(z.string().uuid('Ungültige Angebots-ID.'))
     .min(1, 'Keine Angebote angegeben.')
     .max(100, 'Maximal 100 Angebote pro Bulk-Aktion.');
 
+// Schema for AI extraction — a pasted offer text (e.g. a forwarded WhatsApp message)
+const ExtractionTextSchema = z.string()
+    .trim()
+    .min(1, 'Bitte gib einen Text ein.')
+    .max(2000, 'Der Text darf maximal 2000 Zeichen lang sein.');
+
+// How long a re-run expired offer stays live
+const RERUN_DAYS = 7;
+
 // ============================================================================
 // Result types
 // ============================================================================
@@ -38,8 +58,37 @@ interface ActionResult {
     success: boolean;
     error?: string;
     offerId?: string;
+    // Product name of the existing offer a new offer likely duplicates
+    duplicateOf?: string;
+}
+
+interface ExtractOfferResult extends ActionResult {
+    offer?: {
+        product_name: string;
+        price: string;
+        // Empty if the text names no regular price
+        regular_price: string;
+        unit: string;
+        description: string;
+        ai_category: string;
+        // YYYY-MM-DD, derived from the validity the AI recognized
+        expires_at: string;
+    };
+    // More offers were recognized than the one returned
+    additionalOffers?: number;
 }
 
+const EXTRACTION_ERROR_MESSAGES: Record<ExtractionErrorCode, string> = {
+    MISSING_PRODUCT: 'Im Text wurde kein Produktname gefunden.',
+    MISSING_PRICE: 'Im Text wurde kein Preis gefunden.',
+    MISSING_BOTH: 'Im Text wurde kein Angebot mit Produktname und Preis gefunden.',
+    UNCLEAR_MESSAGE: 'Der Text ist unklar. Bitte Produktname und Preis angeben.',
+    NO_PRODUCTS: 'Im Text wurde kein Angebot mit Produktname und Preis gefunden.',
+    PROVIDER_ERROR: 'Die KI ist gerade nicht erreichbar. Bitte später erneut versuchen.',
+    EMPTY_RESPONSE: 'Die KI hat keine Antwort geliefert. Bitte erneut versuchen.',
+    PARSE_ERROR: 'Die Antwort der KI konnte nicht gelesen werden. Bitte erneut versuchen.',
+};
+
 // ============================================================================
 // Helper: Verify admin session
 // ============================================================================
@@ -61,6 +110,67 @@ async function verifyAdmin(): Promise<{ userId: string } | { error: string }> {
     return { userId: user.id };
 }
 
+/**
+ * Record a change of an offer in the audit log, labelled with its product name
+ */
+async function auditOffer(
+    actorId: string,
+    action: AuditAction,
+    offerId: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+): Promise<void> {
+    await recordAudit(actorId, [{
+        action,
+        entityType: 'offer',
+        entityId: offerId,
+        entityLabel: String((after ?? before)?.product_name ?? ''),
+        before,
+        after
+    }]);
+}
+
+/**
+ * Parse the optional regular price of an offer and check that it is higher than the offer price
+ */
+function parseRegularPrice(
+    regularPrice: string | null | undefined,
+    price: string
+): { value: number | null } | { error: string } {
+    if (!regularPrice?.trim()) {
+        return { value: null };
+    }
+
+    const value = parsePrice(regularPrice);
+    if (value === null) {
+        return { error: 'Ungültiger regulärer Preis.' };
+    }
+
+    const offerPrice = parsePrice(price);
+    if (offerPrice !== null && value <= offerPrice) {
+        return { error: 'Der reguläre Preis muss höher als der Angebotspreis sein.' };
+    }
+
+    return { value };
+}
+
+/**
+ * The status to store for an offer: published offers with a start date in the future are scheduled
+ */
+function resolveStatus(status: OfferStatus, startsAt: string | null | undefined): OfferStatus {
+    return status === 'live' || status === 'scheduled' ? getPublishStatus(startsAt) : status;
+}
+
+/**
+ * Check that the validity window of an offer is not empty
+ */
+function validateWindow(startsAt: string | null | undefined, expiresAt: string): string | null {
+    if (startsAt && new Date(startsAt).getTime() >= new Date(expiresAt).getTime()) {
+        return 'Das Startdatum muss vor dem Ablaufdatum liegen.';
+    }
+    return null;
+}
+
 // ============================================================================
 // Actions
 // ============================================================================
@@ -82,6 +192,16 @@ export async function createOffer(rawData: unknown): Promise<ActionResult> {
         return { success: false, error: `Validierungsfehler: ${firstError.path.join('.')} – ${firstError.message}` };
     }
 
+    const regularPrice = parseRegularPrice(parsed.data.regular_price, parsed.data.price);
+    if ('error' in regularPrice) {
+        return { success: false, error: regularPrice.error };
+    }
+
+    const windowError = validateWindow(parsed.data.starts_at, parsed.data.expires_at);
+    if (windowError) {
+        return { success: false, error: windowError };
+    }
+
     const serviceClient = createServiceClient();
 
     // IMPORTANT SECURITY CHECK: Verify market_id exists
@@ -89,27 +209,39 @@ export async function createOffer(rawData: unknown): Promise<ActionResult> {
         .from('markets')
         .select('id')
         .eq('id', parsed.data.market_id)
+        .is('deleted_at', null)
         .single();
 
     if (marketCheckError || !marketExists) {
         return { success: false, error: 'Der angegebene Markt existiert nicht.' };
     }
 
+    const status = resolveStatus(parsed.data.status || 'draft', parsed.data.starts_at);
+
+    // Flag likely duplicates of the market's draft and live offers for the review -
+    // only drafts go through the review, published offers were checked by the admin already
+    const duplicate = status === 'draft'
+        ? await findDuplicateOffer(parsed.data.market_id, parsed.data.product_name)
+        : null;
+
     // Insert the offer
     const { data: insertedOffer, error: insertError } = await serviceClient
         .from('offers')
         .insert({
             market_id: parsed.data.market_id,
             product_name: parsed.data.product_name,
-            price: parsed.data.price,
+            ...getPriceColumns(parsed.data.price, parsed.data.unit || 'Stück'),
+            regular_price: regularPrice.value,
             description: parsed.data.description || null,
             image_id: parsed.data.image_id || null,
+            starts_at: parsed.data.starts_at || null,
             expires_at: parsed.data.expires_at,
-            status: parsed.data.status || 'draft',
+            status,
             unit: parsed.data.unit || 'Stück',
             ai_category: parsed.data.ai_category || null,
+            duplicate_of: duplicate?.id || null,
         })
-        .select('id')
+        .select('*')
         .single();
 
     if (insertError) {
@@ -117,7 +249,9 @@ export async function createOffer(rawData: unknown): Promise<ActionResult> {
         return { success: false, error: 'Datenbankfehler beim Erstellen des Angebots.' };
     }
 
-    return { success: true, offerId: insertedOffer.id };
+    await auditOffer(auth.userId, 'create', insertedOffer.id, null, insertedOffer);
+
+    return { success: true, offerId: insertedOffer.id, duplicateOf: duplicate?.product_name };
 }
 
 /**
@@ -151,8 +285,9 @@ export async function updateOffer(offerId: string, rawData: unknown): Promise<Ac
     // Verify offer exists
     const { data: existing, error: fetchError } = await serviceClient
         .from('offers')
-        .select('id')
+        .select('*')
         .eq('id', offerId)
+        .is('deleted_at', null)
         .single();
 
     if (fetchError || !existing) {
@@ -165,6 +300,7 @@ export async function updateOffer(offerId: string, rawData: unknown): Promise<Ac
             .from('markets')
             .select('id')
             .eq('id', parsed.data.market_id)
+            .is('deleted_at', null)
             .single();
 
         if (marketCheckError || !marketExists) {
@@ -172,24 +308,65 @@ export async function updateOffer(offerId: string, rawData: unknown): Promise<Ac
         }
     }
 
+    // Keep the Grundpreis in sync when price or unit change
+    const priceColumns = parsed.data.price !== undefined || parsed.data.unit !== undefined
+        ? getPriceColumns(parsed.data.price ?? existing.price, parsed.data.unit !== undefined ? parsed.data.unit : existing.unit)
+        : {};
+
+    // The regular price has to stay above the price, also when only the price changes
+    let regularPriceColumns = {};
+    if (parsed.data.regular_price !== undefined || (parsed.data.price !== undefined && existing.regular_price !== null)) {
+        const regularPrice = parseRegularPrice(
+            parsed.data.regular_price !== undefined ? parsed.data.regular_price : String(existing.regular_price),
+            parsed.data.price ?? existing.price
+        );
+        if ('error' in regularPrice) {
+            return { success: false, error: regularPrice.error };
+        }
+        regularPriceColumns = { regular_price: regularPrice.value };
+    }
+
+    // A changed start date can move a published offer between scheduled and live
+    let scheduleColumns = {};
+    if (parsed.data.starts_at !== undefined || parsed.data.status !== undefined || parsed.data.expires_at !== undefined) {
+        const startsAt = parsed.data.starts_at !== undefined ? parsed.data.starts_at || null : existing.starts_at;
+        const windowError = validateWindow(startsAt, parsed.data.expires_at ?? existing.expires_at);
+        if (windowError) {
+            return { success: false, error: windowError };
+        }
+        const status = resolveStatus(parsed.data.status ?? existing.status, startsAt);
+        scheduleColumns = {
+            starts_at: startsAt,
+            status,
+            // Ending an offer by hand counts as expiry, reactivating it clears the time
+            ...(status !== existing.status ? { expired_at: status === 'expired' ? new Date().toISOString() : null } : {}),
+            // The duplicate flag is only reviewed on drafts
+            ...(status !== 'draft' ? { duplicate_of: null } : {})
+        };
+    }
+
     // Update the offer
-    const { error: updateError } = await serviceClient
+    const { data: updated, error: updateError } = await serviceClient
         .from('offers')
-        .update(parsed.data)
-        .eq('id', offerId);
+        .update({ ...parsed.data, ...priceColumns, ...regularPriceColumns, ...scheduleColumns })
+        .eq('id', offerId)
+        .select('*')
+        .single();
 
     if (updateError) {
         console.error('[offers/updateOffer] Update failed:', updateError);
         return { success: false, error: 'Datenbankfehler beim Aktualisieren des Angebots.' };
     }
 
+    await auditOffer(auth.userId, 'update', offerId, existing, updated);
+
     return { success: true, offerId };
 }
 
 /**
- * Deletes an offer permanently.
+ * Moves an offer to the trash. It can be restored until the purge-trash cron job deletes it.
  *
- * Security: session → is_admin() → offer exists → service_role delete
+ * Security: session → is_admin() → offer exists → service_role update
  */
 export async function deleteOffer(offerId: string): Promise<ActionResult> {
     if (!offerId || typeof offerId !== 'string') {
@@ -206,30 +383,103 @@ export async function deleteOffer(offerId: string): Promise<ActionResult> {
     // Verify offer exists
     const { data: existing, error: fetchError } = await serviceClient
         .from('offers')
-        .select('id')
+        .select('*')
         .eq('id', offerId)
+        .is('deleted_at', null)
         .single();
 
     if (fetchError || !existing) {
         return { success: false, error: 'Angebot nicht gefunden.' };
     }
 
-    // Delete the offer
-    const { error: deleteError } = await serviceClient
+    const { data: trashed, error: deleteError } = await serviceClient
         .from('offers')
-        .delete()
-        .eq('id', offerId);
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', offerId)
+        .select('*')
+        .single();
 
     if (deleteError) {
         console.error('[offers/deleteOffer] Delete failed:', deleteError);
         return { success: false, error: 'Datenbankfehler beim Löschen des Angebots.' };
     }
 
+    await auditOffer(auth.userId, 'delete', offerId, existing, trashed);
+
     return { success: true };
 }
 
 /**
- * Publishes an offer by setting its status to 'live'.
+ * Restores an offer from the trash, together with its library image if that was trashed as well.
+ * Offers of a trashed market come back with the market.
+ *
+ * Security: session → is_admin() → trashed offer exists → market not trashed → service_role update
+ */
+export async function restoreOffer(offerId: string): Promise<ActionResult> {
+    if (!offerId || typeof offerId !== 'string') {
+        return { success: false, error: 'Ungültige Angebots-ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data: existing, error: fetchError } = await serviceClient
+        .from('offers')
+        .select('*')
+        .eq('id', offerId)
+        .not('deleted_at', 'is', null)
+        .single();
+
+    if (fetchError || !existing) {
+        return { success: false, error: 'Angebot nicht im Papierkorb gefunden.' };
+    }
+
+    const { data: market } = await serviceClient
+        .from('markets')
+        .select('deleted_at')
+        .eq('id', existing.market_id)
+        .single();
+
+    if (market?.deleted_at) {
+        return { success: false, error: 'Der Markt des Angebots liegt im Papierkorb. Bitte zuerst den Markt wiederherstellen.' };
+    }
+
+    if (existing.image_id) {
+        const { error: imageError } = await serviceClient
+            .from('image_library')
+            .update({ deleted_at: null })
+            .eq('id', existing.image_id)
+            .not('deleted_at', 'is', null);
+
+        if (imageError) {
+            console.error('[offers/restoreOffer] Restoring image failed:', imageError);
+            return { success: false, error: 'Datenbankfehler beim Wiederherstellen des Angebots.' };
+        }
+    }
+
+    const { data: restored, error: updateError } = await serviceClient
+        .from('offers')
+        .update({ deleted_at: null })
+        .eq('id', offerId)
+        .select('*')
+        .single();
+
+    if (updateError) {
+        console.error('[offers/restoreOffer] Restore failed:', updateError);
+        return { success: false, error: 'Datenbankfehler beim Wiederherstellen des Angebots.' };
+    }
+
+    await auditOffer(auth.userId, 'restore', offerId, existing, restored);
+
+    return { success: true };
+}
+
+/**
+ * Publishes an offer by setting its status to 'live', or to 'scheduled' if its start date lies in the future.
  *
  * Security: session → is_admin() → offer exists → service_role update
  */
@@ -248,30 +498,43 @@ export async function publishOffer(offerId: string): Promise<ActionResult> {
     // Verify offer exists
     const { data: existing, error: fetchError } = await serviceClient
         .from('offers')
-        .select('id, status')
+        .select('*')
         .eq('id', offerId)
+        .is('deleted_at', null)
         .single();
 
     if (fetchError || !existing) {
         return { success: false, error: 'Angebot nicht gefunden.' };
     }
 
-    // Guard: reject if already live
-    if (existing.status === 'live') {
+    // Guard: reject if already live or waiting for its start date
+    if (existing.status === 'live' || existing.status === 'scheduled') {
         return { success: false, error: 'Angebot ist bereits veröffentlicht.' };
     }
 
-    // Update status to 'live'
-    const { error: updateError } = await serviceClient
+    // Guard: an expired offer would go live for nobody - same as publishing via WhatsApp
+    if (new Date(existing.expires_at).getTime() <= Date.now()) {
+        return { success: false, error: 'Angebot ist bereits abgelaufen. Bitte zuerst das Ablaufdatum verlängern.' };
+    }
+
+    // Update status to 'live' (or 'scheduled')
+    const { data: updated, error: updateError } = await serviceClient
         .from('offers')
-        .update({ status: 'live' })
-        .eq('id', offerId);
+        // Publishing a flagged duplicate keeps both offers
+        .update({ status: getPublishStatus(existing.starts_at), duplicate_of: null })
+        .eq('id', offerId)
+        .is('deleted_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .select('*')
+        .single();
 
     if (updateError) {
         console.error('[offers/publishOffer] Publish failed:', updateError);
         return { success: false, error: 'Datenbankfehler beim Veröffentlichen des Angebots.' };
     }
 
+    await auditOffer(auth.userId, 'publish', offerId, existing, updated);
+
     return { success: true, offerId };
 }
 
@@ -295,8 +558,9 @@ export async function unpublishOffer(offerId: string): Promise<ActionResult> {
     // Verify offer exists
     const { data: existing, error: fetchError } = await serviceClient
         .from('offers')
-        .select('id, status')
+        .select('*')
         .eq('id', offerId)
+        .is('deleted_at', null)
         .single();
 
     if (fetchError || !existing) {
@@ -304,23 +568,182 @@ export async function unpublishOffer(offerId: string): Promise<ActionResult> {
     }
 
     // Update status to 'draft'
-    const { error: updateError } = await serviceClient
+    const { data: updated, error: updateError } = await serviceClient
         .from('offers')
         .update({ status: 'draft' })
-        .eq('id', offerId);
+        .eq('id', offerId)
+        .select('*')
+        .single();
 
     if (updateError) {
         console.error('[offers/unpublishOffer] Unpublish failed:', updateError);
         return { success: false, error: 'Datenbankfehler beim Zurückziehen des Angebots.' };
     }
 
+    await auditOffer(auth.userId, 'unpublish', offerId, existing, updated);
+
     return { success: true, offerId };
 }
 
 /**
- * Bulk deletes multiple offers.
+ * Re-runs an expired offer for another week: sets it live again with a new expiry date.
  *
- * Security: session → is_admin() → service_role delete
+ * Security: session → is_admin() → offer exists and is expired → service_role update
+ */
+export async function rerunOffer(offerId: string): Promise<ActionResult> {
+    if (!offerId || typeof offerId !== 'string') {
+        return { success: false, error: 'Ungültige Angebots-ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Verify offer exists
+    const { data: existing, error: fetchError } = await serviceClient
+        .from('offers')
+        .select('*')
+        .eq('id', offerId)
+        .is('deleted_at', null)
+        .single();
+
+    if (fetchError || !existing) {
+        return { success: false, error: 'Angebot nicht gefunden.' };
+    }
+
+    // Guard: only expired offers are re-run, running ones are extended in the editor
+    if (existing.status !== 'expired') {
+        return { success: false, error: 'Nur abgelaufene Angebote können erneut geschaltet werden.' };
+    }
+
+    const { data: updated, error: updateError } = await serviceClient
+        .from('offers')
+        .update({
+            status: 'live',
+            starts_at: null,
+            expires_at: new Date(Date.now() + RERUN_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+            expired_at: null,
+        })
+        .eq('id', offerId)
+        .select('*')
+        .single();
+
+    if (updateError) {
+        console.error('[offers/rerunOffer] Re-run failed:', updateError);
+        return { success: false, error: 'Datenbankfehler beim erneuten Schalten des Angebots.' };
+    }
+
+    await auditOffer(auth.userId, 'rerun', offerId, existing, updated);
+
+    return { success: true, offerId };
+}
+
+/**
+ * Merges a likely duplicate into the existing offer it repeats: the existing offer takes over
+ * the new price and expiry, the duplicate draft is moved to the trash.
+ *
+ * Security: session → is_admin() → duplicate draft exists → service_role update + move to trash
+ */
+export async function mergeDuplicateOffer(offerId: string): Promise<ActionResult> {
+    if (!offerId || typeof offerId !== 'string') {
+        return { success: false, error: 'Ungültige Angebots-ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    try {
+        // Both offers before the merge, for the audit log
+        const { data: duplicate } = await serviceClient
+            .from('offers')
+            .select('*')
+            .eq('id', offerId)
+            .maybeSingle();
+
+        const { data: original } = duplicate?.duplicate_of
+            ? await serviceClient
+                .from('offers')
+                .select('*')
+                .eq('id', duplicate.duplicate_of)
+                .maybeSingle()
+            : { data: null };
+
+        const result = await mergeDuplicate(offerId);
+
+        if (!result.ok) {
+            return {
+                success: false,
+                error: result.reason === 'original_gone'
+                    ? 'Das bisherige Angebot existiert nicht mehr. Der Entwurf bleibt als eigenes Angebot erhalten.'
+                    : 'Angebot nicht gefunden oder nicht als Duplikat markiert.'
+            };
+        }
+
+        const [{ data: merged }, { data: trashed }] = await Promise.all([
+            serviceClient.from('offers').select('*').eq('id', result.offer.id).single(),
+            serviceClient.from('offers').select('*').eq('id', offerId).single()
+        ]);
+
+        await auditOffer(auth.userId, 'merge', result.offer.id, original, merged);
+        await auditOffer(auth.userId, 'delete', offerId, duplicate, trashed);
+
+        return { success: true, offerId: result.offer.id };
+    } catch (err) {
+        console.error('[offers/mergeDuplicateOffer] Merge failed:', err);
+        return { success: false, error: 'Datenbankfehler beim Zusammenführen der Angebote.' };
+    }
+}
+
+/**
+ * Keeps a likely duplicate as a separate offer by removing its duplicate flag.
+ *
+ * Security: session → is_admin() → flagged offer exists → service_role update
+ */
+export async function keepDuplicateOffer(offerId: string): Promise<ActionResult> {
+    if (!offerId || typeof offerId !== 'string') {
+        return { success: false, error: 'Ungültige Angebots-ID.' };
+    }
+
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const serviceClient = createServiceClient();
+
+    try {
+        const { data: existing } = await serviceClient
+            .from('offers')
+            .select('*')
+            .eq('id', offerId)
+            .maybeSingle();
+
+        const result = await keepDuplicate(offerId);
+
+        if (!result.ok) {
+            return { success: false, error: 'Angebot nicht gefunden oder nicht als Duplikat markiert.' };
+        }
+
+        await auditOffer(auth.userId, 'keep_duplicate', offerId, existing, { ...existing, duplicate_of: null });
+
+        return { success: true, offerId };
+    } catch (err) {
+        console.error('[offers/keepDuplicateOffer] Update failed:', err);
+        return { success: false, error: 'Datenbankfehler beim Speichern des Angebots.' };
+    }
+}
+
+/**
+ * Bulk moves multiple offers to the trash.
+ *
+ * Security: session → is_admin() → service_role update
  */
 export async function bulkDeleteOffers(offerIds: unknown): Promise<ActionResult> {
     const parsed = BulkIdsSchema.safeParse(offerIds);
@@ -336,22 +759,34 @@ export async function bulkDeleteOffers(offerIds: unknown): Promise<ActionResult>
 
     const serviceClient = createServiceClient();
 
-    // Delete all offers in the array
-    const { error: deleteError } = await serviceClient
+    // Trash all offers in the array that are not trashed yet
+    const { data: trashed, error: deleteError } = await serviceClient
         .from('offers')
-        .delete()
-        .in('id', parsed.data);
+        .update({ deleted_at: new Date().toISOString() })
+        .in('id', parsed.data)
+        .is('deleted_at', null)
+        .select('*');
 
     if (deleteError) {
         console.error('[offers/bulkDeleteOffers] Bulk delete failed:', deleteError);
         return { success: false, error: 'Datenbankfehler beim Löschen der Angebote.' };
     }
 
+    await recordAudit(auth.userId, trashed.map(offer => ({
+        action: 'delete' as const,
+        entityType: 'offer' as const,
+        entityId: offer.id,
+        entityLabel: offer.product_name,
+        before: { ...offer, deleted_at: null },
+        after: offer
+    })));
+
     return { success: true };
 }
 
 /**
- * Bulk publishes multiple offers.
+ * Bulk publishes multiple offers. Offers with a start date in the future are scheduled.
+ * Expired offers and offers in the trash are skipped.
  *
  * Security: session → is_admin() → service_role update
  */
@@ -369,16 +804,104 @@ export async function bulkPublishOffers(offerIds: unknown): Promise<ActionResult
 
     const serviceClient = createServiceClient();
 
-    // Update all offers to 'live' status
-    const { error: updateError } = await serviceClient
+    const now = new Date().toISOString();
+
+    const { data: existing, error: fetchError } = await serviceClient
         .from('offers')
-        .update({ status: 'live' })
-        .in('id', parsed.data);
+        .select('*')
+        .in('id', parsed.data)
+        .is('deleted_at', null);
+
+    if (fetchError) {
+        console.error('[offers/bulkPublishOffers] Fetch failed:', fetchError);
+        return { success: false, error: 'Datenbankfehler beim Veröffentlichen der Angebote.' };
+    }
+
+    // Offers with a start date in the future wait for it as 'scheduled'
+    const { data: scheduled, error: scheduleError } = await serviceClient
+        .from('offers')
+        .update({ status: 'scheduled', duplicate_of: null })
+        .in('id', parsed.data)
+        .is('deleted_at', null)
+        .gt('expires_at', now)
+        .gt('starts_at', now)
+        .select('*');
+
+    if (scheduleError) {
+        console.error('[offers/bulkPublishOffers] Bulk schedule failed:', scheduleError);
+        return { success: false, error: 'Datenbankfehler beim Veröffentlichen der Angebote.' };
+    }
+
+    // Update all other offers to 'live' status
+    const { data: published, error: updateError } = await serviceClient
+        .from('offers')
+        .update({ status: 'live', duplicate_of: null })
+        .in('id', parsed.data)
+        .is('deleted_at', null)
+        .gt('expires_at', now)
+        .or(`starts_at.is.null,starts_at.lte.${now}`)
+        .select('*');
 
     if (updateError) {
         console.error('[offers/bulkPublishOffers] Bulk publish failed:', updateError);
         return { success: false, error: 'Datenbankfehler beim Veröffentlichen der Angebote.' };
     }
 
+    await recordAudit(auth.userId, [...scheduled, ...published].map(offer => ({
+        action: 'publish' as const,
+        entityType: 'offer' as const,
+        entityId: offer.id,
+        entityLabel: offer.product_name,
+        before: existing.find(previous => previous.id === offer.id) || null,
+        after: offer
+    })));
+
     return { success: true };
 }
+
+/**
+ * Recognizes the fields of an offer in a pasted text with the same AI extraction as the WhatsApp bot.
+ * Returns the first recognized offer to prefill the form; nothing is saved.
+ *
+ * Security: session → is_admin() → Zod validation → AI extraction
+ */
+export async function extractOfferFields(rawText: unknown): Promise<ExtractOfferResult> {
+    const auth = await verifyAdmin();
+    if ('error' in auth) {
+        return { success: false, error: auth.error };
+    }
+
+    const parsed = ExtractionTextSchema.safeParse(rawText);
+    if (!parsed.success) {
+        return { success: false, error: parsed.error.issues[0].message };
+    }
+
+    try {
+        const result = await extractOffers({ text: parsed.data });
+
+        if (!result.ok) {
+            console.error('[offers/extractOfferFields] Extraction failed:', result.code, result.error);
+            return { success: false, error: EXTRACTION_ERROR_MESSAGES[result.code] };
+        }
+
+        const [offer] = result.offers;
+        const expiresAt = new Date(Date.now() + offer.validity_days * 24 * 60 * 60 * 1000);
+
+        return {
+            success: true,
+            offer: {
+                product_name: offer.product_name,
+                price: offer.price.toFixed(2),
+                regular_price: offer.regular_price?.toFixed(2) || '',
+                unit: offer.unit || '',
+                description: offer.description || '',
+                ai_category: offer.ai_category || '',
+                expires_at: expiresAt.toISOString().split('T')[0],
+            },
+            additionalOffers: result.offers.length - 1,
+        };
+    } catch (err) {
+        console.error('[offers/extractOfferFields] Unexpected error:', err);
+        return { success: false, error: EXTRACTION_ERROR_MESSAGES.PROVIDER_ERROR };
+    }
+}
@@ -3,6 +3,7 @@
 import { z } from 'zod';
 import { createClient } from '@/utils/supabase/server';
 import { createServiceClient } from '@/utils/supabase/service';
+import { recordAudit } from '@/lib/auditLog';
 
 // ============================================================================
 // Zod Schemas
@@ -60,6 +61,16 @@ export async function promoteToAdmin(targetUserId: string): Promise<ActionResult
     // --- Step 4: Perform the privileged update ---
     const serviceClient = createServiceClient();
 
+    const { data: targetProfile, error: fetchError } = await serviceClient
+        .from('profiles')
+        .select('role')
+        .eq('id', targetUserId)
+        .single();
+
+    if (fetchError || !targetProfile) {
+        return { success: false, error: 'Benutzer nicht gefunden.' };
+    }
+
     const { data, error: updateError } = await serviceClient
         .from('profiles')
         .update({ role: 'admin' })
@@ -72,6 +83,15 @@ export async function promoteToAdmin(targetUserId: string): Promise<ActionResult
         return { success: false, error: 'Datenbankfehler beim Hochstufen.' };
     }
 
+    await recordAudit(user.id, [{
+        action: 'promote',
+        entityType: 'user',
+        entityId: targetUserId,
+        entityLabel: data.email,
+        before: { role: targetProfile.role },
+        after: { role: data.role }
+    }]);
+
     return { success: true, data };
 }
 
@@ -139,6 +159,15 @@ export async function demoteAdmin(targetUserId: string): Promise<ActionResult> {
         return { success: false, error: 'Datenbankfehler beim Herabstufen.' };
     }
 
+    await recordAudit(user.id, [{
+        action: 'demote',
+        entityType: 'user',
+        entityId: targetUserId,
+        entityLabel: data.email,
+        before: { role: targetProfile.role },
+        after: { role: data.role }
+    }]);
+
     return { success: true, data };
 }
 
@@ -182,7 +211,7 @@ export async function deleteUser(targetUserId: string): Promise<ActionResult> {
 
     const { data: targetProfile, error: fetchError } = await serviceClient
         .from('profiles')
-        .select('role')
+        .select('email, role')
         .eq('id', targetUserId)
         .single();
 
@@ -204,6 +233,15 @@ export async function deleteUser(targetUserId: string): Promise<ActionResult> {
         return { success: false, error: 'Datenbankfehler beim Löschen.' };
     }
 
+    await recordAudit(user.id, [{
+        action: 'delete',
+        entityType: 'user',
+        entityId: targetUserId,
+        entityLabel: targetProfile.email,
+        before: targetProfile,
+        after: null
+    }]);
+
     // Remove the Auth account to prevent ghost users
     const { error: authDeleteError } = await serviceClient.auth.admin.deleteUser(targetUserId);
 
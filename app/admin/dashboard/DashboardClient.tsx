@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { createClient } from '@/utils/supabase/client';
 import { useRouter } from 'next/navigation';
-import { MarketManager, TeamManagement, OfferReview, OfferManagement, Toast } from './components';
+import { MarketManager, TeamManagement, OfferReview, OfferManagement, OfferTemplates, OfferArchive, FailedMessages, ConversationLog, AuditLog, Trash, Toast } from './components';
 import { Market, TeamMember, UserRole, ToastState } from './components/types';
 
 interface DashboardClientProps {
@@ -14,10 +14,11 @@ interface DashboardClientProps {
     userId: string;
     initialTeamMembers: TeamMember[];
     initialUsers: TeamMember[];
+    trashRetentionDays: number;
 }
 
 // Tab type for navigation
-type DashboardTab = 'markets' | 'offers' | 'offer-management' | 'team';
+type DashboardTab = 'markets' | 'offers' | 'offer-management' | 'offer-templates' | 'offer-archive' | 'conversations' | 'failed-messages' | 'audit-log' | 'trash' | 'team';
 
 export default function DashboardClient({
     initialMarkets,
@@ -26,7 +27,8 @@ export default function DashboardClient({
     userRole,
     userId,
     initialTeamMembers,
-    initialUsers
+    initialUsers,
+    trashRetentionDays
 }: DashboardClientProps) {
     // Tab navigation state
     const [activeTab, setActiveTab] = useState<DashboardTab>('markets');
@@ -178,7 +180,7 @@ export default function DashboardClient({
             {/* Tab Navigation - Show for admin and superadmin */}
             {(userRole === 'admin' || userRole === 'superadmin') && (
                 <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
-                    <div className="flex gap-2">
+                    <div className="flex flex-wrap gap-2">
                         <button onClick={() => setActiveTab('markets')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'markets' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'markets' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'markets' ? 'none' : '1px solid var(--glass-border)' }}>
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
@@ -197,6 +199,42 @@ export default function DashboardClient({
                             </svg>
                             Angebote Verwaltung
                         </button>
+                        <button onClick={() => setActiveTab('offer-templates')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'offer-templates' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'offer-templates' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'offer-templates' ? 'none' : '1px solid var(--glass-border)' }}>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                            Wiederkehrend
+                        </button>
+                        <button onClick={() => setActiveTab('offer-archive')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'offer-archive' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'offer-archive' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'offer-archive' ? 'none' : '1px solid var(--glass-border)' }}>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                            </svg>
+                            Archiv
+                        </button>
+                        <button onClick={() => setActiveTab('conversations')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'conversations' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'conversations' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'conversations' ? 'none' : '1px solid var(--glass-border)' }}>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                            </svg>
+                            WhatsApp Verlauf
+                        </button>
+                        <button onClick={() => setActiveTab('failed-messages')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'failed-messages' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'failed-messages' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'failed-messages' ? 'none' : '1px solid var(--glass-border)' }}>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                            </svg>
+                            Fehlgeschlagene Nachrichten
+                        </button>
+                        <button onClick={() => setActiveTab('audit-log')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'audit-log' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'audit-log' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'audit-log' ? 'none' : '1px solid var(--glass-border)' }}>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            Änderungsprotokoll
+                        </button>
+                        <button onClick={() => setActiveTab('trash')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'trash' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'trash' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'trash' ? 'none' : '1px solid var(--glass-border)' }}>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                            Papierkorb
+                        </button>
                         {/* Team Verwaltung - Only visible to superadmin */}
                         {userRole === 'superadmin' && (
                             <button onClick={() => setActiveTab('team')} className="px-5 py-2.5 rounded-xl font-semibold transition-all cursor-pointer flex items-center gap-2" style={{ background: activeTab === 'team' ? 'var(--gradient-warm)' : 'var(--glass-bg)', color: activeTab === 'team' ? 'white' : 'var(--charcoal)', fontFamily: 'var(--font-outfit)', border: activeTab === 'team' ? 'none' : '1px solid var(--glass-border)' }}>
@@ -234,6 +272,45 @@ export default function DashboardClient({
                     />
                 )}
 
+                {/* Offer Templates Tab Content - Admin and Superadmin */}
+                {activeTab === 'offer-templates' && (userRole === 'admin' || userRole === 'superadmin') && (
+                    <OfferTemplates
+                        initialMarkets={initialMarkets}
+                        showToast={showToast}
+                    />
+                )}
+
+                {/* Offer Archive Tab Content - Admin and Superadmin */}
+                {activeTab === 'offer-archive' && (userRole === 'admin' || userRole === 'superadmin') && (
+                    <OfferArchive
+                        initialMarkets={initialMarkets}
+                        showToast={showToast}
+                    />
+                )}
+
+                {/* Conversation Log Tab Content - Admin and Superadmin */}
+                {activeTab === 'conversations' && (userRole === 'admin' || userRole === 'superadmin') && (
+                    <ConversationLog showToast={showToast} />
+                )}
+
+                {/* Failed Messages Tab Content - Admin and Superadmin */}
+                {activeTab === 'failed-messages' && (userRole === 'admin' || userRole === 'superadmin') && (
+                    <FailedMessages showToast={showToast} />
+                )}
+
+                {/* Audit Log Tab Content - Admin and Superadmin */}
+                {activeTab === 'audit-log' && (userRole === 'admin' || userRole === 'superadmin') && (
+                    <AuditLog showToast={showToast} />
+                )}
+
+                {/* Trash Tab Content - Admin and Superadmin */}
+                {activeTab === 'trash' && (userRole === 'admin' || userRole === 'superadmin') && (
+                    <Trash
+                        retentionDays={trashRetentionDays}
+                        showToast={showToast}
+                    />
+                )}
+
                 {/* Team Verwaltung Tab Content - Superadmin Only */}
                 {activeTab === 'team' && userRole === 'superadmin' && (
                     <TeamManagement
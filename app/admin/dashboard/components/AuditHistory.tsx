@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createClient } from '@/utils/supabase/client';
+import type { AuditEntityType } from '@/lib/auditLog';
+
+export interface AuditLogRow {
+    id: string;
+    actor_id: string;
+    actor_email: string | null;
+    action: string;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    entity_label: string | null;
+    changes: Record<string, { before: unknown; after: unknown }>;
+    created_at: string;
+}
+
+export const AUDIT_LOG_COLUMNS = 'id, actor_id, actor_email, action, entity_type, entity_id, entity_label, changes, created_at';
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+    create: 'Erstellt',
+    update: 'Bearbeitet',
+    delete: 'Gelöscht',
+    restore: 'Wiederhergestellt',
+    publish: 'Veröffentlicht',
+    unpublish: 'Zurückgezogen',
+    rerun: 'Erneut geschaltet',
+    merge: 'Zusammengeführt',
+    keep_duplicate: 'Duplikat behalten',
+    activate: 'Aktiviert',
+    deactivate: 'Deaktiviert',
+    promote: 'Zum Admin ernannt',
+    demote: 'Admin-Rechte entzogen',
+    replay: 'Erneut verarbeitet',
+    dismiss: 'Verworfen',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+    offer: 'Angebot',
+    offer_template: 'Vorlage',
+    market: 'Markt',
+    image: 'Bild',
+    user: 'Team',
+    failed_message: 'Fehlgeschlagene Nachricht',
+};
+
+// Readable names for the most common fields; others are shown with their column name
+const FIELD_LABELS: Record<string, string> = {
+    product_name: 'Produkt',
+    price: 'Preis',
+    regular_price: 'Statt-Preis',
+    unit: 'Einheit',
+    description: 'Beschreibung',
+    ai_category: 'Kategorie',
+    image_id: 'Bild',
+    status: 'Status',
+    starts_at: 'Gültig ab',
+    expires_at: 'Gültig bis',
+    market_id: 'Markt',
+    name: 'Name',
+    city: 'Stadt',
+    full_address: 'Adresse',
+    is_active: 'Aktiv',
+    is_premium: 'Premium',
+    whatsapp_members: 'WhatsApp-Nummern',
+    role: 'Rolle',
+    weekdays: 'Wochentage',
+    deleted_at: 'Im Papierkorb seit',
+    attempt_count: 'Versuche',
+    error: 'Fehler',
+    offer_ids: 'Erstellte Angebote',
+};
+
+// Derived or technical columns that would only repeat another change
+const HIDDEN_FIELDS = new Set(['price_value', 'quantity', 'base_unit', 'base_price', 'whatsapp_numbers']);
+
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') {
+        return '—';
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'Ja' : 'Nein';
+    }
+    if (typeof value === 'string') {
+        // Timestamps are shown as local date and time
+        return /^\d{4}-\d{2}-\d{2}T/.test(value)
+            ? new Date(value).toLocaleString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+            : value;
+    }
+    return JSON.stringify(value);
+};
+
+export const formatAuditTime = (value: string) => new Date(value).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+});
+
+/**
+ * The changed fields of an audit entry as "Feld: vorher → nachher"
+ * Created entities only show the new values, entities deleted for good only the old ones.
+ */
+export function AuditChanges({ entry }: { entry: AuditLogRow }) {
+    const fields = Object.entries(entry.changes).filter(([field]) => !HIDDEN_FIELDS.has(field));
+    // Moving to the trash only sets deleted_at, deleting for good removes every value
+    const deletedForGood = entry.action === 'delete' && fields.every(([, { after }]) => after === null);
+
+    if (fields.length === 0) {
+        return null;
+    }
+
+    return (
+        <table className="w-full text-xs" style={{ fontFamily: 'var(--font-outfit)' }}>
+            <tbody>
+                {fields.map(([field, { before, after }]) => (
+                    <tr key={field} className="align-top">
+                        <td className="py-1 pr-3 font-semibold whitespace-nowrap" style={{ color: 'var(--charcoal)' }}>
+                            {FIELD_LABELS[field] || field}
+                        </td>
+                        <td className="py-1 break-all" style={{ color: 'var(--warm-gray)' }}>
+                            {entry.action !== 'create' && (
+                                <span className="line-through">{formatValue(before)}</span>
+                            )}
+                            {entry.action !== 'create' && !deletedForGood && ' → '}
+                            {!deletedForGood && (
+                                <span style={{ color: 'var(--charcoal)' }}>{formatValue(after)}</span>
+                            )}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+interface AuditHistoryProps {
+    entityType: AuditEntityType;
+    entityId: string;
+}
+
+// How many entries the panel of a single entity shows
+const HISTORY_LIMIT = 50;
+
+/**
+ * Collapsible change history of a single offer or market, shown in its editor
+ */
+export default function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+    const [entries, setEntries] = useState<AuditLogRow[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [open, setOpen] = useState(false);
+
+    const supabase = createClient();
+
+    const fetchEntries = useCallback(async () => {
+        setLoading(true);
+        try {
+            const { data, error } = await supabase
+                .from('audit_log')
+                .select(AUDIT_LOG_COLUMNS)
+                .eq('entity_type', entityType)
+                .eq('entity_id', entityId)
+                .order('created_at', { ascending: false })
+                .limit(HISTORY_LIMIT);
+
+            if (error) {
+                console.error('Error fetching audit history:', error);
+            } else {
+                setEntries((data as AuditLogRow[]) || []);
+            }
+        } catch (err) {
+            console.error('Unexpected error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [supabase, entityType, entityId]);
+
+    useEffect(() => {
+        if (open) {
+            fetchEntries();
+        }
+    }, [open, fetchEntries]);
+
+    return (
+        <div className="rounded-xl border" style={{ borderColor: 'var(--sand)', fontFamily: 'var(--font-outfit)' }}>
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className="w-full px-4 py-3 flex items-center justify-between text-sm font-bold cursor-pointer"
+                style={{ color: 'var(--charcoal)' }}
+            >
+                <span>Änderungsverlauf</span>
+                <svg className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+
+            {open && (
+                <div className="px-4 pb-4 space-y-3">
+                    {loading ? (
+                        <p className="text-sm" style={{ color: 'var(--warm-gray)' }}>Wird geladen...</p>
+                    ) : entries.length === 0 ? (
+                        <p className="text-sm" style={{ color: 'var(--warm-gray)' }}>Noch keine Änderungen aufgezeichnet.</p>
+                    ) : (
+                        entries.map(entry => (
+                            <div key={entry.id} className="pt-3 border-t space-y-1" style={{ borderColor: 'var(--sand)' }}>
+                                <p className="text-xs" style={{ color: 'var(--warm-gray)' }}>
+                                    <span className="font-bold" style={{ color: 'var(--charcoal)' }}>{AUDIT_ACTION_LABELS[entry.action] || entry.action}</span>
+                                    {' · '}{formatAuditTime(entry.created_at)}
+                                    {' · '}{entry.actor_email || entry.actor_id}
+                                </p>
+                                <AuditChanges entry={entry} />
+                            </div>
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createClient } from '@/utils/supabase/client';
+import type { AuditEntityType } from '@/lib/auditLog';
+import { AuditChanges, AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, AUDIT_LOG_COLUMNS, type AuditLogRow } from './AuditHistory';
+
+interface AuditLogProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// How many entries are loaded per filter
+const ENTRY_LIMIT = 200;
+
+const ACTION_COLORS: Record<string, { color: string; background: string }> = {
+    create: { color: 'var(--cardamom)', background: 'rgba(107, 142, 122, 0.15)' },
+    restore: { color: 'var(--cardamom)', background: 'rgba(107, 142, 122, 0.15)' },
+    publish: { color: 'var(--cardamom)', background: 'rgba(107, 142, 122, 0.15)' },
+    activate: { color: 'var(--cardamom)', background: 'rgba(107, 142, 122, 0.15)' },
+    delete: { color: 'var(--terracotta)', background: 'rgba(216, 99, 78, 0.1)' },
+    unpublish: { color: 'var(--terracotta)', background: 'rgba(216, 99, 78, 0.1)' },
+    deactivate: { color: 'var(--terracotta)', background: 'rgba(216, 99, 78, 0.1)' },
+    demote: { color: 'var(--terracotta)', background: 'rgba(216, 99, 78, 0.1)' },
+};
+
+const DEFAULT_ACTION_COLOR = { color: 'var(--saffron)', background: 'rgba(230, 168, 69, 0.15)' };
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString('de-DE', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+});
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString('de-DE', {
+    weekday: 'long',
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric'
+});
+
+/**
+ * Who changed what in the dashboard, filterable by entity, action, admin and name
+ */
+export default function AuditLog({ showToast }: AuditLogProps) {
+    const [entityFilter, setEntityFilter] = useState<AuditEntityType | ''>('');
+    const [actionFilter, setActionFilter] = useState('');
+    const [actorFilter, setActorFilter] = useState('');
+    const [searchQuery, setSearchQuery] = useState('');
+    const [entries, setEntries] = useState<AuditLogRow[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const supabase = createClient();
+
+    const fetchEntries = useCallback(async () => {
+        setLoading(true);
+        try {
+            let query = supabase
+                .from('audit_log')
+                .select(AUDIT_LOG_COLUMNS)
+                .order('created_at', { ascending: false })
+                .limit(ENTRY_LIMIT);
+
+            if (entityFilter) {
+                query = query.eq('entity_type', entityFilter);
+            }
+            if (actionFilter) {
+                query = query.eq('action', actionFilter);
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                console.error('Error fetching audit log:', error);
+                showToast('Fehler beim Laden des Protokolls: ' + error.message, 'error');
+            } else {
+                setEntries((data as AuditLogRow[]) || []);
+            }
+        } catch (err) {
+            console.error('Unexpected error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [supabase, entityFilter, actionFilter, showToast]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const filteredEntries = entries.filter(entry => {
+        const matchesActor = !actorFilter || (entry.actor_email || '').toLowerCase().includes(actorFilter.toLowerCase());
+        const matchesSearch = !searchQuery || (entry.entity_label || '').toLowerCase().includes(searchQuery.toLowerCase());
+        return matchesActor && matchesSearch;
+    });
+
+    // Group the entries by day (entries are already sorted newest first)
+    const entriesByDay = filteredEntries.reduce((acc, entry) => {
+        const day = formatDay(entry.created_at);
+        if (!acc[day]) {
+            acc[day] = [];
+        }
+        acc[day].push(entry);
+        return acc;
+    }, {} as Record<string, AuditLogRow[]>);
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="bg-white rounded-2xl shadow-lg border-2 border-[var(--sand)] p-8 mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                            Änderungsprotokoll
+                        </h1>
+                        <p className="text-base" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                            Wer hat wann welche Angebote, Märkte, Bilder und Teammitglieder geändert
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => fetchEntries()}
+                        className="px-6 py-3.5 rounded-xl font-bold transition-all hover:scale-105 hover:shadow-xl cursor-pointer flex items-center gap-3 shadow-lg whitespace-nowrap"
+                        style={{ background: 'linear-gradient(135deg, var(--sand) 0%, rgba(217, 201, 166, 0.7) 100%)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                        Aktualisieren
+                    </button>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-col sm:flex-row flex-wrap gap-4">
+                <div className="relative w-full sm:w-52">
+                    <select
+                        value={entityFilter}
+                        onChange={(e) => setEntityFilter(e.target.value as AuditEntityType | '')}
+                        className="w-full px-4 py-3 rounded-xl border-none bg-white shadow-sm appearance-none cursor-pointer focus:ring-2 focus:ring-[var(--saffron)] transition-all"
+                        style={{ fontFamily: 'var(--font-outfit)' }}
+                    >
+                        <option value="">Alle Bereiche</option>
+                        {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    <svg className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                </div>
+                <div className="relative w-full sm:w-52">
+                    <select
+                        value={actionFilter}
+                        onChange={(e) => setActionFilter(e.target.value)}
+                        className="w-full px-4 py-3 rounded-xl border-none bg-white shadow-sm appearance-none cursor-pointer focus:ring-2 focus:ring-[var(--saffron)] transition-all"
+                        style={{ fontFamily: 'var(--font-outfit)' }}
+                    >
+                        <option value="">Alle Aktionen</option>
+                        {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    <svg className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                </div>
+                <input
+                    type="text"
+                    value={actorFilter}
+                    onChange={(e) => setActorFilter(e.target.value)}
+                    placeholder="Admin (E-Mail) filtern"
+                    className="w-full sm:w-64 px-4 py-3 rounded-xl border-none bg-white shadow-sm focus:ring-2 focus:ring-[var(--saffron)] transition-all"
+                    style={{ fontFamily: 'var(--font-outfit)' }}
+                />
+                <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Produkt, Markt oder E-Mail suchen"
+                    className="w-full sm:w-64 px-4 py-3 rounded-xl border-none bg-white shadow-sm focus:ring-2 focus:ring-[var(--saffron)] transition-all"
+                    style={{ fontFamily: 'var(--font-outfit)' }}
+                />
+            </div>
+
+            {/* Entries */}
+            {loading ? (
+                <div className="flex items-center justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-[var(--saffron)] border-t-transparent"></div>
+                </div>
+            ) : filteredEntries.length === 0 ? (
+                <div className="glass-card p-12 text-center">
+                    <h3 className="text-xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                        Keine Einträge vorhanden
+                    </h3>
+                    <p style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                        Für diese Filter wurden keine Änderungen aufgezeichnet.
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-8">
+                    {Object.entries(entriesByDay).map(([day, dayEntries]) => (
+                        <div key={day} className="space-y-3">
+                            <h3 className="text-sm font-bold uppercase" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)', letterSpacing: '0.05em' }}>
+                                {day}
+                            </h3>
+                            <div className="glass-card divide-y divide-[var(--sand)]">
+                                {dayEntries.map((entry) => {
+                                    const style = ACTION_COLORS[entry.action] || DEFAULT_ACTION_COLOR;
+                                    const isExpanded = expandedId === entry.id;
+
+                                    return (
+                                        <div key={entry.id} className="p-4" style={{ fontFamily: 'var(--font-outfit)' }}>
+                                            <button
+                                                onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                                                className="w-full flex flex-wrap sm:flex-nowrap items-start gap-3 text-left cursor-pointer"
+                                            >
+                                                <span className="text-xs pt-1 whitespace-nowrap tabular-nums" style={{ color: 'var(--warm-gray)' }}>
+                                                    {formatTime(entry.created_at)}
+                                                </span>
+                                                <span className="px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap" style={{ color: style.color, background: style.background }}>
+                                                    {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                                                </span>
+                                                <span className="text-xs pt-1 whitespace-nowrap" style={{ color: 'var(--warm-gray)' }}>
+                                                    {AUDIT_ENTITY_LABELS[entry.entity_type]}
+                                                </span>
+                                                <span className="text-sm break-words min-w-0 flex-1" style={{ color: 'var(--charcoal)' }}>
+                                                    {entry.entity_label || '—'}
+                                                </span>
+                                                <span className="text-xs pt-1 whitespace-nowrap" style={{ color: 'var(--warm-gray)' }}>
+                                                    {entry.actor_email || entry.actor_id}
+                                                </span>
+                                            </button>
+
+                                            {isExpanded && (
+                                                <div className="mt-3 space-y-2">
+                                                    <p className="text-xs font-mono break-all" style={{ color: 'var(--warm-gray)' }}>
+                                                        ID: {entry.entity_id}
+                                                    </p>
+                                                    <div className="p-3 rounded-xl bg-white border border-[var(--sand)] max-h-96 overflow-auto">
+                                                        <AuditChanges entry={entry} />
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createClient } from '@/utils/supabase/client';
+
+type ConversationEventType = 'inbound_message' | 'batch_merged' | 'ai_exchange' | 'offers_created' | 'rejected' | 'failed';
+
+interface ConversationEventRow {
+    id: string;
+    market_id: string;
+    sender_number: string;
+    event_type: ConversationEventType;
+    batch_id: string | null;
+    wamid: string | null;
+    summary: string | null;
+    details: Record<string, unknown>;
+    offer_ids: string[];
+    created_at: string;
+}
+
+interface ConversationLogProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// How many events are loaded per market
+const EVENT_LIMIT = 200;
+
+const EVENT_STYLES: Record<ConversationEventType, { label: string; color: string; background: string }> = {
+    inbound_message: { label: 'Nachricht', color: 'var(--charcoal)', background: 'rgba(44, 40, 35, 0.08)' },
+    batch_merged: { label: 'Zusammengefasst', color: 'var(--warm-gray)', background: 'rgba(217, 201, 166, 0.4)' },
+    ai_exchange: { label: 'KI', color: 'var(--saffron)', background: 'rgba(230, 168, 69, 0.15)' },
+    offers_created: { label: 'Entwurf erstellt', color: 'var(--cardamom)', background: 'rgba(107, 142, 122, 0.15)' },
+    rejected: { label: 'Abgelehnt', color: 'var(--terracotta)', background: 'rgba(216, 99, 78, 0.1)' },
+    failed: { label: 'Fehler', color: 'var(--terracotta)', background: 'rgba(216, 99, 78, 0.2)' },
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString('de-DE', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+});
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString('de-DE', {
+    weekday: 'long',
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric'
+});
+
+export default function ConversationLog({ showToast }: ConversationLogProps) {
+    const [markets, setMarkets] = useState<Array<{ id: string; name: string; city: string; zip_code: string | null }>>([]);
+    const [selectedMarketId, setSelectedMarketId] = useState('');
+    const [senderFilter, setSenderFilter] = useState('');
+    const [events, setEvents] = useState<ConversationEventRow[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const supabase = createClient();
+
+    useEffect(() => {
+        const fetchMarkets = async () => {
+            const { data, error } = await supabase
+                .from('markets')
+                .select('id, name, city, zip_code')
+                .is('deleted_at', null)
+                .order('zip_code', { ascending: true, nullsFirst: false });
+
+            if (error) {
+                console.error('Error fetching markets:', error);
+            } else {
+                setMarkets(data || []);
+            }
+        };
+        fetchMarkets();
+    }, [supabase]);
+
+    const fetchEvents = useCallback(async () => {
+        if (!selectedMarketId) {
+            setEvents([]);
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const { data, error } = await supabase
+                .from('conversation_events')
+                .select('id, market_id, sender_number, event_type, batch_id, wamid, summary, details, offer_ids, created_at')
+                .eq('market_id', selectedMarketId)
+                .order('created_at', { ascending: false })
+                .limit(EVENT_LIMIT);
+
+            if (error) {
+                console.error('Error fetching conversation log:', error);
+                showToast('Fehler beim Laden des Verlaufs: ' + error.message, 'error');
+            } else {
+                setEvents((data as ConversationEventRow[]) || []);
+            }
+        } catch (err) {
+            console.error('Unexpected error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [supabase, selectedMarketId, showToast]);
+
+    useEffect(() => {
+        fetchEvents();
+    }, [fetchEvents]);
+
+    const filteredEvents = events.filter(event => !senderFilter || event.sender_number.includes(senderFilter.replace(/\D/g, '')));
+
+    // Group the timeline by day (events are already sorted newest first)
+    const eventsByDay = filteredEvents.reduce((acc, event) => {
+        const day = formatDay(event.created_at);
+        if (!acc[day]) {
+            acc[day] = [];
+        }
+        acc[day].push(event);
+        return acc;
+    }, {} as Record<string, ConversationEventRow[]>);
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="bg-white rounded-2xl shadow-lg border-2 border-[var(--sand)] p-8 mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                            WhatsApp Verlauf
+                        </h1>
+                        <p className="text-base" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                            Alle Nachrichten, KI-Entscheidungen und Ergebnisse pro Markt
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => fetchEvents()}
+                        disabled={!selectedMarketId}
+                        className="px-6 py-3.5 rounded-xl font-bold transition-all hover:scale-105 hover:shadow-xl cursor-pointer flex items-center gap-3 shadow-lg whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                        style={{ background: 'linear-gradient(135deg, var(--sand) 0%, rgba(217, 201, 166, 0.7) 100%)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                        Aktualisieren
+                    </button>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-col sm:flex-row gap-4">
+                <div className="relative w-full sm:w-80">
+                    <select
+                        value={selectedMarketId}
+                        onChange={(e) => setSelectedMarketId(e.target.value)}
+                        className="w-full px-4 py-3 rounded-xl border-none bg-white shadow-sm appearance-none cursor-pointer focus:ring-2 focus:ring-[var(--saffron)] transition-all"
+                        style={{ fontFamily: 'var(--font-outfit)' }}
+                    >
+                        <option value="">Markt auswählen</option>
+                        {markets.map(m => (
+                            <option key={m.id} value={m.id}>
+                                {m.zip_code} {m.city} - {m.name}
+                            </option>
+                        ))}
+                    </select>
+                    <svg className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                </div>
+                <input
+                    type="text"
+                    value={senderFilter}
+                    onChange={(e) => setSenderFilter(e.target.value)}
+                    placeholder="Absendernummer filtern"
+                    className="w-full sm:w-64 px-4 py-3 rounded-xl border-none bg-white shadow-sm focus:ring-2 focus:ring-[var(--saffron)] transition-all"
+                    style={{ fontFamily: 'var(--font-outfit)' }}
+                />
+            </div>
+
+            {/* Timeline */}
+            {loading ? (
+                <div className="flex items-center justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-[var(--saffron)] border-t-transparent"></div>
+                </div>
+            ) : filteredEvents.length === 0 ? (
+                <div className="glass-card p-12 text-center">
+                    <h3 className="text-xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                        {selectedMarketId ? 'Keine Einträge vorhanden' : 'Kein Markt ausgewählt'}
+                    </h3>
+                    <p style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                        {selectedMarketId
+                            ? 'Für diesen Markt wurden noch keine WhatsApp-Nachrichten aufgezeichnet.'
+                            : 'Wählen Sie einen Markt aus, um seinen WhatsApp-Verlauf anzuzeigen.'}
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-8">
+                    {Object.entries(eventsByDay).map(([day, dayEvents]) => (
+                        <div key={day} className="space-y-3">
+                            <h3 className="text-sm font-bold uppercase" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)', letterSpacing: '0.05em' }}>
+                                {day}
+                            </h3>
+                            <div className="glass-card divide-y divide-[var(--sand)]">
+                                {dayEvents.map((event) => {
+                                    const style = EVENT_STYLES[event.event_type];
+                                    const isExpanded = expandedId === event.id;
+
+                                    return (
+                                        <div key={event.id} className="p-4" style={{ fontFamily: 'var(--font-outfit)' }}>
+                                            <button
+                                                onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                                                className="w-full flex flex-wrap sm:flex-nowrap items-start gap-3 text-left cursor-pointer"
+                                            >
+                                                <span className="text-xs pt-1 whitespace-nowrap tabular-nums" style={{ color: 'var(--warm-gray)' }}>
+                                                    {formatTime(event.created_at)}
+                                                </span>
+                                                <span className="px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap" style={{ color: style.color, background: style.background }}>
+                                                    {style.label}
+                                                </span>
+                                                <span className="text-xs pt-1 whitespace-nowrap" style={{ color: 'var(--warm-gray)' }}>
+                                                    +{event.sender_number}
+                                                </span>
+                                                <span className="text-sm break-words min-w-0 flex-1" style={{ color: 'var(--charcoal)' }}>
+                                                    {event.summary || '—'}
+                                                </span>
+                                            </button>
+
+                                            {isExpanded && (
+                                                <div className="mt-3 space-y-2">
+                                                    {event.offer_ids.length > 0 && (
+                                                        <p className="text-xs font-mono break-all" style={{ color: 'var(--cardamom)' }}>
+                                                            Angebote: {event.offer_ids.join(', ')}
+                                                        </p>
+                                                    )}
+                                                    {(event.batch_id || event.wamid) && (
+                                                        <p className="text-xs font-mono break-all" style={{ color: 'var(--warm-gray)' }}>
+                                                            {event.batch_id && <>Batch: {event.batch_id} </>}
+                                                            {event.wamid && <>wamid: {event.wamid}</>}
+                                                        </p>
+                                                    )}
+                                                    <pre className="p-3 rounded-xl bg-white border border-[var(--sand)] text-xs whitespace-pre-wrap break-all max-h-96 overflow-auto" style={{ color: 'var(--charcoal)' }}>
+                                                        {JSON.stringify(event.details, null, 2)}
+                                                    </pre>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createClient } from '@/utils/supabase/client';
+import { replayFailedBatch, dismissFailedBatch } from '@/app/actions/failedMessages';
+
+interface FailedBatchMessage {
+    id: string;
+    message_type: 'text' | 'image' | 'audio' | 'document';
+    text: string | null;
+    image_url: string | null;
+    file_name: string | null;
+    received_at: string;
+}
+
+interface FailedBatchRow {
+    id: string;
+    sender_number: string;
+    market_id: string;
+    messages: FailedBatchMessage[];
+    error: string | null;
+    raw_ai_response: string | null;
+    attempt_count: number;
+    status: 'pending' | 'retrying' | 'exhausted' | 'resolved';
+    next_retry_at: string | null;
+    created_at: string;
+    resolved_at: string | null;
+    markets: {
+        id: string;
+        name: string;
+        city: string;
+    } | null;
+}
+
+interface FailedMessagesProps {
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const STATUS_LABELS: Record<FailedBatchRow['status'], { label: string; color: string; background: string }> = {
+    pending: { label: 'Wartet auf Wiederholung', color: 'var(--saffron)', background: 'rgba(230, 168, 69, 0.15)' },
+    retrying: { label: 'Wird verarbeitet', color: 'var(--cardamom)', background: 'rgba(107, 142, 122, 0.15)' },
+    exhausted: { label: 'Aufgegeben', color: 'var(--terracotta)', background: 'rgba(216, 99, 78, 0.15)' },
+    resolved: { label: 'Erledigt', color: 'var(--warm-gray)', background: 'rgba(44, 40, 35, 0.08)' },
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+});
+
+export default function FailedMessages({ showToast }: FailedMessagesProps) {
+    const [batches, setBatches] = useState<FailedBatchRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showResolved, setShowResolved] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const supabase = createClient();
+
+    const fetchBatches = useCallback(async () => {
+        setLoading(true);
+        try {
+            let query = supabase
+                .from('failed_message_batches')
+                .select('id, sender_number, market_id, messages, error, raw_ai_response, attempt_count, status, next_retry_at, created_at, resolved_at, markets(id, name, city)')
+                .order('created_at', { ascending: false })
+                .limit(100);
+
+            if (!showResolved) {
+                query = query.neq('status', 'resolved');
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                console.error('Error fetching failed messages:', error);
+                showToast('Fehler beim Laden der fehlgeschlagenen Nachrichten: ' + error.message, 'error');
+            } else {
+                setBatches((data as unknown as FailedBatchRow[]) || []);
+            }
+        } catch (err) {
+            console.error('Unexpected error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [supabase, showResolved, showToast]);
+
+    useEffect(() => {
+        fetchBatches();
+    }, [fetchBatches]);
+
+    const handleReplay = async (id: string) => {
+        setBusyId(id);
+        try {
+            const result = await replayFailedBatch(id);
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim erneuten Verarbeiten', 'error');
+            } else {
+                showToast(`Nachricht verarbeitet – ${result.offerIds?.length || 0} Entwurf/Entwürfe erstellt!`, 'success');
+            }
+            fetchBatches();
+        } catch (err) {
+            console.error(err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDismiss = async (id: string) => {
+        setBusyId(id);
+        try {
+            const result = await dismissFailedBatch(id);
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim Verwerfen', 'error');
+            } else {
+                showToast('Nachricht verworfen.', 'success');
+                fetchBatches();
+            }
+        } catch (err) {
+            console.error(err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-20">
+                <div className="animate-spin rounded-full h-12 w-12 border-4 border-[var(--saffron)] border-t-transparent"></div>
+            </div>
+        );
+    }
+
+    const openCount = batches.filter(batch => batch.status !== 'resolved').length;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="bg-white rounded-2xl shadow-lg border-2 border-[var(--sand)] p-8 mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                            Fehlgeschlagene Nachrichten
+                        </h1>
+                        <p className="text-base" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                            {openCount} {openCount === 1 ? 'Nachricht konnte' : 'Nachrichten konnten'} nicht verarbeitet werden
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => fetchBatches()}
+                        className="px-6 py-3.5 rounded-xl font-bold transition-all hover:scale-105 hover:shadow-xl cursor-pointer flex items-center gap-3 shadow-lg whitespace-nowrap"
+                        style={{ background: 'linear-gradient(135deg, var(--sand) 0%, rgba(217, 201, 166, 0.7) 100%)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                        Aktualisieren
+                    </button>
+                </div>
+            </div>
+
+            {/* Filter */}
+            <label className="flex items-center gap-3 cursor-pointer w-fit" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>
+                <input
+                    type="checkbox"
+                    checked={showResolved}
+                    onChange={(e) => setShowResolved(e.target.checked)}
+                    className="w-4 h-4 accent-[var(--saffron)] cursor-pointer"
+                />
+                Erledigte anzeigen
+            </label>
+
+            {/* Failed Batches List */}
+            {batches.length === 0 ? (
+                <div className="glass-card p-12 text-center">
+                    <div className="w-16 h-16 mx-auto mb-4 rounded-2xl flex items-center justify-center" style={{ background: 'rgba(107, 142, 122, 0.1)' }}>
+                        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--cardamom)' }}>
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                    </div>
+                    <h3 className="text-xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                        Keine fehlgeschlagenen Nachrichten
+                    </h3>
+                    <p style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                        Alle WhatsApp-Nachrichten wurden erfolgreich verarbeitet.
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {batches.map((batch) => {
+                        const status = STATUS_LABELS[batch.status];
+                        const isExpanded = expandedId === batch.id;
+                        const isBusy = busyId === batch.id;
+                        const canReplay = batch.status === 'pending' || batch.status === 'exhausted';
+
+                        return (
+                            <div key={batch.id} className="glass-card p-6" style={{ border: '2px solid rgba(230, 168, 69, 0.3)' }}>
+                                <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-4">
+                                    <div className="space-y-2 min-w-0" style={{ fontFamily: 'var(--font-outfit)' }}>
+                                        <div className="flex flex-wrap items-center gap-3">
+                                            <h3 className="text-lg font-bold" style={{ color: 'var(--charcoal)' }}>
+                                                {batch.markets?.name || 'Unbekannter Markt'}
+                                                {batch.markets?.city && <span className="font-normal" style={{ color: 'var(--warm-gray)' }}> · {batch.markets.city}</span>}
+                                            </h3>
+                                            <span className="px-3 py-1 rounded-full text-xs font-bold" style={{ color: status.color, background: status.background }}>
+                                                {status.label}
+                                            </span>
+                                        </div>
+                                        <p className="text-sm" style={{ color: 'var(--warm-gray)' }}>
+                                            +{batch.sender_number} · {batch.messages.length} {batch.messages.length === 1 ? 'Nachricht' : 'Nachrichten'} · Eingegangen {formatDateTime(batch.created_at)}
+                                        </p>
+                                        <p className="text-sm" style={{ color: 'var(--warm-gray)' }}>
+                                            {batch.attempt_count} {batch.attempt_count === 1 ? 'Versuch' : 'Versuche'}
+                                            {batch.status === 'pending' && batch.next_retry_at && <> · Nächster Versuch {formatDateTime(batch.next_retry_at)}</>}
+                                            {batch.status === 'resolved' && batch.resolved_at && <> · Erledigt {formatDateTime(batch.resolved_at)}</>}
+                                        </p>
+                                        {batch.error && (
+                                            <p className="text-sm font-mono break-all" style={{ color: 'var(--terracotta)' }}>
+                                                {batch.error}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-2 shrink-0">
+                                        <button
+                                            onClick={() => setExpandedId(isExpanded ? null : batch.id)}
+                                            className="px-4 py-2 rounded-xl text-sm font-semibold transition-all hover:bg-black/5 cursor-pointer"
+                                            style={{ color: 'var(--charcoal)', border: '2px solid var(--sand)', fontFamily: 'var(--font-outfit)' }}
+                                        >
+                                            {isExpanded ? 'Details ausblenden' : 'Details'}
+                                        </button>
+                                        {canReplay && (
+                                            <button
+                                                onClick={() => handleReplay(batch.id)}
+                                                disabled={isBusy}
+                                                className="px-4 py-2 rounded-xl text-sm font-bold transition-all hover:scale-105 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                                style={{ background: 'var(--gradient-warm)', color: 'white', fontFamily: 'var(--font-outfit)' }}
+                                            >
+                                                {isBusy ? 'Wird verarbeitet...' : 'Erneut verarbeiten'}
+                                            </button>
+                                        )}
+                                        {batch.status !== 'resolved' && (
+                                            <button
+                                                onClick={() => handleDismiss(batch.id)}
+                                                disabled={isBusy}
+                                                className="px-4 py-2 rounded-xl text-sm font-semibold transition-all hover:opacity-80 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                                style={{ background: 'rgba(216, 99, 78, 0.1)', color: 'var(--terracotta)', fontFamily: 'var(--font-outfit)' }}
+                                            >
+                                                Verwerfen
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {/* Details: original messages and raw AI response */}
+                                {isExpanded && (
+                                    <div className="mt-6 space-y-4" style={{ fontFamily: 'var(--font-outfit)' }}>
+                                        <div className="space-y-2">
+                                            <h4 className="text-sm font-bold" style={{ color: 'var(--charcoal)' }}>Nachrichten</h4>
+                                            {batch.messages.map((message) => (
+                                                <div key={message.id} className="flex gap-3 p-3 rounded-xl bg-white border border-[var(--sand)]">
+                                                    <span className="text-xs whitespace-nowrap" style={{ color: 'var(--warm-gray)' }}>
+                                                        {formatDateTime(message.received_at)}
+                                                    </span>
+                                                    <span className="text-sm break-words min-w-0" style={{ color: 'var(--charcoal)' }}>
+                                                        {message.message_type === 'image' && <span className="font-semibold">[Bild] </span>}
+                                                        {message.message_type === 'audio' && <span className="font-semibold">[Sprachnachricht] </span>}
+                                                        {message.message_type === 'document' && <span className="font-semibold">[PDF: {message.file_name || 'Dokument'}] </span>}
+                                                        {message.text || (message.message_type === 'text' ? '—' : '')}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <div className="space-y-2">
+                                            <h4 className="text-sm font-bold" style={{ color: 'var(--charcoal)' }}>KI-Antwort</h4>
+                                            <pre className="p-3 rounded-xl bg-white border border-[var(--sand)] text-xs whitespace-pre-wrap break-all max-h-64 overflow-auto" style={{ color: 'var(--charcoal)' }}>
+                                                {batch.raw_ai_response || 'Keine Antwort gespeichert'}
+                                            </pre>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
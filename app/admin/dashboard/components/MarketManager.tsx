@@ -4,7 +4,8 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { createClient } from '@/utils/supabase/client';
 import { createMarket, updateMarket, updateMarketStatus, deleteMarket, seedSampleMarkets } from '@/app/actions/markets';
 import { getSignedUploadUrl } from '@/app/actions/storage';
-import { Market, MarketFormData } from './types';
+import AuditHistory from './AuditHistory';
+import { Market, MarketFormData, MarketMemberRole } from './types';
 
 interface MarketManagerProps {
     initialMarkets: Market[];
@@ -43,13 +44,17 @@ export default function MarketManager({
         latitude: '',
         longitude: '',
         customer_phone: '',
-        whatsapp_numbers: [''],
+        whatsapp_members: [{ phone_number: '', role: 'owner' }],
         header_url: '',
         logo_url: '',
         about_text: '',
         features: [''],
         opening_hours: [{ day: '', time: '' }],
         is_premium: false,
+        auto_publish_enabled: false,
+        auto_publish_min_confidence: '0.90',
+        auto_publish_min_price: '0.10',
+        auto_publish_max_price: '100.00',
     });
 
     // File upload state
@@ -91,7 +96,8 @@ export default function MarketManager({
         try {
             let dataQuery = supabase
                 .from('markets')
-                .select('*', { count: 'exact' });
+                .select('*, market_members(phone_number, role)', { count: 'exact' })
+                .is('deleted_at', null);
 
             if (query.trim()) {
                 dataQuery = dataQuery.or(`name.ilike.%${query}%,city.ilike.%${query}%`);
@@ -158,21 +164,28 @@ export default function MarketManager({
     const handleAddWhatsApp = () => {
         setFormData(prev => ({
             ...prev,
-            whatsapp_numbers: [...prev.whatsapp_numbers, '']
+            whatsapp_members: [...prev.whatsapp_members, { phone_number: '', role: 'employee' }]
         }));
     };
 
     const handleRemoveWhatsApp = (index: number) => {
         setFormData(prev => ({
             ...prev,
-            whatsapp_numbers: prev.whatsapp_numbers.filter((_, i) => i !== index)
+            whatsapp_members: prev.whatsapp_members.filter((_, i) => i !== index)
         }));
     };
 
     const handleWhatsAppChange = (index: number, value: string) => {
         setFormData(prev => ({
             ...prev,
-            whatsapp_numbers: prev.whatsapp_numbers.map((num, i) => i === index ? value : num)
+            whatsapp_members: prev.whatsapp_members.map((member, i) => i === index ? { ...member, phone_number: value } : member)
+        }));
+    };
+
+    const handleWhatsAppRoleChange = (index: number, role: MarketMemberRole) => {
+        setFormData(prev => ({
+            ...prev,
+            whatsapp_members: prev.whatsapp_members.map((member, i) => i === index ? { ...member, role } : member)
         }));
     };
 
@@ -224,12 +237,15 @@ export default function MarketManager({
         e.preventDefault();
         setLoading(true);
 
-        const filteredNumbers = formData.whatsapp_numbers.filter(num => num.trim() !== '');
+        const filteredMembers = formData.whatsapp_members.filter(member => member.phone_number.trim() !== '');
         const filteredFeatures = formData.features.filter(feat => feat.trim() !== '');
         const filteredOpeningHours = formData.opening_hours.filter(hour => hour.day.trim() !== '' && hour.time.trim() !== '');
 
-        // NORMALIZE WHATSAPP NUMBERS: Remove '+' prefix for consistent webhook matching
-        const normalizedNumbers = filteredNumbers.map(num => num.replace(/^\+/, '').trim());
+        // NORMALIZE WHATSAPP NUMBERS: Remove '+' prefix and spaces for consistent webhook matching
+        const normalizedMembers = filteredMembers.map(member => ({
+            ...member,
+            phone_number: member.phone_number.replace(/^\+/, '').replace(/\s/g, '')
+        }));
 
         let finalLogoUrl = formData.logo_url || null;
         let finalHeaderUrl = formData.header_url || null;
@@ -309,13 +325,17 @@ export default function MarketManager({
             latitude: formData.latitude ? parseFloat(formData.latitude) : null,
             longitude: formData.longitude ? parseFloat(formData.longitude) : null,
             customer_phone: formData.customer_phone || null,
-            whatsapp_numbers: normalizedNumbers,
+            whatsapp_members: normalizedMembers,
             header_url: finalHeaderUrl,
             logo_url: finalLogoUrl,
             about_text: formData.about_text || null,
             features: filteredFeatures.length > 0 ? filteredFeatures : null,
             opening_hours: filteredOpeningHours.length > 0 ? filteredOpeningHours : null,
             is_premium: formData.is_premium,
+            auto_publish_enabled: formData.auto_publish_enabled,
+            auto_publish_min_confidence: parseFloat(formData.auto_publish_min_confidence),
+            auto_publish_min_price: parseFloat(formData.auto_publish_min_price),
+            auto_publish_max_price: parseFloat(formData.auto_publish_max_price),
         };
 
         if (editingMarket) {
@@ -353,13 +373,17 @@ export default function MarketManager({
             latitude: '',
             longitude: '',
             customer_phone: '',
-            whatsapp_numbers: [''],
+            whatsapp_members: [{ phone_number: '', role: 'owner' }],
             header_url: '',
             logo_url: '',
             about_text: '',
             features: [''],
             opening_hours: [{ day: '', time: '' }],
             is_premium: false,
+            auto_publish_enabled: false,
+            auto_publish_min_confidence: '0.90',
+            auto_publish_min_price: '0.10',
+            auto_publish_max_price: '100.00',
         });
         setLogoFile(null);
         setHeaderFile(null);
@@ -378,13 +402,19 @@ export default function MarketManager({
             latitude: market.latitude?.toString() || '',
             longitude: market.longitude?.toString() || '',
             customer_phone: market.customer_phone || '',
-            whatsapp_numbers: market.whatsapp_numbers?.length > 0 ? market.whatsapp_numbers : [''],
+            whatsapp_members: market.market_members?.length
+                ? market.market_members
+                : [{ phone_number: '', role: 'owner' }],
             header_url: market.header_url || '',
             logo_url: market.logo_url || '',
             about_text: market.about_text || '',
             features: market.features?.length ? market.features : [''],
             opening_hours: market.opening_hours?.length ? market.opening_hours : [{ day: '', time: '' }],
             is_premium: market.is_premium || false,
+            auto_publish_enabled: market.auto_publish_enabled || false,
+            auto_publish_min_confidence: market.auto_publish_min_confidence != null ? Number(market.auto_publish_min_confidence).toFixed(2) : '0.90',
+            auto_publish_min_price: market.auto_publish_min_price != null ? Number(market.auto_publish_min_price).toFixed(2) : '0.10',
+            auto_publish_max_price: market.auto_publish_max_price != null ? Number(market.auto_publish_max_price).toFixed(2) : '100.00',
         });
         setLogoFile(null);
         setHeaderFile(null);
@@ -398,7 +428,7 @@ export default function MarketManager({
             showToast('Fehler beim Löschen: ' + result.error, 'error');
         } else {
             await fetchMarkets(debouncedQuery, currentPage);
-            showToast('Markt erfolgreich gelöscht!', 'success');
+            showToast('Markt in den Papierkorb verschoben!', 'success');
         }
         setDeleteConfirm(null);
     };
@@ -576,10 +606,14 @@ export default function MarketManager({
                                 <div>
                                     <label className="block text-sm font-semibold mb-2" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>WhatsApp Nummern</label>
                                     <div className="space-y-2">
-                                        {formData.whatsapp_numbers.map((num, index) => (
+                                        {formData.whatsapp_members.map((member, index) => (
                                             <div key={index} className="flex gap-2">
-                                                <input type="tel" value={num} onChange={(e) => handleWhatsAppChange(index, e.target.value)} placeholder="z.B. +49 151 12345678 oder 4915112345678" className="flex-1 px-4 py-3 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-[var(--saffron)]" style={{ background: 'white', border: '2px solid var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }} />
-                                                {formData.whatsapp_numbers.length > 1 && (
+                                                <input type="tel" value={member.phone_number} onChange={(e) => handleWhatsAppChange(index, e.target.value)} placeholder="z.B. +49 151 12345678 oder 4915112345678" className="flex-1 px-4 py-3 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-[var(--saffron)]" style={{ background: 'white', border: '2px solid var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }} />
+                                                <select value={member.role} onChange={(e) => handleWhatsAppRoleChange(index, e.target.value as MarketMemberRole)} className="px-3 py-3 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-[var(--saffron)] cursor-pointer" style={{ background: 'white', border: '2px solid var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>
+                                                    <option value="owner">Inhaber</option>
+                                                    <option value="employee">Mitarbeiter</option>
+                                                </select>
+                                                {formData.whatsapp_members.length > 1 && (
                                                     <button type="button" onClick={() => handleRemoveWhatsApp(index)} className="p-3 rounded-xl transition-all hover:opacity-70 cursor-pointer" style={{ background: 'rgba(216, 99, 78, 0.1)', color: 'var(--terracotta)' }}>
                                                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -595,7 +629,7 @@ export default function MarketManager({
                                             Weitere WhatsApp Nummer
                                         </button>
                                     </div>
-                                    <p className="text-xs mt-2" style={{ color: 'var(--warm-gray)' }}>💡 Tipp: Das '+' wird beim Speichern automatisch entfernt für konsistente Webhook-Erkennung. Mehrere Nummern sind möglich.</p>
+                                    <p className="text-xs mt-2" style={{ color: 'var(--warm-gray)' }}>💡 Tipp: Das '+' wird beim Speichern automatisch entfernt für konsistente Webhook-Erkennung. Inhaber können Angebote per WhatsApp direkt freigeben, Mitarbeiter nur Entwürfe einreichen.</p>
                                 </div>
                             </div>
 
@@ -755,8 +789,43 @@ export default function MarketManager({
                                         <span className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-md transition-transform duration-200 ${formData.is_premium ? 'translate-x-6' : 'translate-x-1'}`} />
                                     </button>
                                 </div>
+
+                                {/* Auto-Publish (Trusted Market) */}
+                                <div className="p-4 rounded-xl space-y-4" style={{ background: formData.auto_publish_enabled ? 'rgba(107, 142, 122, 0.15)' : 'var(--sand)' }}>
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <label className="block text-sm font-semibold" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>Vertrauenswürdiger Markt</label>
+                                            <p className="text-xs" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>WhatsApp-Angebote von Inhaber-Nummern gehen ohne Prüfung live, wenn alle Kriterien erfüllt sind</p>
+                                        </div>
+                                        <button type="button" onClick={() => setFormData(prev => ({ ...prev, auto_publish_enabled: !prev.auto_publish_enabled }))} className="relative inline-flex h-7 w-12 items-center rounded-full transition-colors duration-200 cursor-pointer" style={{ background: formData.auto_publish_enabled ? 'var(--cardamom)' : 'var(--warm-gray)' }}>
+                                            <span className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-md transition-transform duration-200 ${formData.auto_publish_enabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                                        </button>
+                                    </div>
+                                    {formData.auto_publish_enabled && (
+                                        <>
+                                            <div className="grid grid-cols-3 gap-3">
+                                                <div>
+                                                    <label className="block text-xs font-semibold mb-1" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>Min. KI-Konfidenz</label>
+                                                    <input type="number" step="0.01" min="0" max="1" value={formData.auto_publish_min_confidence} onChange={(e) => setFormData(prev => ({ ...prev, auto_publish_min_confidence: e.target.value }))} required className="w-full px-3 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-[var(--saffron)]" style={{ background: 'white', border: '2px solid var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }} />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs font-semibold mb-1" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>Min. Preis (€)</label>
+                                                    <input type="number" step="0.01" min="0" value={formData.auto_publish_min_price} onChange={(e) => setFormData(prev => ({ ...prev, auto_publish_min_price: e.target.value }))} required className="w-full px-3 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-[var(--saffron)]" style={{ background: 'white', border: '2px solid var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }} />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs font-semibold mb-1" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>Max. Preis (€)</label>
+                                                    <input type="number" step="0.01" min="0" value={formData.auto_publish_max_price} onChange={(e) => setFormData(prev => ({ ...prev, auto_publish_max_price: e.target.value }))} required className="w-full px-3 py-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-[var(--saffron)]" style={{ background: 'white', border: '2px solid var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }} />
+                                                </div>
+                                            </div>
+                                            <p className="text-xs" style={{ color: 'var(--warm-gray)' }}>💡 Außerdem müssen eine bekannte Kategorie und ein Bild vorhanden sein. Jede Entscheidung wird mit Begründung protokolliert.</p>
+                                        </>
+                                    )}
+                                </div>
                             </div>
 
+                            {/* Change History */}
+                            {editingMarket && <AuditHistory entityType="market" entityId={editingMarket.id} />}
+
                             {/* Divider */}
                             <div className="border-t" style={{ borderColor: 'var(--sand)' }} />
 
@@ -843,6 +912,7 @@ export default function MarketManager({
                                     <div className="flex items-center gap-2 mb-1 flex-wrap">
                                         <h4 className="text-lg font-bold" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>{market.name}</h4>
                                         {market.is_premium && <span className="px-2 py-0.5 rounded-full text-xs font-semibold" style={{ background: 'linear-gradient(135deg, var(--saffron), #d4a12a)', color: 'white', fontFamily: 'var(--font-outfit)' }}>Premium</span>}
+                                        {market.auto_publish_enabled && <span className="px-2 py-0.5 rounded-full text-xs font-semibold" style={{ background: 'var(--cardamom)', color: 'white', fontFamily: 'var(--font-outfit)' }}>Auto-Freigabe</span>}
                                         {!market.is_active && <span className="px-2 py-0.5 rounded-full text-xs font-semibold" style={{ background: 'var(--terracotta)', color: 'white', fontFamily: 'var(--font-outfit)' }}>Deaktiviert</span>}
                                     </div>
                                     <div className="flex items-center gap-1 text-sm mb-4" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
@@ -900,7 +970,7 @@ export default function MarketManager({
                                             </button>
                                             {deleteConfirm === market.id && (
                                                 <div className="absolute bottom-full right-0 mb-2 glass-card p-3 shadow-lg z-10" style={{ minWidth: '180px' }}>
-                                                    <p className="text-xs mb-2" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>Wirklich löschen?</p>
+                                                    <p className="text-xs mb-2" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>Markt und Angebote in den Papierkorb?</p>
                                                     <div className="flex gap-2">
                                                         <button onClick={() => setDeleteConfirm(null)} className="flex-1 py-1.5 px-2 rounded-lg text-xs font-semibold transition-all hover:opacity-70 cursor-pointer" style={{ background: 'var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>Nein</button>
                                                         <button onClick={() => handleDeleteMarket(market.id)} className="flex-1 py-1.5 px-2 rounded-lg text-xs font-semibold transition-all hover:opacity-90 cursor-pointer" style={{ background: 'var(--terracotta)', color: 'white', fontFamily: 'var(--font-outfit)' }}>Ja, löschen</button>
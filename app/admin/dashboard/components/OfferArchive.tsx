@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { createClient } from '@/utils/supabase/client';
+import { rerunOffer } from '@/app/actions/offers';
+import { Market } from './types';
+
+interface ExpiredOffer {
+    id: string;
+    product_name: string;
+    price: string;
+    unit: string | null;
+    market_id: string;
+    expires_at: string;
+    expired_at: string | null;
+    markets: {
+        id: string;
+        name: string;
+        city: string;
+    } | null;
+    image_library: {
+        url: string;
+    } | null;
+}
+
+interface OfferArchiveProps {
+    initialMarkets: Market[];
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// The archive shows the most recently expired offers; older ones stay in the database
+const ARCHIVE_LIMIT = 200;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+});
+
+export default function OfferArchive({ initialMarkets, showToast }: OfferArchiveProps) {
+    const [offers, setOffers] = useState<ExpiredOffer[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedMarketId, setSelectedMarketId] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const supabase = createClient();
+
+    const fetchOffers = useCallback(async () => {
+        setLoading(true);
+        try {
+            let query = supabase
+                .from('offers')
+                .select('id, product_name, price, unit, market_id, expires_at, expired_at, markets(id, name, city), image_library(url)')
+                .eq('status', 'expired')
+                .is('deleted_at', null)
+                .order('expired_at', { ascending: false, nullsFirst: false })
+                .limit(ARCHIVE_LIMIT);
+
+            if (selectedMarketId) {
+                query = query.eq('market_id', selectedMarketId);
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                console.error('Error fetching expired offers:', error);
+                showToast('Fehler beim Laden des Archivs: ' + error.message, 'error');
+            } else {
+                setOffers((data as unknown as ExpiredOffer[]) || []);
+            }
+        } catch (err) {
+            console.error('Unexpected error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [supabase, selectedMarketId, showToast]);
+
+    useEffect(() => {
+        fetchOffers();
+    }, [fetchOffers]);
+
+    const handleRerun = async (offer: ExpiredOffer) => {
+        setBusyId(offer.id);
+        try {
+            const result = await rerunOffer(offer.id);
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim erneuten Schalten', 'error');
+            } else {
+                showToast(`„${offer.product_name}“ ist für eine weitere Woche live!`, 'success');
+                setOffers(prev => prev.filter(entry => entry.id !== offer.id));
+            }
+        } catch (err) {
+            console.error(err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    // Group by market, keeping the order of the most recent expiry
+    const offersByMarket = offers.reduce<Map<string, ExpiredOffer[]>>((groups, offer) => {
+        groups.set(offer.market_id, [...(groups.get(offer.market_id) || []), offer]);
+        return groups;
+    }, new Map());
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="bg-white rounded-2xl shadow-lg border-2 border-[var(--sand)] p-8 mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                            Angebots-Archiv
+                        </h1>
+                        <p className="text-base" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                            Abgelaufene Angebote – mit einem Klick für eine weitere Woche schalten
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <select
+                            value={selectedMarketId}
+                            onChange={(e) => setSelectedMarketId(e.target.value)}
+                            className="px-4 py-3 rounded-xl border-2 bg-white cursor-pointer"
+                            style={{ borderColor: 'var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                        >
+                            <option value="">Alle Märkte</option>
+                            {initialMarkets.map(market => (
+                                <option key={market.id} value={market.id}>{market.name} ({market.city})</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => fetchOffers()}
+                            className="px-6 py-3.5 rounded-xl font-bold transition-all hover:scale-105 hover:shadow-xl cursor-pointer flex items-center gap-3 shadow-lg whitespace-nowrap"
+                            style={{ background: 'linear-gradient(135deg, var(--sand) 0%, rgba(217, 201, 166, 0.7) 100%)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                            Aktualisieren
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-[var(--saffron)] border-t-transparent"></div>
+                </div>
+            ) : offers.length === 0 ? (
+                <div className="glass-card p-12 text-center">
+                    <h3 className="text-xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                        Keine abgelaufenen Angebote
+                    </h3>
+                    <p style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                        Angebote landen hier automatisch, sobald ihr Ablaufdatum erreicht ist.
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {Array.from(offersByMarket.entries()).map(([marketId, marketOffers]) => (
+                        <div key={marketId} className="glass-card p-6">
+                            <h3 className="text-lg font-bold mb-4" style={{ color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}>
+                                {marketOffers[0].markets?.name || 'Unbekannter Markt'}
+                                {marketOffers[0].markets?.city && <span className="font-normal" style={{ color: 'var(--warm-gray)' }}> · {marketOffers[0].markets.city}</span>}
+                                <span className="ml-2 text-sm font-normal" style={{ color: 'var(--warm-gray)' }}>({marketOffers.length})</span>
+                            </h3>
+                            <div className="space-y-3">
+                                {marketOffers.map(offer => (
+                                    <div key={offer.id} className="flex flex-col sm:flex-row sm:items-center gap-4 p-3 rounded-xl bg-white border border-[var(--sand)]" style={{ fontFamily: 'var(--font-outfit)' }}>
+                                        <div className="relative w-14 h-14 rounded-xl overflow-hidden shrink-0 border border-[var(--sand)]">
+                                            <Image
+                                                src={offer.image_library?.url || 'https://images.unsplash.com/photo-1573246123716-6b1782bfc499?auto=format&fit=crop&q=80&w=100'}
+                                                alt=""
+                                                fill
+                                                sizes="56px"
+                                                className="object-cover"
+                                            />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-bold truncate" style={{ color: 'var(--charcoal)' }}>{offer.product_name}</p>
+                                            <p className="text-sm" style={{ color: 'var(--warm-gray)' }}>
+                                                {offer.price} €{offer.unit && ` / ${offer.unit}`} · Abgelaufen am {formatDate(offer.expired_at || offer.expires_at)}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleRerun(offer)}
+                                            disabled={busyId === offer.id}
+                                            className="px-4 py-2 rounded-xl text-sm font-bold transition-all hover:scale-105 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                                            style={{ background: 'var(--gradient-warm)', color: 'white' }}
+                                        >
+                                            {busyId === offer.id ? 'Wird geschaltet...' : 'Eine weitere Woche schalten'}
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -5,6 +5,8 @@ import { createClient } from '@/utils/supabase/client';
 import { createOffer, updateOffer, deleteOffer } from '@/app/actions/offers';
 import { getSignedUploadUrl } from '@/app/actions/storage';
 import { addToImageLibrary } from '@/app/actions/library';
+import { getDiscountPercent } from '@/lib/offerPricing';
+import AuditHistory from './AuditHistory';
 import { Market } from './types';
 
 interface FullOffer {
@@ -12,11 +14,14 @@ interface FullOffer {
     product_name: string;
     description: string | null;
     price: string | number;
+    regular_price: number | null;
     unit: string | null;
     image_id: string | null;
     market_id: string;
     ai_category: string | null;
-    status: 'draft' | 'live' | 'expired';
+    status: 'draft' | 'scheduled' | 'live' | 'expired';
+    // Set if the offer should only start later, e.g. next Monday
+    starts_at: string | null;
     expires_at: string;
     created_at: string;
     markets: {
@@ -29,6 +34,11 @@ interface FullOffer {
     image_library: {
         url: string;
     } | null;
+    // Audit trail of trusted markets: why an offer went live without review
+    offer_auto_publish_decisions: {
+        published: boolean;
+        reason: string;
+    }[] | null;
 }
 
 interface OfferManagementProps {
@@ -67,15 +77,17 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
         product_name: string;
         description: string;
         price: string;
+        regular_price: string;
         unit: string;
         image_id: string | null;
         market_id: string;
+        starts_at: string;
         expires_at: string;
         ai_category: string;
         status: string; // Additional field for management
     }>({
-        product_name: '', description: '', price: '', unit: '',
-        image_id: null, market_id: '', expires_at: '', ai_category: '', status: 'draft'
+        product_name: '', description: '', price: '', regular_price: '', unit: '',
+        image_id: null, market_id: '', starts_at: '', expires_at: '', ai_category: '', status: 'draft'
     });
 
     const supabase = createClient();
@@ -94,19 +106,23 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                     product_name, 
                     description, 
                     price, 
+                    regular_price,
                     unit, 
                     image_id, 
                     market_id,
                     ai_category,
                     status,
+                    starts_at,
                     expires_at, 
                     created_at, 
                     markets!inner(id, name, slug, city, zip_code), 
-                    image_library(url)
+                    image_library(url),
+                    offer_auto_publish_decisions(published, reason)
                 `)
                 .order('created_at', { ascending: false })
-                // Only show live offers in Offer Management (drafts are in Offer Review)
-                .eq('status', 'live');
+                // Only show live and scheduled offers in Offer Management (drafts are in Offer Review)
+                .in('status', ['live', 'scheduled'])
+                .is('deleted_at', null);
 
             // Apply Filters
             if (selectedMarketId) {
@@ -186,6 +202,7 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
             const { data, error } = await supabase
                 .from('image_library')
                 .select('id, url, product_name')
+                .is('deleted_at', null)
                 .order('created_at', { ascending: false });
             if (!error) setLibraryImages(data || []);
         } catch (err) {
@@ -200,9 +217,11 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
             product_name: offer.product_name,
             description: offer.description || '',
             price: offer.price.toString(),
+            regular_price: offer.regular_price != null ? Number(offer.regular_price).toFixed(2) : '',
             unit: offer.unit || '',
             image_id: offer.image_id,
             market_id: offer.market_id,
+            starts_at: offer.starts_at ? offer.starts_at.split('T')[0] : '',
             expires_at: offer.expires_at ? offer.expires_at.split('T')[0] : '',
             ai_category: offer.ai_category || '',
             status: offer.status
@@ -217,9 +236,11 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
             product_name: '',
             description: '',
             price: '',
+            regular_price: '',
             unit: '',
             image_id: null,
             market_id: '',
+            starts_at: '',
             expires_at: getDefaultExpiryDate(),
             ai_category: '',
             status: 'draft'
@@ -232,8 +253,8 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
         setIsCreatingNew(false);
         setShowImageGallery(false);
         setEditForm({
-            product_name: '', description: '', price: '', unit: '',
-            image_id: null, market_id: '', expires_at: '', ai_category: '', status: ''
+            product_name: '', description: '', price: '', regular_price: '', unit: '',
+            image_id: null, market_id: '', starts_at: '', expires_at: '', ai_category: '', status: ''
         });
     };
 
@@ -255,11 +276,13 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                     product_name: editForm.product_name,
                     description: editForm.description || null,
                     price: editForm.price, // Server action accepts string
+                    regular_price: editForm.regular_price || null,
                     unit: editForm.unit,
                     image_id: editForm.image_id,
                     market_id: editForm.market_id,
                     ai_category: editForm.ai_category,
-                    status: editForm.status as 'draft' | 'live' | 'expired',
+                    status: editForm.status as 'draft' | 'scheduled' | 'live' | 'expired',
+                    starts_at: editForm.starts_at || null,
                     expires_at: editForm.expires_at
                 });
 
@@ -276,11 +299,13 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                     product_name: editForm.product_name,
                     description: editForm.description || null,
                     price: editForm.price, // Server action accepts string
+                    regular_price: editForm.regular_price || null,
                     unit: editForm.unit,
                     image_id: editForm.image_id,
                     market_id: editForm.market_id,
                     ai_category: editForm.ai_category,
-                    status: editForm.status as 'draft' | 'live' | 'expired',
+                    status: editForm.status as 'draft' | 'scheduled' | 'live' | 'expired',
+                    starts_at: editForm.starts_at || null,
                     expires_at: editForm.expires_at
                 });
 
@@ -316,7 +341,7 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
             if (!result.success) {
                 showToast(result.error || 'Fehler beim Löschen', 'error');
             } else {
-                showToast('Angebot erfolgreich gelöscht!', 'success');
+                showToast('Angebot in den Papierkorb verschoben!', 'success');
                 setOffers(prev => prev.filter(o => o.id !== deleteConfirmId));
                 setDeleteConfirmId(null);
             }
@@ -534,12 +559,17 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                                                 <tbody>
                                                     {marketOffers.map(offer => {
                                                         const isExpired = new Date(offer.expires_at) < new Date();
-                                                        const statusLabel = isExpired ? 'Abgelaufen' : (offer.status === 'live' ? 'Live' : 'Entwurf');
+                                                        const statusLabel = isExpired
+                                                            ? 'Abgelaufen'
+                                                            : (offer.status === 'live' ? 'Live' : offer.status === 'scheduled' ? `Ab ${new Date(offer.starts_at!).toLocaleDateString('de-DE')}` : 'Entwurf');
+                                                        const autoPublishDecision = offer.offer_auto_publish_decisions?.find(decision => decision.published);
                                                         const statusStyles = isExpired
                                                             ? 'bg-red-50 text-red-700 border-red-200'
                                                             : (offer.status === 'live'
                                                                 ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
-                                                                : 'bg-amber-50 text-amber-700 border-amber-200');
+                                                                : offer.status === 'scheduled'
+                                                                    ? 'bg-sky-50 text-sky-700 border-sky-200'
+                                                                    : 'bg-amber-50 text-amber-700 border-amber-200');
 
                                                         return (
                                                             <tr
@@ -571,12 +601,22 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                                                                     <div className="font-mono font-bold text-xl" style={{ color: 'var(--terracotta)' }}>
                                                                         {typeof offer.price === 'number' ? offer.price.toFixed(2) : parseFloat(offer.price).toFixed(2)} €
                                                                     </div>
+                                                                    {getDiscountPercent(offer.price, offer.regular_price) !== null && (
+                                                                        <div className="text-xs font-medium" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                                                                            <span className="line-through">{Number(offer.regular_price).toFixed(2)} €</span> -{getDiscountPercent(offer.price, offer.regular_price)}%
+                                                                        </div>
+                                                                    )}
                                                                     <div className="text-xs text-[var(--warm-gray)] font-medium" style={{ fontFamily: 'var(--font-outfit)' }}>pro {offer.unit || 'Stück'}</div>
                                                                 </td>
                                                                 <td className="p-4">
                                                                     <span className={`px-4 py-2 rounded-full text-xs font-bold border-2 inline-block ${statusStyles}`} style={{ fontFamily: 'var(--font-outfit)' }}>
                                                                         {statusLabel}
                                                                     </span>
+                                                                    {autoPublishDecision && (
+                                                                        <div className="mt-2 text-xs font-semibold text-[var(--cardamom)] cursor-help" style={{ fontFamily: 'var(--font-outfit)' }} title={autoPublishDecision.reason}>
+                                                                            🤖 Auto-Freigabe
+                                                                        </div>
+                                                                    )}
                                                                 </td>
                                                                 <td className="p-4 text-right">
                                                                     <div className="flex justify-end gap-2">
@@ -685,10 +725,10 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                                         {/* Status Badge Preview */}
                                         <div className="absolute top-4 left-4 px-3 py-1.5 rounded-full text-xs font-bold shadow-sm"
                                             style={{
-                                                background: editForm.status === 'live' ? '#dcfce7' : '#fef3c7',
-                                                color: editForm.status === 'live' ? '#166534' : '#92400e'
+                                                background: editForm.status === 'live' ? '#dcfce7' : editForm.status === 'scheduled' ? '#e0f2fe' : '#fef3c7',
+                                                color: editForm.status === 'live' ? '#166534' : editForm.status === 'scheduled' ? '#075985' : '#92400e'
                                             }}>
-                                            {editForm.status === 'live' ? 'Live' : 'Entwurf'}
+                                            {editForm.status === 'live' ? 'Live' : editForm.status === 'scheduled' ? 'Geplant' : 'Entwurf'}
                                         </div>
                                     </div>
 
@@ -751,6 +791,22 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                                             </div>
                                         </div>
 
+                                        {/* Regular price */}
+                                        <div>
+                                            <label className="block text-sm font-bold text-[var(--charcoal)] mb-2">Statt-Preis (€, optional)</label>
+                                            <div className="relative">
+                                                <input
+                                                    type="text"
+                                                    value={editForm.regular_price}
+                                                    onChange={e => setEditForm({ ...editForm, regular_price: e.target.value })}
+                                                    className="w-full px-5 py-3.5 rounded-xl border bg-white/60 focus:bg-white transition-all focus:ring-4 focus:ring-[var(--saffron-glow)] outline-none font-mono font-medium"
+                                                    style={{ borderColor: 'var(--sand)' }}
+                                                    placeholder="Regulärer Preis"
+                                                />
+                                                <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 font-bold">€</span>
+                                            </div>
+                                        </div>
+
                                         {/* Unit */}
                                         <div>
                                             <label className="block text-sm font-bold text-[var(--charcoal)] mb-2">Einheit</label>
@@ -798,14 +854,27 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                                                 >
                                                     <option value="draft">Entwurf</option>
                                                     <option value="live">Veröffentlicht (Live)</option>
+                                                    <option value="scheduled">Geplant (ab Startdatum)</option>
                                                     <option value="expired">Abgelaufen</option>
                                                 </select>
                                                 <svg className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
                                             </div>
                                         </div>
 
+                                        {/* Start Date */}
+                                        <div>
+                                            <label className="block text-sm font-bold text-[var(--charcoal)] mb-2">Gültig ab (optional)</label>
+                                            <input
+                                                type="date"
+                                                value={editForm.starts_at}
+                                                onChange={e => setEditForm({ ...editForm, starts_at: e.target.value })}
+                                                className="w-full px-5 py-3.5 rounded-xl border bg-white/60 focus:bg-white transition-all focus:ring-4 focus:ring-[var(--saffron-glow)] outline-none"
+                                                style={{ borderColor: 'var(--sand)' }}
+                                            />
+                                        </div>
+
                                         {/* Expiry Date */}
-                                        <div className="md:col-span-2">
+                                        <div>
                                             <label className="block text-sm font-bold text-[var(--charcoal)] mb-2">Gültig bis</label>
                                             <input
                                                 type="date"
@@ -828,6 +897,13 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                                                 placeholder="Beschreibe das Produkt kurz..."
                                             />
                                         </div>
+
+                                        {/* Change History */}
+                                        {editingId && (
+                                            <div className="md:col-span-2">
+                                                <AuditHistory entityType="offer" entityId={editingId} />
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -881,7 +957,7 @@ export default function OfferManagement({ initialMarkets, showToast }: OfferMana
                                 Angebot löschen?
                             </h3>
                             <p className="text-[var(--warm-gray)] px-4 leading-relaxed">
-                                Möchten Sie dieses Angebot wirklich unwiderruflich entfernen?
+                                Das Angebot wird in den Papierkorb verschoben und kann dort wiederhergestellt werden.
                             </p>
                         </div>
 
@@ -2,20 +2,37 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { createClient } from '@/utils/supabase/client';
-import { publishOffer, createOffer, updateOffer, deleteOffer } from '@/app/actions/offers';
+import { publishOffer, createOffer, updateOffer, deleteOffer, extractOfferFields, mergeDuplicateOffer, keepDuplicateOffer } from '@/app/actions/offers';
 import { getSignedUploadUrl } from '@/app/actions/storage';
 import { addToImageLibrary } from '@/app/actions/library';
+import { getDiscountPercent } from '@/lib/offerPricing';
 
 interface DraftOffer {
     id: string;
     product_name: string;
     description: string | null;
     price: string;
+    regular_price: number | null;
     unit: string | null;
     image_id: string | null;
+    // Set if the offer should only start later, e.g. next Monday
+    starts_at: string | null;
     expires_at: string;
     created_at: string;
     market_id: string;
+    // Set for drafts extracted from a PDF flyer sent via WhatsApp
+    source_document: string | null;
+    source_page: number | null;
+    // Set if the offer likely repeats an existing draft or live offer of the market
+    duplicate_of: string | null;
+    duplicate: {
+        id: string;
+        product_name: string;
+        price: string;
+        unit: string | null;
+        status: string;
+        expires_at: string;
+    } | null;
     markets: {
         id: string;
         name: string;
@@ -34,6 +51,7 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
     const [draftOffers, setDraftOffers] = useState<DraftOffer[]>([]);
     const [loading, setLoading] = useState(true);
     const [publishingId, setPublishingId] = useState<string | null>(null);
+    const [resolvingDuplicateId, setResolvingDuplicateId] = useState<string | null>(null);
     const [editingId, setEditingId] = useState<string | null>(null);
     const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
     const [showImageGallery, setShowImageGallery] = useState(false);
@@ -52,14 +70,18 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
         product_name: string;
         description: string;
         price: string;
+        regular_price: string;
         unit: string;
         image_id: string | null;
         market_id: string;
+        starts_at: string;
         expires_at: string;
         ai_category: string;
-    }>({ product_name: '', description: '', price: '', unit: '', image_id: null, market_id: '', expires_at: '', ai_category: '' });
+    }>({ product_name: '', description: '', price: '', regular_price: '', unit: '', image_id: null, market_id: '', starts_at: '', expires_at: '', ai_category: '' });
     const [touchedFields, setTouchedFields] = useState<{ market_id?: boolean; product_name?: boolean; price?: boolean; unit?: boolean; image_id?: boolean; ai_category?: boolean }>({});
     const [generatingDescription, setGeneratingDescription] = useState(false);
+    const [extractionText, setExtractionText] = useState('');
+    const [extractingFields, setExtractingFields] = useState(false);
 
     const supabase = createClient();
     const hasFetchedRef = useRef(false);
@@ -69,9 +91,10 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
         try {
             const { data, error } = await supabase
                 .from('offers')
-                .select('id, product_name, description, price, unit, image_id, expires_at, created_at, market_id, markets!inner(id, name, city), image_library(url)')
+                .select('id, product_name, description, price, regular_price, unit, image_id, starts_at, expires_at, created_at, market_id, source_document, source_page, duplicate_of, duplicate:duplicate_of(id, product_name, price, unit, status, expires_at), markets!inner(id, name, city), image_library(url)')
                 .eq('markets.is_active', true)
                 .eq('status', 'draft')
+                .is('deleted_at', null)
                 .order('created_at', { ascending: false });
 
             if (error) {
@@ -94,6 +117,7 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                 .from('markets')
                 .select('id, name, city, zip_code')
                 .eq('is_active', true)
+                .is('deleted_at', null)
                 .order('zip_code', { ascending: true, nullsFirst: false });
 
             if (error) {
@@ -126,7 +150,13 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
             if (!result.success) {
                 showToast(result.error || 'Fehler beim Veröffentlichen', 'error');
             } else {
-                showToast('Angebot ist jetzt live!', 'success');
+                const startsAt = draftOffers.find(offer => offer.id === offerId)?.starts_at;
+                showToast(
+                    startsAt && new Date(startsAt) > new Date()
+                        ? `Angebot ist eingeplant und geht am ${new Date(startsAt).toLocaleDateString('de-DE')} online`
+                        : 'Angebot ist jetzt live!',
+                    'success'
+                );
                 setDraftOffers(prev => prev.filter(offer => offer.id !== offerId));
             }
         } catch (err) {
@@ -137,6 +167,34 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
         }
     };
 
+    // Merge a flagged draft into the offer it repeats (new price and expiry), or keep both
+    const handleResolveDuplicate = async (offer: DraftOffer, merge: boolean) => {
+        setResolvingDuplicateId(offer.id);
+
+        try {
+            const result = merge ? await mergeDuplicateOffer(offer.id) : await keepDuplicateOffer(offer.id);
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim Speichern', 'error');
+                // The flag may have been removed in the meantime
+                await fetchDraftOffers();
+            } else if (merge) {
+                showToast(`„${offer.duplicate?.product_name}“ wurde mit dem neuen Preis aktualisiert`, 'success');
+                setDraftOffers(prev => prev.filter(entry => entry.id !== offer.id));
+            } else {
+                showToast('Beide Angebote bleiben erhalten', 'success');
+                setDraftOffers(prev => prev.map(entry =>
+                    entry.id === offer.id ? { ...entry, duplicate_of: null, duplicate: null } : entry
+                ));
+            }
+        } catch (err) {
+            console.error('Unexpected error:', err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setResolvingDuplicateId(null);
+        }
+    };
+
     const handleEditClick = (offer: DraftOffer) => {
         setEditingId(offer.id);
         setOriginalImageId(offer.image_id); // Store original image_id
@@ -144,9 +202,11 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
             product_name: offer.product_name,
             description: offer.description || '',
             price: offer.price,
+            regular_price: offer.regular_price != null ? Number(offer.regular_price).toFixed(2) : '',
             unit: offer.unit || '',
             image_id: offer.image_id,
             market_id: offer.market_id,
+            starts_at: offer.starts_at ? offer.starts_at.split('T')[0] : '',
             expires_at: offer.expires_at ? offer.expires_at.split('T')[0] : '', // Format as YYYY-MM-DD for date input
             ai_category: (offer as any).ai_category || ''
         });
@@ -169,7 +229,7 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
         setShowImageGallery(false);
         setImageSearchQuery('');
         setOriginalImageId(null);
-        setEditForm({ product_name: '', description: '', price: '', unit: '', image_id: null, market_id: '', expires_at: '', ai_category: '' });
+        setEditForm({ product_name: '', description: '', price: '', regular_price: '', unit: '', image_id: null, market_id: '', starts_at: '', expires_at: '', ai_category: '' });
         setIsCreatingNew(false);
         setMarketSearchQuery('');
         setShowMarketDropdown(false);
@@ -179,25 +239,60 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
     const handleCreateNewClick = () => {
         setIsCreatingNew(true);
         setEditingId('new-offer');
-        setEditForm({ product_name: '', description: '', price: '', unit: '', image_id: null, market_id: '', expires_at: getDefaultExpiryDate(), ai_category: '' });
+        setEditForm({ product_name: '', description: '', price: '', regular_price: '', unit: '', image_id: null, market_id: '', starts_at: '', expires_at: getDefaultExpiryDate(), ai_category: '' });
         setTouchedFields({});
+        setExtractionText('');
         // Add a temporary placeholder offer to the list
         const newOffer: DraftOffer = {
             id: 'new-offer',
             product_name: '',
             description: '',
             price: '',
+            regular_price: null,
             unit: '',
             image_id: null,
+            starts_at: null,
             expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // Default 7 days
             created_at: new Date().toISOString(),
             market_id: '',
+            source_document: null,
+            source_page: null,
+            duplicate_of: null,
+            duplicate: null,
             markets: null,
             image_library: null
         };
         setDraftOffers([newOffer, ...draftOffers]);
     };
 
+    // Prefill the new offer from a pasted text, recognized by the same AI as WhatsApp offers
+    const handleExtractFields = async () => {
+        setExtractingFields(true);
+        try {
+            const result = await extractOfferFields(extractionText);
+
+            if (!result.success || !result.offer) {
+                showToast(result.error || 'Fehler bei der Erkennung', 'error');
+                return;
+            }
+
+            const extracted = result.offer;
+            setEditForm(prev => ({ ...prev, ...extracted }));
+            setTouchedFields(prev => ({ ...prev, product_name: true, price: true, unit: true, ai_category: true }));
+            showToast(
+                result.additionalOffers
+                    ? `Angebot erkannt – ${result.additionalOffers} weitere im Text wurden ignoriert`
+                    : 'Angebot erkannt – bitte prüfen',
+                'success'
+            );
+        } catch (error) {
+            console.error('Error extracting offer:', error);
+            showToast('Fehler bei der Erkennung', 'error');
+        } finally {
+            setExtractingFields(false);
+        }
+    };
+
     // Validation helper for new offers
     const isFormValid = () => {
         if (!isCreatingNew) return true;
@@ -223,26 +318,28 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
         setSavingEdit(true);
         try {
             if (isCreatingNew) {
-                // Generate AI description
-                setGeneratingDescription(true);
-                let generatedDescription = '';
-                try {
-                    const response = await fetch('/api/offers/generate-description', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({
-                            product_name: editForm.product_name,
-                            price: editForm.price,
-                            unit: editForm.unit
-                        })
-                    });
-                    if (response.ok) {
-                        const data = await response.json();
-                        generatedDescription = data.description || '';
+                // Generate AI description, unless the recognized text already came with one
+                setGeneratingDescription(!editForm.description);
+                let generatedDescription = editForm.description;
+                if (!generatedDescription) {
+                    try {
+                        const response = await fetch('/api/offers/generate-description', {
+                            method: 'POST',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({
+                                product_name: editForm.product_name,
+                                price: editForm.price,
+                                unit: editForm.unit
+                            })
+                        });
+                        if (response.ok) {
+                            const data = await response.json();
+                            generatedDescription = data.description || '';
+                        }
+                    } catch (aiError) {
+                        console.error('Error generating description:', aiError);
+                        // Continue without description if AI fails
                     }
-                } catch (aiError) {
-                    console.error('Error generating description:', aiError);
-                    // Continue without description if AI fails
                 }
                 setGeneratingDescription(false);
 
@@ -251,18 +348,25 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                     product_name: editForm.product_name,
                     description: generatedDescription || null,
                     price: editForm.price, // Server action accepts string
+                    regular_price: editForm.regular_price || null,
                     unit: editForm.unit,
                     image_id: editForm.image_id,
                     market_id: editForm.market_id,
                     ai_category: editForm.ai_category,
                     status: 'draft',
+                    starts_at: editForm.starts_at || null,
                     expires_at: editForm.expires_at
                 });
 
                 if (!result.success) {
                     showToast(result.error || 'Fehler beim Erstellen', 'error');
                 } else {
-                    showToast('Angebot erfolgreich erstellt!', 'success');
+                    showToast(
+                        result.duplicateOf
+                            ? `Angebot erstellt – ähnlich wie „${result.duplicateOf}“, bitte als Duplikat prüfen`
+                            : 'Angebot erfolgreich erstellt!',
+                        'success'
+                    );
                     // Refresh the list to get the newly created offer with all relations
                     await fetchDraftOffers();
                     setEditingId(null);
@@ -274,10 +378,12 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                     product_name: editForm.product_name,
                     description: editForm.description || null,
                     price: editForm.price, // Server action accepts string
+                    regular_price: editForm.regular_price || null,
                     unit: editForm.unit,
                     image_id: editForm.image_id,
                     market_id: editForm.market_id,
                     ai_category: editForm.ai_category,
+                    starts_at: editForm.starts_at || null,
                     expires_at: editForm.expires_at
                 });
 
@@ -288,7 +394,7 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                     // Fetch updated offer with image_library data
                     const { data: updatedOffer } = await supabase
                         .from('offers')
-                        .select('id, product_name, description, price, unit, image_id, expires_at, created_at, market_id, markets(id, name, city), image_library(url)')
+                        .select('id, product_name, description, price, regular_price, unit, image_id, starts_at, expires_at, created_at, market_id, source_document, source_page, duplicate_of, duplicate:duplicate_of(id, product_name, price, unit, status, expires_at), markets(id, name, city), image_library(url)')
                         .eq('id', offerId)
                         .single();
 
@@ -321,6 +427,7 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
             const { data, error } = await supabase
                 .from('image_library')
                 .select('id, url, product_name')
+                .is('deleted_at', null)
                 .order('created_at', { ascending: false });
 
             if (error) {
@@ -415,7 +522,7 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
             if (!result.success) {
                 showToast(result.error || 'Fehler beim Löschen', 'error');
             } else {
-                showToast('Angebot erfolgreich gelöscht!', 'success');
+                showToast('Angebot in den Papierkorb verschoben!', 'success');
                 // Optimistic update
                 setDraftOffers(prev => prev.filter(offer => offer.id !== deleteConfirmId));
                 setDeleteConfirmId(null);
@@ -606,6 +713,33 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                                             <>
                                                 {/* Edit Mode */}
                                                 <div className="space-y-3">
+                                                    {isCreatingNew && (
+                                                        <div className="p-3 rounded-lg space-y-2" style={{ background: 'rgba(107, 142, 122, 0.1)', border: '1px solid rgba(107, 142, 122, 0.2)' }}>
+                                                            <label className="text-xs font-semibold block" style={{ color: 'var(--cardamom)', fontFamily: 'var(--font-outfit)' }}>
+                                                                Angebotstext (optional)
+                                                            </label>
+                                                            <textarea
+                                                                value={extractionText}
+                                                                onChange={(e) => setExtractionText(e.target.value)}
+                                                                placeholder="z. B. Tomaten 1,99 kg, gültig eine Woche"
+                                                                className="w-full px-3 py-2 rounded-lg border resize-none bg-white"
+                                                                style={{ borderColor: 'var(--sand)', fontFamily: 'var(--font-outfit)', fontSize: '0.875rem' }}
+                                                                rows={2}
+                                                            />
+                                                            <button
+                                                                type="button"
+                                                                onClick={handleExtractFields}
+                                                                disabled={extractingFields || !extractionText.trim()}
+                                                                className="w-full py-2 rounded-lg text-sm font-semibold transition-all hover:opacity-90 cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                                                                style={{ background: 'var(--cardamom)', color: 'white', fontFamily: 'var(--font-outfit)' }}
+                                                            >
+                                                                <svg className={`w-4 h-4 ${extractingFields ? 'animate-pulse' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                                                                </svg>
+                                                                {extractingFields ? 'KI erkennt...' : 'Mit KI ausfüllen'}
+                                                            </button>
+                                                        </div>
+                                                    )}
                                                     {isCreatingNew && (
                                                         <div className="relative">
                                                             <label className="text-xs font-semibold mb-1 flex items-center gap-1" style={{ color: touchedFields.market_id && !editForm.market_id ? 'var(--terracotta)' : 'var(--warm-gray)' }}>
@@ -784,6 +918,19 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                                                             )}
                                                         </div>
                                                     </div>
+                                                    <div>
+                                                        <label className="text-xs font-semibold mb-1 flex items-center gap-1" style={{ color: 'var(--warm-gray)' }}>
+                                                            Statt-Preis (€, optional)
+                                                        </label>
+                                                        <input
+                                                            type="text"
+                                                            value={editForm.regular_price}
+                                                            onChange={(e) => setEditForm({ ...editForm, regular_price: e.target.value })}
+                                                            placeholder="Regulärer Preis, z.B. 3.49"
+                                                            className="w-full px-3 py-2 rounded-lg border transition-colors"
+                                                            style={{ borderColor: 'var(--sand)' }}
+                                                        />
+                                                    </div>
                                                     {/* Category Dropdown */}
                                                     <div>
                                                         <label className="text-xs font-semibold mb-1 flex items-center gap-1" style={{ color: touchedFields.ai_category && !editForm.ai_category && isCreatingNew ? 'var(--terracotta)' : 'var(--warm-gray)' }}>
@@ -814,6 +961,26 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                                                             </p>
                                                         )}
                                                     </div>
+                                                    {/* Start Date */}
+                                                    <div>
+                                                        <label className="text-xs font-semibold mb-1 flex items-center gap-1" style={{ color: 'var(--warm-gray)' }}>
+                                                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                                            </svg>
+                                                            Gültig ab (optional)
+                                                        </label>
+                                                        <input
+                                                            type="date"
+                                                            value={editForm.starts_at}
+                                                            onChange={(e) => setEditForm({ ...editForm, starts_at: e.target.value })}
+                                                            min={new Date().toISOString().split('T')[0]}
+                                                            className="w-full px-3 py-2 rounded-lg border transition-colors"
+                                                            style={{ borderColor: 'var(--sand)', fontFamily: 'var(--font-outfit)' }}
+                                                        />
+                                                        <p className="text-xs mt-1" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                                                            Freigegebene Angebote gehen erst an diesem Tag online
+                                                        </p>
+                                                    </div>
                                                     {/* Expiry Date */}
                                                     <div>
                                                         <label className="text-xs font-semibold mb-1 flex items-center gap-1" style={{ color: 'var(--warm-gray)' }}>
@@ -896,6 +1063,16 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                                                             / {offer.unit}
                                                         </span>
                                                     )}
+                                                    {getDiscountPercent(offer.price, offer.regular_price) !== null && (
+                                                        <>
+                                                            <span className="text-sm line-through" style={{ color: 'var(--warm-gray)' }}>
+                                                                {Number(offer.regular_price).toFixed(2)} €
+                                                            </span>
+                                                            <span className="px-2 py-0.5 rounded-full text-xs font-black" style={{ background: 'var(--saffron)', color: 'var(--charcoal)' }}>
+                                                                -{getDiscountPercent(offer.price, offer.regular_price)}%
+                                                            </span>
+                                                        </>
+                                                    )}
                                                 </div>
 
                                                 {/* Market Info */}
@@ -908,6 +1085,16 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                                                     </div>
                                                 )}
 
+                                                {/* Source Document (PDF flyer) */}
+                                                {offer.source_document && (
+                                                    <div className="flex items-center gap-2 text-sm" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                                                        </svg>
+                                                        <span className="truncate">{offer.source_document}{offer.source_page ? ` • Seite ${offer.source_page}` : ''}</span>
+                                                    </div>
+                                                )}
+
                                                 {/* Dates */}
                                                 <div className="text-xs space-y-1" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
                                                     <div className="flex items-center gap-2">
@@ -920,10 +1107,42 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                                                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                                                         </svg>
+                                                        {offer.starts_at && `Gültig ab: ${new Date(offer.starts_at).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' })} · `}
                                                         Gültig bis: {expiresDate.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' })}
                                                     </div>
                                                 </div>
 
+                                                {/* Likely Duplicate */}
+                                                {offer.duplicate && (
+                                                    <div className="p-3 rounded-xl space-y-2" style={{ background: 'rgba(225, 139, 85, 0.1)', border: '1px solid var(--terracotta)', fontFamily: 'var(--font-outfit)' }}>
+                                                        <p className="text-sm font-semibold" style={{ color: 'var(--terracotta)' }}>
+                                                            Mögliches Duplikat
+                                                        </p>
+                                                        <p className="text-xs" style={{ color: 'var(--charcoal)' }}>
+                                                            Der Markt hat bereits „{offer.duplicate.product_name}“ ({offer.duplicate.status === 'live' ? 'live' : 'Entwurf'}) für {offer.duplicate.price} €{offer.duplicate.unit && ` / ${offer.duplicate.unit}`}, gültig bis {new Date(offer.duplicate.expires_at).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' })}.
+                                                        </p>
+                                                        <div className="flex gap-2">
+                                                            <button
+                                                                onClick={() => handleResolveDuplicate(offer, true)}
+                                                                disabled={resolvingDuplicateId === offer.id}
+                                                                className="flex-1 py-2 rounded-lg text-xs font-bold transition-all hover:opacity-90 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                                                style={{ background: 'var(--gradient-warm)', color: 'white' }}
+                                                                title="Preis und Ablaufdatum in das bestehende Angebot übernehmen und diesen Entwurf löschen"
+                                                            >
+                                                                Zusammenführen
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleResolveDuplicate(offer, false)}
+                                                                disabled={resolvingDuplicateId === offer.id}
+                                                                className="flex-1 py-2 rounded-lg text-xs font-bold transition-all hover:opacity-90 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                                                style={{ background: 'var(--sand)', color: 'var(--charcoal)' }}
+                                                            >
+                                                                Beide behalten
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                )}
+
                                                 {/* Publish Button */}
                                                 <div className="pt-3 border-t" style={{ borderColor: 'var(--sand)' }}>
                                                     <button
@@ -974,7 +1193,7 @@ export default function OfferReview({ showToast }: OfferReviewProps) {
                                     Angebot löschen?
                                 </h3>
                                 <p className="text-sm" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
-                                    Diese Aktion kann nicht rückgängig gemacht werden.
+                                    Es kann im Papierkorb wiederhergestellt werden.
                                 </p>
                             </div>
                         </div>
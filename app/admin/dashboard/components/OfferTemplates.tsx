@@ -0,0 +1,625 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { createClient } from '@/utils/supabase/client';
+import { createOfferTemplate, updateOfferTemplate, deleteOfferTemplate } from '@/app/actions/offerTemplates';
+import { Market } from './types';
+
+interface OfferTemplateRow {
+    id: string;
+    market_id: string;
+    product_name: string;
+    description: string | null;
+    price: string;
+    regular_price: number | null;
+    unit: string | null;
+    ai_category: string | null;
+    image_id: string | null;
+    weekdays: number[];
+    interval_weeks: number;
+    duration_days: number;
+    publish_status: 'draft' | 'live';
+    starts_on: string;
+    ends_on: string | null;
+    is_active: boolean;
+    markets: {
+        id: string;
+        name: string;
+        city: string;
+    } | null;
+    image_library: {
+        url: string;
+    } | null;
+}
+
+interface LibraryImage {
+    id: string;
+    url: string;
+    product_name: string;
+}
+
+interface TemplateForm {
+    market_id: string;
+    product_name: string;
+    description: string;
+    price: string;
+    regular_price: string;
+    unit: string;
+    ai_category: string;
+    image_id: string | null;
+    weekdays: number[];
+    interval_weeks: number;
+    duration_days: number;
+    publish_status: 'draft' | 'live';
+    starts_on: string;
+    ends_on: string;
+    is_active: boolean;
+}
+
+interface OfferTemplatesProps {
+    initialMarkets: Market[];
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// ISO weekdays, as stored in offer_templates.weekdays
+const WEEKDAYS = [
+    { value: 1, label: 'Mo' },
+    { value: 2, label: 'Di' },
+    { value: 3, label: 'Mi' },
+    { value: 4, label: 'Do' },
+    { value: 5, label: 'Fr' },
+    { value: 6, label: 'Sa' },
+    { value: 7, label: 'So' },
+];
+
+const CATEGORIES = ['Obst & Gemüse', 'Fleisch & Wurst', 'Milchprodukte', 'Backwaren', 'Getränke', 'Sonstiges'];
+
+const emptyForm = (): TemplateForm => ({
+    market_id: '',
+    product_name: '',
+    description: '',
+    price: '',
+    regular_price: '',
+    unit: '',
+    ai_category: '',
+    image_id: null,
+    weekdays: [],
+    interval_weeks: 1,
+    duration_days: 1,
+    publish_status: 'draft',
+    starts_on: new Date().toISOString().split('T')[0],
+    ends_on: '',
+    is_active: true
+});
+
+/**
+ * Describe the recurrence of a template, e.g. "Fr · jede Woche" or "Mo, Do · alle 2 Wochen"
+ */
+const describeRecurrence = (template: Pick<OfferTemplateRow, 'weekdays' | 'interval_weeks'>) => {
+    const days = WEEKDAYS.filter(day => template.weekdays.includes(day.value)).map(day => day.label).join(', ');
+    return `${days} · ${template.interval_weeks === 1 ? 'jede Woche' : `alle ${template.interval_weeks} Wochen`}`;
+};
+
+export default function OfferTemplates({ initialMarkets, showToast }: OfferTemplatesProps) {
+    const [templates, setTemplates] = useState<OfferTemplateRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedMarketId, setSelectedMarketId] = useState('');
+    // null = no form open, 'new' = create form, otherwise the id of the edited template
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<TemplateForm>(emptyForm());
+    const [saving, setSaving] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [libraryImages, setLibraryImages] = useState<LibraryImage[]>([]);
+
+    const supabase = createClient();
+
+    const fetchTemplates = useCallback(async () => {
+        setLoading(true);
+        try {
+            let query = supabase
+                .from('offer_templates')
+                .select('id, market_id, product_name, description, price, regular_price, unit, ai_category, image_id, weekdays, interval_weeks, duration_days, publish_status, starts_on, ends_on, is_active, markets(id, name, city), image_library(url)')
+                .order('created_at', { ascending: false });
+
+            if (selectedMarketId) {
+                query = query.eq('market_id', selectedMarketId);
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                console.error('Error fetching offer templates:', error);
+                showToast('Fehler beim Laden der Vorlagen: ' + error.message, 'error');
+            } else {
+                setTemplates((data as unknown as OfferTemplateRow[]) || []);
+            }
+        } catch (err) {
+            console.error('Unexpected error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [supabase, selectedMarketId, showToast]);
+
+    useEffect(() => {
+        fetchTemplates();
+    }, [fetchTemplates]);
+
+    const fetchLibraryImages = async () => {
+        try {
+            const { data, error } = await supabase
+                .from('image_library')
+                .select('id, url, product_name')
+                .is('deleted_at', null)
+                .order('created_at', { ascending: false });
+            if (!error) setLibraryImages(data || []);
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const handleCreateClick = () => {
+        setEditingId('new');
+        setForm({ ...emptyForm(), market_id: selectedMarketId });
+        fetchLibraryImages();
+    };
+
+    const handleEditClick = (template: OfferTemplateRow) => {
+        setEditingId(template.id);
+        setForm({
+            market_id: template.market_id,
+            product_name: template.product_name,
+            description: template.description || '',
+            price: template.price,
+            regular_price: template.regular_price != null ? Number(template.regular_price).toFixed(2) : '',
+            unit: template.unit || '',
+            ai_category: template.ai_category || '',
+            image_id: template.image_id,
+            weekdays: template.weekdays,
+            interval_weeks: template.interval_weeks,
+            duration_days: template.duration_days,
+            publish_status: template.publish_status,
+            starts_on: template.starts_on,
+            ends_on: template.ends_on || '',
+            is_active: template.is_active
+        });
+        fetchLibraryImages();
+    };
+
+    const handleCancel = () => {
+        setEditingId(null);
+        setForm(emptyForm());
+    };
+
+    const toggleWeekday = (weekday: number) => {
+        setForm(prev => ({
+            ...prev,
+            weekdays: prev.weekdays.includes(weekday)
+                ? prev.weekdays.filter(day => day !== weekday)
+                : [...prev.weekdays, weekday]
+        }));
+    };
+
+    const handleSave = async () => {
+        if (!form.market_id || !form.product_name.trim() || !form.price.trim() || form.weekdays.length === 0) {
+            showToast('Bitte Markt, Produkt, Preis und mindestens einen Wochentag angeben', 'error');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const data = {
+                ...form,
+                description: form.description || null,
+                regular_price: form.regular_price || null,
+                ai_category: form.ai_category || null,
+                ends_on: form.ends_on || null
+            };
+            const result = editingId === 'new'
+                ? await createOfferTemplate(data)
+                : await updateOfferTemplate(editingId!, data);
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim Speichern', 'error');
+            } else {
+                showToast(
+                    result.createdOffers
+                        ? `Vorlage gespeichert – ${result.createdOffers} ${result.createdOffers === 1 ? 'Angebot' : 'Angebote'} für die nächsten 7 Tage angelegt`
+                        : 'Vorlage gespeichert',
+                    'success'
+                );
+                handleCancel();
+                fetchTemplates();
+            }
+        } catch (err) {
+            console.error(err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (template: OfferTemplateRow) => {
+        setBusyId(template.id);
+        try {
+            const result = await updateOfferTemplate(template.id, { is_active: !template.is_active });
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim Speichern', 'error');
+            } else {
+                showToast(template.is_active ? 'Vorlage pausiert – kommende Angebote wurden entfernt' : 'Vorlage aktiviert', 'success');
+                fetchTemplates();
+            }
+        } catch (err) {
+            console.error(err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (template: OfferTemplateRow) => {
+        if (!confirm(`Vorlage „${template.product_name}“ löschen? Kommende Angebote dieser Vorlage werden in den Papierkorb verschoben.`)) {
+            return;
+        }
+
+        setBusyId(template.id);
+        try {
+            const result = await deleteOfferTemplate(template.id);
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim Löschen', 'error');
+            } else {
+                showToast('Vorlage gelöscht', 'success');
+                setTemplates(prev => prev.filter(entry => entry.id !== template.id));
+            }
+        } catch (err) {
+            console.error(err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    // Library images matching the product name, so the right photo is one click away
+    const suggestedImages = libraryImages
+        .filter(image => !form.product_name.trim() || image.product_name.toLowerCase().includes(form.product_name.trim().toLowerCase()))
+        .slice(0, 12);
+
+    const inputClass = 'w-full px-4 py-3 rounded-xl border bg-white/60 focus:bg-white transition-all focus:ring-4 focus:ring-[var(--saffron-glow)] outline-none';
+    const labelClass = 'block text-sm font-bold text-[var(--charcoal)] mb-2';
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="bg-white rounded-2xl shadow-lg border-2 border-[var(--sand)] p-8 mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                            Wiederkehrende Angebote
+                        </h1>
+                        <p className="text-base" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                            Vorlagen werden automatisch eine Woche im Voraus als Angebote angelegt
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <select
+                            value={selectedMarketId}
+                            onChange={(e) => setSelectedMarketId(e.target.value)}
+                            className="px-4 py-3 rounded-xl border-2 bg-white cursor-pointer"
+                            style={{ borderColor: 'var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                        >
+                            <option value="">Alle Märkte</option>
+                            {initialMarkets.map(market => (
+                                <option key={market.id} value={market.id}>{market.name} ({market.city})</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleCreateClick}
+                            className="px-6 py-3.5 rounded-xl font-bold transition-all hover:scale-105 hover:shadow-xl cursor-pointer shadow-lg whitespace-nowrap"
+                            style={{ background: 'var(--gradient-warm)', color: 'white', fontFamily: 'var(--font-outfit)' }}
+                        >
+                            + Neue Vorlage
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Create / Edit Form */}
+            {editingId && (
+                <div className="glass-card p-6 space-y-6" style={{ fontFamily: 'var(--font-outfit)' }}>
+                    <h2 className="text-2xl font-bold" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                        {editingId === 'new' ? 'Neue Vorlage' : 'Vorlage bearbeiten'}
+                    </h2>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            <label className={labelClass}>Markt</label>
+                            <select
+                                value={form.market_id}
+                                onChange={e => setForm({ ...form, market_id: e.target.value })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                            >
+                                <option value="">Bitte Markt auswählen</option>
+                                {initialMarkets.map(market => (
+                                    <option key={market.id} value={market.id}>{market.name} ({market.zip_code} {market.city})</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Produktname</label>
+                            <input
+                                type="text"
+                                value={form.product_name}
+                                onChange={e => setForm({ ...form, product_name: e.target.value })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                                placeholder="z.B. Frisches Fladenbrot"
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Preis (€)</label>
+                            <input
+                                type="text"
+                                value={form.price}
+                                onChange={e => setForm({ ...form, price: e.target.value })}
+                                className={`${inputClass} font-mono`}
+                                style={{ borderColor: 'var(--sand)' }}
+                                placeholder="0.99"
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Statt-Preis (€, optional)</label>
+                            <input
+                                type="text"
+                                value={form.regular_price}
+                                onChange={e => setForm({ ...form, regular_price: e.target.value })}
+                                className={`${inputClass} font-mono`}
+                                style={{ borderColor: 'var(--sand)' }}
+                                placeholder="Regulärer Preis"
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Einheit</label>
+                            <input
+                                type="text"
+                                value={form.unit}
+                                onChange={e => setForm({ ...form, unit: e.target.value })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                                placeholder="z.B. kg, Stück, Bund"
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Kategorie</label>
+                            <select
+                                value={form.ai_category}
+                                onChange={e => setForm({ ...form, ai_category: e.target.value })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                            >
+                                <option value="">Bitte wählen...</option>
+                                {CATEGORIES.map(category => (
+                                    <option key={category} value={category}>{category}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {/* Recurrence */}
+                        <div className="md:col-span-2">
+                            <label className={labelClass}>Wochentage</label>
+                            <div className="flex flex-wrap gap-2">
+                                {WEEKDAYS.map(day => (
+                                    <button
+                                        key={day.value}
+                                        type="button"
+                                        onClick={() => toggleWeekday(day.value)}
+                                        className="w-12 h-12 rounded-xl font-bold transition-all cursor-pointer"
+                                        style={{
+                                            background: form.weekdays.includes(day.value) ? 'var(--gradient-warm)' : 'white',
+                                            color: form.weekdays.includes(day.value) ? 'white' : 'var(--charcoal)',
+                                            border: '2px solid var(--sand)'
+                                        }}
+                                    >
+                                        {day.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Rhythmus</label>
+                            <select
+                                value={form.interval_weeks}
+                                onChange={e => setForm({ ...form, interval_weeks: Number(e.target.value) })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                            >
+                                <option value={1}>Jede Woche</option>
+                                <option value={2}>Alle 2 Wochen</option>
+                                <option value={3}>Alle 3 Wochen</option>
+                                <option value={4}>Alle 4 Wochen</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Gültig für (Tage)</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={28}
+                                value={form.duration_days}
+                                onChange={e => setForm({ ...form, duration_days: Number(e.target.value) })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Erstes Datum</label>
+                            <input
+                                type="date"
+                                value={form.starts_on}
+                                onChange={e => setForm({ ...form, starts_on: e.target.value })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Letztes Datum (optional)</label>
+                            <input
+                                type="date"
+                                value={form.ends_on}
+                                onChange={e => setForm({ ...form, ends_on: e.target.value })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Veröffentlichung</label>
+                            <select
+                                value={form.publish_status}
+                                onChange={e => setForm({ ...form, publish_status: e.target.value as 'draft' | 'live' })}
+                                className={inputClass}
+                                style={{ borderColor: 'var(--sand)' }}
+                            >
+                                <option value="draft">Als Entwurf zur Prüfung</option>
+                                <option value="live">Automatisch am Tag veröffentlichen</option>
+                            </select>
+                        </div>
+                        <label className="flex items-center gap-3 cursor-pointer self-end pb-3" style={{ color: 'var(--charcoal)' }}>
+                            <input
+                                type="checkbox"
+                                checked={form.is_active}
+                                onChange={e => setForm({ ...form, is_active: e.target.checked })}
+                                className="w-4 h-4 accent-[var(--saffron)] cursor-pointer"
+                            />
+                            Vorlage aktiv
+                        </label>
+
+                        <div className="md:col-span-2">
+                            <label className={labelClass}>Beschreibung (optional)</label>
+                            <textarea
+                                rows={2}
+                                value={form.description}
+                                onChange={e => setForm({ ...form, description: e.target.value })}
+                                className={`${inputClass} resize-none`}
+                                style={{ borderColor: 'var(--sand)' }}
+                            />
+                        </div>
+
+                        {/* Image */}
+                        <div className="md:col-span-2">
+                            <label className={labelClass}>Bild aus der Bibliothek</label>
+                            {suggestedImages.length === 0 ? (
+                                <p className="text-sm" style={{ color: 'var(--warm-gray)' }}>Keine passenden Bilder gefunden.</p>
+                            ) : (
+                                <div className="grid grid-cols-4 md:grid-cols-6 gap-3">
+                                    {suggestedImages.map(image => (
+                                        <button
+                                            key={image.id}
+                                            type="button"
+                                            onClick={() => setForm({ ...form, image_id: form.image_id === image.id ? null : image.id })}
+                                            className="relative aspect-square rounded-xl overflow-hidden cursor-pointer transition-all"
+                                            style={{ border: form.image_id === image.id ? '3px solid var(--saffron)' : '2px solid var(--sand)' }}
+                                            title={image.product_name}
+                                        >
+                                            <Image src={image.url} alt={image.product_name} fill sizes="100px" className="object-cover" />
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                        <button
+                            onClick={handleCancel}
+                            className="px-6 py-3 rounded-xl font-semibold transition-all hover:bg-black/5 cursor-pointer"
+                            style={{ color: 'var(--charcoal)', border: '2px solid var(--sand)' }}
+                        >
+                            Abbrechen
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="px-6 py-3 rounded-xl font-bold transition-all hover:scale-105 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                            style={{ background: 'var(--gradient-warm)', color: 'white' }}
+                        >
+                            {saving ? 'Wird gespeichert...' : 'Speichern'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Template List */}
+            {loading ? (
+                <div className="flex items-center justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-[var(--saffron)] border-t-transparent"></div>
+                </div>
+            ) : templates.length === 0 ? (
+                <div className="glass-card p-12 text-center">
+                    <h3 className="text-xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                        Noch keine Vorlagen
+                    </h3>
+                    <p style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                        Lege Angebote, die sich jede Woche wiederholen, einmal als Vorlage an.
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {templates.map(template => (
+                        <div
+                            key={template.id}
+                            className="glass-card p-4 flex flex-col sm:flex-row sm:items-center gap-4"
+                            style={{ fontFamily: 'var(--font-outfit)', opacity: template.is_active ? 1 : 0.6 }}
+                        >
+                            <div className="relative w-14 h-14 rounded-xl overflow-hidden shrink-0 border border-[var(--sand)]" style={{ background: '#f8f5f0' }}>
+                                {template.image_library?.url && (
+                                    <Image src={template.image_library.url} alt="" fill sizes="56px" className="object-cover" />
+                                )}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold truncate" style={{ color: 'var(--charcoal)' }}>
+                                    {template.product_name}
+                                    <span className="font-normal" style={{ color: 'var(--warm-gray)' }}> · {template.markets?.name || 'Unbekannter Markt'}</span>
+                                </p>
+                                <p className="text-sm" style={{ color: 'var(--warm-gray)' }}>
+                                    {template.price} €{template.unit && ` / ${template.unit}`} · {describeRecurrence(template)} · {template.duration_days === 1 ? '1 Tag' : `${template.duration_days} Tage`} gültig
+                                </p>
+                                <p className="text-xs" style={{ color: 'var(--warm-gray)' }}>
+                                    {template.publish_status === 'live' ? 'Wird automatisch veröffentlicht' : 'Wird als Entwurf angelegt'}
+                                    {template.ends_on && ` · bis ${new Date(template.ends_on).toLocaleDateString('de-DE')}`}
+                                    {!template.is_active && ' · pausiert'}
+                                </p>
+                            </div>
+                            <div className="flex flex-wrap gap-2 shrink-0">
+                                <button
+                                    onClick={() => handleEditClick(template)}
+                                    className="px-4 py-2 rounded-xl text-sm font-semibold transition-all hover:bg-black/5 cursor-pointer"
+                                    style={{ color: 'var(--charcoal)', border: '2px solid var(--sand)' }}
+                                >
+                                    Bearbeiten
+                                </button>
+                                <button
+                                    onClick={() => handleToggleActive(template)}
+                                    disabled={busyId === template.id}
+                                    className="px-4 py-2 rounded-xl text-sm font-semibold transition-all hover:bg-black/5 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                    style={{ color: 'var(--charcoal)', border: '2px solid var(--sand)' }}
+                                >
+                                    {template.is_active ? 'Pausieren' : 'Aktivieren'}
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(template)}
+                                    disabled={busyId === template.id}
+                                    className="px-4 py-2 rounded-xl text-sm font-semibold transition-all hover:opacity-80 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                    style={{ background: 'rgba(216, 99, 78, 0.1)', color: 'var(--terracotta)' }}
+                                >
+                                    Löschen
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
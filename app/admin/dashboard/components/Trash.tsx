@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { createClient } from '@/utils/supabase/client';
+import { restoreOffer } from '@/app/actions/offers';
+import { restoreMarket } from '@/app/actions/markets';
+import { restoreLibraryImage } from '@/app/actions/library';
+
+type TrashKind = 'offer' | 'market' | 'image';
+
+interface TrashItem {
+    kind: TrashKind;
+    id: string;
+    label: string;
+    details: string;
+    imageUrl: string | null;
+    deleted_at: string;
+    // Offers of a trashed market can only be restored after the market
+    marketTrashed: boolean;
+}
+
+interface TrashProps {
+    retentionDays: number;
+    showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// How many trashed rows are loaded per kind
+const TRASH_LIMIT = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const KIND_LABELS: Record<TrashKind, string> = {
+    offer: 'Angebot',
+    market: 'Markt',
+    image: 'Bild',
+};
+
+const formatDate = (value: string | number) => new Date(value).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+});
+
+/**
+ * Deleted offers, markets and library images until they are purged, with restore buttons
+ */
+export default function Trash({ retentionDays, showToast }: TrashProps) {
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [kindFilter, setKindFilter] = useState<TrashKind | ''>('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const supabase = createClient();
+
+    const fetchItems = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [offersResult, marketsResult, imagesResult] = await Promise.all([
+                supabase
+                    .from('offers')
+                    .select('id, product_name, price, unit, deleted_at, markets(name, city, deleted_at), image_library(url)')
+                    .not('deleted_at', 'is', null)
+                    .order('deleted_at', { ascending: false })
+                    .limit(TRASH_LIMIT),
+                supabase
+                    .from('markets')
+                    .select('id, name, city, logo_url, deleted_at')
+                    .not('deleted_at', 'is', null)
+                    .order('deleted_at', { ascending: false })
+                    .limit(TRASH_LIMIT),
+                supabase
+                    .from('image_library')
+                    .select('id, url, product_name, deleted_at')
+                    .not('deleted_at', 'is', null)
+                    .order('deleted_at', { ascending: false })
+                    .limit(TRASH_LIMIT),
+            ]);
+
+            const error = offersResult.error || marketsResult.error || imagesResult.error;
+            if (error) {
+                console.error('Error fetching trash:', error);
+                showToast('Fehler beim Laden des Papierkorbs: ' + error.message, 'error');
+                return;
+            }
+
+            const offers: TrashItem[] = (offersResult.data || []).map(offer => {
+                const market = offer.markets as unknown as { name: string; city: string; deleted_at: string | null } | null;
+                const image = offer.image_library as unknown as { url: string } | null;
+                return {
+                    kind: 'offer',
+                    id: offer.id,
+                    label: offer.product_name,
+                    details: `${offer.price} €${offer.unit ? ` / ${offer.unit}` : ''}${market ? ` · ${market.name} (${market.city})` : ''}`,
+                    imageUrl: image?.url || null,
+                    deleted_at: offer.deleted_at,
+                    marketTrashed: Boolean(market?.deleted_at),
+                };
+            });
+            const markets: TrashItem[] = (marketsResult.data || []).map(market => ({
+                kind: 'market',
+                id: market.id,
+                label: market.name,
+                details: market.city,
+                imageUrl: market.logo_url,
+                deleted_at: market.deleted_at,
+                marketTrashed: false,
+            }));
+            const images: TrashItem[] = (imagesResult.data || []).map(image => ({
+                kind: 'image',
+                id: image.id,
+                label: image.product_name,
+                details: 'Bildbibliothek',
+                imageUrl: image.url,
+                deleted_at: image.deleted_at,
+                marketTrashed: false,
+            }));
+
+            setItems([...offers, ...markets, ...images].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at)));
+        } catch (err) {
+            console.error('Unexpected error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [supabase, showToast]);
+
+    useEffect(() => {
+        fetchItems();
+    }, [fetchItems]);
+
+    const handleRestore = async (item: TrashItem) => {
+        setBusyId(item.id);
+        try {
+            const result = item.kind === 'offer'
+                ? await restoreOffer(item.id)
+                : item.kind === 'market'
+                    ? await restoreMarket(item.id)
+                    : await restoreLibraryImage(item.id);
+
+            if (!result.success) {
+                showToast(result.error || 'Fehler beim Wiederherstellen', 'error');
+            } else {
+                showToast(`„${item.label}“ wurde wiederhergestellt!`, 'success');
+                // Restoring a market also brings back its offers
+                await fetchItems();
+            }
+        } catch (err) {
+            console.error(err);
+            showToast('Ein unerwarteter Fehler ist aufgetreten.', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const filteredItems = items.filter(item => !kindFilter || item.kind === kindFilter);
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="bg-white rounded-2xl shadow-lg border-2 border-[var(--sand)] p-8 mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                            Papierkorb
+                        </h1>
+                        <p className="text-base" style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                            Gelöschte Angebote, Märkte und Bilder – nach {retentionDays} Tagen werden sie endgültig entfernt
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <select
+                            value={kindFilter}
+                            onChange={(e) => setKindFilter(e.target.value as TrashKind | '')}
+                            className="px-4 py-3 rounded-xl border-2 bg-white cursor-pointer"
+                            style={{ borderColor: 'var(--sand)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                        >
+                            <option value="">Alles</option>
+                            <option value="offer">Angebote</option>
+                            <option value="market">Märkte</option>
+                            <option value="image">Bilder</option>
+                        </select>
+                        <button
+                            onClick={() => fetchItems()}
+                            className="px-6 py-3.5 rounded-xl font-bold transition-all hover:scale-105 hover:shadow-xl cursor-pointer flex items-center gap-3 shadow-lg whitespace-nowrap"
+                            style={{ background: 'linear-gradient(135deg, var(--sand) 0%, rgba(217, 201, 166, 0.7) 100%)', color: 'var(--charcoal)', fontFamily: 'var(--font-outfit)' }}
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                            Aktualisieren
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-[var(--saffron)] border-t-transparent"></div>
+                </div>
+            ) : filteredItems.length === 0 ? (
+                <div className="glass-card p-12 text-center">
+                    <h3 className="text-xl font-bold mb-2" style={{ fontFamily: 'var(--font-playfair)', color: 'var(--charcoal)' }}>
+                        Der Papierkorb ist leer
+                    </h3>
+                    <p style={{ color: 'var(--warm-gray)', fontFamily: 'var(--font-outfit)' }}>
+                        Gelöschte Angebote, Märkte und Bilder landen hier und können wiederhergestellt werden.
+                    </p>
+                </div>
+            ) : (
+                <div className="glass-card p-6 space-y-3">
+                    {filteredItems.map(item => (
+                        <div key={`${item.kind}-${item.id}`} className="flex flex-col sm:flex-row sm:items-center gap-4 p-3 rounded-xl bg-white border border-[var(--sand)]" style={{ fontFamily: 'var(--font-outfit)' }}>
+                            <div className="relative w-14 h-14 rounded-xl overflow-hidden shrink-0 border border-[var(--sand)]">
+                                <Image
+                                    src={item.imageUrl || 'https://images.unsplash.com/photo-1573246123716-6b1782bfc499?auto=format&fit=crop&q=80&w=100'}
+                                    alt=""
+                                    fill
+                                    sizes="56px"
+                                    className="object-cover"
+                                />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold truncate" style={{ color: 'var(--charcoal)' }}>
+                                    <span className="mr-2 px-2 py-0.5 rounded-full text-xs font-bold" style={{ color: 'var(--warm-gray)', background: 'rgba(217, 201, 166, 0.4)' }}>
+                                        {KIND_LABELS[item.kind]}
+                                    </span>
+                                    {item.label}
+                                </p>
+                                <p className="text-sm truncate" style={{ color: 'var(--warm-gray)' }}>{item.details}</p>
+                                <p className="text-xs" style={{ color: 'var(--warm-gray)' }}>
+                                    Gelöscht am {formatDate(item.deleted_at)} · wird am {formatDate(new Date(item.deleted_at).getTime() + retentionDays * DAY_MS)} endgültig entfernt
+                                </p>
+                            </div>
+                            {item.marketTrashed ? (
+                                <span className="text-xs text-right" style={{ color: 'var(--warm-gray)' }}>
+                                    Zuerst den Markt wiederherstellen
+                                </span>
+                            ) : (
+                                <button
+                                    onClick={() => handleRestore(item)}
+                                    disabled={busyId === item.id}
+                                    className="px-4 py-2 rounded-xl text-sm font-bold transition-all hover:scale-105 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                                    style={{ background: 'var(--gradient-warm)', color: 'white' }}
+                                >
+                                    {busyId === item.id ? 'Wird wiederhergestellt...' : 'Wiederherstellen'}
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,6 +2,13 @@ export { default as MarketManager } from './MarketManager';
 export { default as TeamManagement } from './TeamManagement';
 export { default as OfferReview } from './OfferReview';
 export { default as OfferManagement } from './OfferManagement';
+export { default as OfferArchive } from './OfferArchive';
+export { default as OfferTemplates } from './OfferTemplates';
+export { default as FailedMessages } from './FailedMessages';
+export { default as ConversationLog } from './ConversationLog';
+export { default as AuditLog } from './AuditLog';
+export { default as AuditHistory } from './AuditHistory';
+export { default as Trash } from './Trash';
 export { default as Toast } from './Toast';
 
 export * from './types';
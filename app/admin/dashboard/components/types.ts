@@ -2,6 +2,13 @@
 
 export type UserRole = 'superadmin' | 'admin' | 'user';
 
+export type MarketMemberRole = 'owner' | 'employee';
+
+export interface MarketMember {
+    phone_number: string;
+    role: MarketMemberRole;
+}
+
 export interface Market {
     id: string;
     slug: string;
@@ -13,6 +20,7 @@ export interface Market {
     longitude: number | null;
     customer_phone: string | null;
     whatsapp_numbers: string[];
+    market_members?: MarketMember[];
     header_url: string | null;
     logo_url: string | null;
     about_text: string | null;
@@ -20,6 +28,10 @@ export interface Market {
     opening_hours: { day: string; time: string }[] | null;
     is_premium: boolean;
     is_active: boolean;
+    auto_publish_enabled: boolean;
+    auto_publish_min_confidence: number;
+    auto_publish_min_price: number;
+    auto_publish_max_price: number;
     created_at: string;
 }
 
@@ -39,13 +51,17 @@ export interface MarketFormData {
     latitude: string;
     longitude: string;
     customer_phone: string;
-    whatsapp_numbers: string[];
+    whatsapp_members: MarketMember[];
     header_url: string;
     logo_url: string;
     about_text: string;
     features: string[];
     opening_hours: { day: string; time: string }[];
     is_premium: boolean;
+    auto_publish_enabled: boolean;
+    auto_publish_min_confidence: string;
+    auto_publish_min_price: string;
+    auto_publish_max_price: string;
 }
 
 export interface ToastState {
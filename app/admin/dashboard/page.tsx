@@ -1,5 +1,6 @@
 import { createClient } from '@/utils/supabase/server';
 import { redirect } from 'next/navigation';
+import { getTrashRetentionDays } from '@/lib/trash';
 import DashboardClient from './DashboardClient';
 
 // Role type definition
@@ -50,7 +51,8 @@ export default async function AdminDashboardPage({ params, searchParams }: PageP
     // Fetch initial page of markets (15 items) with premium priority
     const { data: markets, error, count } = await supabase
         .from('markets')
-        .select('*', { count: 'exact' })
+        .select('*, market_members(phone_number, role)', { count: 'exact' })
+        .is('deleted_at', null)
         .order('is_premium', { ascending: false })
         .order('created_at', { ascending: false })
         .range(0, 14); // First 15 items (0-14)
@@ -93,6 +95,7 @@ export default async function AdminDashboardPage({ params, searchParams }: PageP
             userId={user.id}
             initialTeamMembers={teamMembers}
             initialUsers={regularUsers}
+            trashRetentionDays={getTrashRetentionDays()}
         />
     );
 }
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { materializeOfferTemplates } from '@/lib/offerTemplates';
+
+/**
+ * Cron job endpoint to create the offers of recurring offer templates
+ * Runs every hour and creates the occurrences of the coming week that don't exist yet
+ */
+export async function GET(request: NextRequest) {
+    // Verify the request is from Vercel Cron
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Cron] Unauthorized request - missing or invalid CRON_SECRET');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const created = await materializeOfferTemplates();
+
+        return NextResponse.json({
+            created,
+            timestamp: new Date().toISOString()
+        });
+    } catch (err) {
+        console.error('[Cron] Failed to materialize offer templates:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,10 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllReadyPendingMessages } from '@/lib/pendingMessages';
-import { processPendingMessage } from '@/lib/messageProcessor';
+import { claimReadyBatches } from '@/lib/pendingMessages';
+import { claimDueFailedBatches } from '@/lib/failedMessages';
+import { purgeProcessedMessageIds } from '@/lib/processedMessages';
+import { purgeParkedMessages } from '@/lib/marketSelection';
+import { processPendingMessage, processFailedBatch } from '@/lib/messageProcessor';
+
+// PDF flyers are extracted page by page, which can take minutes. Stays below the 5-minute
+// stale claim in lib/pendingMessages.ts, so a batch is only reclaimed once this run is gone;
+// the next run then continues after the last extracted page.
+export const maxDuration = 240;
 
 /**
  * Cron job endpoint to process pending WhatsApp messages
- * Runs every minute to check for messages that have been waiting 15+ seconds
+ * Runs every minute to check for senders whose buffered messages have been waiting 15+ seconds
+ * and to retry failed batches from the dead-letter queue whose backoff has passed.
+ * It also prunes the processed-message ledger of wamids Meta can no longer retry and
+ * drops parked messages of senders who never chose a branch.
  *
  * This replaces the previous setTimeout-based approach which doesn't work
  * in serverless environments where functions terminate after returning.
@@ -22,45 +33,61 @@ export async function GET(request: NextRequest) {
     console.log('[Cron] Starting pending messages processing...');
 
     try {
-        // Get all messages ready to process
-        const { success, messages, error } = await getAllReadyPendingMessages();
+        // A failed cleanup must not hold up message processing
+        await purgeProcessedMessageIds().catch(err => {
+            console.error('[Cron] Failed to purge processed message IDs:', err);
+        });
+        await purgeParkedMessages().catch(err => {
+            console.error('[Cron] Failed to purge parked messages:', err);
+        });
+
+        // Claim all batches ready to process
+        const { success, batches, error } = await claimReadyBatches();
 
         if (!success) {
-            console.error('[Cron] Failed to fetch ready messages:', error);
+            console.error('[Cron] Failed to claim ready batches:', error);
             return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
         }
 
-        if (messages.length === 0) {
+        // Claim failed batches whose next retry is due
+        const failedBatches = await claimDueFailedBatches();
+
+        if (batches.length === 0 && failedBatches.length === 0) {
             console.log('[Cron] No messages ready to process');
             return NextResponse.json({ processed: 0, message: 'No messages ready' });
         }
 
-        console.log(`[Cron] Processing ${messages.length} ready message(s)...`);
+        console.log(`[Cron] Processing ${batches.length} ready batch(es) and ${failedBatches.length} retry(s)...`);
 
-        // Process each message
+        // Process each batch
         const results = await Promise.allSettled(
-            messages.map(async (msg) => {
-                console.log(`[Cron] Processing message ${msg.id} from ${msg.sender_number}`);
-                return processPendingMessage({
-                    id: msg.id,
-                    sender_number: msg.sender_number,
-                    market_id: msg.market_id,
-                    caption: msg.caption,
-                    image_url: msg.image_url
-                });
+            batches.map(async (batch) => {
+                console.log(`[Cron] Processing batch ${batch.batch_id} (${batch.messages.length} message(s)) from ${batch.sender_number}`);
+                return processPendingMessage(batch);
+            })
+        );
+
+        // Retry each failed batch
+        const retryResults = await Promise.allSettled(
+            failedBatches.map(async (failedBatch) => {
+                console.log(`[Cron] Retrying failed batch ${failedBatch.id} (attempt ${failedBatch.attempt_count + 1}) from ${failedBatch.sender_number}`);
+                return processFailedBatch(failedBatch);
             })
         );
 
         // Count successes and failures
         const succeeded = results.filter(r => r.status === 'fulfilled' && (r.value as any).success).length;
         const failed = results.length - succeeded;
+        const retriesSucceeded = retryResults.filter(r => r.status === 'fulfilled' && r.value.success).length;
 
-        console.log(`[Cron] Completed: ${succeeded} succeeded, ${failed} failed`);
+        console.log(`[Cron] Completed: ${succeeded} succeeded, ${failed} failed, ${retriesSucceeded}/${retryResults.length} retries succeeded`);
 
         return NextResponse.json({
-            processed: messages.length,
+            processed: batches.length,
             succeeded,
             failed,
+            retried: retryResults.length,
+            retriesSucceeded,
             timestamp: new Date().toISOString()
         });
     } catch (err) {
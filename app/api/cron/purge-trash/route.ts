@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeTrash } from '@/lib/trash';
+
+/**
+ * Cron job endpoint to empty the trash
+ * Runs once a day and deletes offers, markets and library images that stayed in the trash
+ * longer than the retention period (TRASH_RETENTION_DAYS)
+ */
+export async function GET(request: NextRequest) {
+    // Verify the request is from Vercel Cron
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Cron] Unauthorized request - missing or invalid CRON_SECRET');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const purged = await purgeTrash();
+
+        return NextResponse.json({
+            ...purged,
+            timestamp: new Date().toISOString()
+        });
+    } catch (err) {
+        console.error('[Cron] Failed to purge trash:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
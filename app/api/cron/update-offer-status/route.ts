@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateOfferStatuses } from '@/lib/offerSchedule';
+
+/**
+ * Cron job endpoint to move offers through their validity window
+ * Runs every five minutes: scheduled offers whose start date has passed go live,
+ * live offers whose expiry date has passed are set to expired
+ */
+export async function GET(request: NextRequest) {
+    // Verify the request is from Vercel Cron
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Cron] Unauthorized request - missing or invalid CRON_SECRET');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { started, expired } = await updateOfferStatuses();
+
+        return NextResponse.json({
+            started,
+            expired,
+            timestamp: new Date().toISOString()
+        });
+    } catch (err) {
+        console.error('[Cron] Failed to update offer statuses:', err);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
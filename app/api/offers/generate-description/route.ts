@@ -1,12 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { createClient } from '@/utils/supabase/server';
-
-// Initialize OpenAI client with OpenRouter
-const openai = new OpenAI({
-    apiKey: process.env.OPENROUTER_API_KEY,
-    baseURL: 'https://openrouter.ai/api/v1',
-});
+import { getLlmModel, getLlmProvider } from '@/lib/llm';
 
 export async function POST(request: NextRequest) {
     try {
@@ -30,8 +24,8 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const response = await openai.chat.completions.create({
-            model: 'google/gemini-3-flash-preview',
+        const response = await getLlmProvider('description').chat({
+            model: getLlmModel('description'),
             messages: [
                 {
                     role: 'system',
@@ -56,10 +50,10 @@ Generate a short German description.`,
                 },
             ],
             temperature: 0.7,
-            max_tokens: 100,
+            maxTokens: 100,
         });
 
-        const description = response.choices[0]?.message?.content?.trim();
+        const description = response.ok ? response.text.trim() : '';
 
         if (!description) {
             return NextResponse.json(
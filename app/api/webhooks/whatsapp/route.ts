@@ -1,7 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServiceClient } from '@/utils/supabase/service';
+import { claimMessageId, completeMessageId, releaseMessageId } from '@/lib/processedMessages';
+import { sendWhatsAppText } from '@/lib/whatsappMessages';
+import { getWhatsAppMediaUrl } from './media';
+import { getBotTranslator, getSenderLocale } from '@/lib/whatsappLanguage';
+import { findMembershipsByNumber, type MarketMembership } from '@/lib/marketMembers';
+import { askForBranch, getSelectedBranches, isSwitchBranchRequest, parseBranchChoice, releaseParkedMessage, saveBranchChoice } from '@/lib/marketSelection';
 import crypto from 'crypto';
 
+/**
+ * A single message from the `value.messages` array of Meta's webhook payload
+ */
+interface WebhookMessage {
+    id: string;
+    from: string;
+    type: string;
+    text?: { body?: string };
+    image?: { id?: string; caption?: string };
+    audio?: { id?: string; mime_type?: string; voice?: boolean };
+    document?: { id?: string; mime_type?: string; filename?: string; caption?: string };
+    interactive?: {
+        type: string;
+        button_reply?: { id: string; title: string };
+        list_reply?: { id: string; title: string };
+    };
+}
+
+interface WebhookContact {
+    wa_id: string;
+}
+
 /**
  * Verify Meta webhook signature to ensure request is authentic
  * @see https://developers.facebook.com/docs/graph-api/webhooks/getting-started#verification-requests
@@ -77,9 +104,6 @@ export async function POST(request: NextRequest) {
         return new Response('Unauthorized', { status: 401 });
     }
 
-    // Use service_role client to bypass RLS (needed to check all markets including inactive)
-    const supabase = createServiceClient();
-
     // Parse request body with error handling
     let body;
     try {
@@ -89,215 +113,305 @@ export async function POST(request: NextRequest) {
         return new Response('Invalid JSON', { status: 400 });
     }
 
-    // Extract message details from Meta's webhook payload structure
-    const entry = body.entry?.[0];
-    const changes = entry?.changes?.[0];
-    const value = changes?.value;
+    // Meta can deliver several entries, changes and messages in one request - handle every one of them
+    let allHandled = true;
+
+    for (const entry of body.entry || []) {
+        for (const change of entry.changes || []) {
+            const value = change.value;
+
+            // Status updates (delivered, read receipts) carry no messages and are skipped here
+            for (const message of value?.messages || []) {
+                const handled = await handleMessageOnce(message, value.contacts || []);
+                if (!handled) {
+                    allHandled = false;
+                }
+            }
+        }
+    }
 
-    // Ignore status updates (delivered, read receipts) - only process actual messages
-    if (value?.statuses) {
-        return NextResponse.json({ ok: true });
+    if (!allHandled) {
+        // Let Meta retry - the failed messages were released from the ledger
+        return new Response('Error processing message', { status: 500 });
     }
 
-    // Only process if messages exist
-    const messages = value?.messages;
-    if (!messages || messages.length === 0) {
-        return NextResponse.json({ ok: true });
+    // Return immediate 200 OK to Meta
+    return new Response('Success', { status: 200 });
+}
+
+/**
+ * Handle a message exactly once, keyed on its WhatsApp message ID (wamid)
+ * Meta retries deliveries, so the wamid is claimed in the processed-message ledger first
+ * and marked done afterwards; a claim left behind by a killed function can be reclaimed
+ * @returns false if handling failed and Meta should retry
+ */
+async function handleMessageOnce(
+    message: WebhookMessage,
+    contacts: WebhookContact[]
+): Promise<boolean> {
+    const { claimed, error } = await claimMessageId(message.id);
+
+    if (error) {
+        console.error('Error claiming message ID:', message.id, error);
+        return false;
     }
 
-    const message = messages[0];
-    const messageId = message.id; // WhatsApp message ID (wamid)
-    const type = message.type; // 'text', 'image', etc.
+    if (!claimed) {
+        console.log('⏭️ Skipping already processed message:', message.id);
+        return true;
+    }
+
+    let handled = false;
+    try {
+        handled = await handleMessage(message, contacts);
+    } catch (err) {
+        console.error('Error handling message:', message.id, err);
+    }
+
+    if (handled) {
+        await completeMessageId(message.id);
+    } else {
+        await releaseMessageId(message.id);
+    }
+
+    return handled;
+}
+
+/**
+ * Authorize the sender of a single message and route it to commands or the waiting room
+ * @returns false if the message could not be stored and Meta should retry
+ */
+async function handleMessage(
+    message: WebhookMessage,
+    contacts: WebhookContact[]
+): Promise<boolean> {
+    // The contact entry belonging to this message (a delivery can contain several senders)
+    const contact = contacts.find(c => c.wa_id === message.from) || contacts[0];
 
     // EXTRACT SENDER NUMBER: Use wa_id from contacts (canonical WhatsApp ID from Meta)
     // This is the most reliable field for the sender's phone number
-    const senderNumber = value?.contacts?.[0]?.wa_id || message.from;
+    const senderNumber = contact?.wa_id || message.from;
 
     console.log('=== AUTHORIZATION DEBUG ===');
     console.log('Raw sender (message.from):', message.from);
-    console.log('Canonical sender (wa_id):', value?.contacts?.[0]?.wa_id);
+    console.log('Canonical sender (wa_id):', contact?.wa_id);
     console.log('Using senderNumber:', senderNumber);
 
     // NORMALIZE PHONE NUMBER: Remove '+' prefix and any spaces for consistent matching
     const normalizedSender = senderNumber.replace(/^\+/, '').replace(/\s/g, '');
     console.log('Normalized sender:', normalizedSender);
 
-    // AUTHORIZATION CHECK: Verify sender is from an authorized market
-    // Query ALL markets (both active and inactive) to distinguish between:
-    // 1. Unregistered number (no market found) -> Send "access denied"
+    // AUTHORIZATION CHECK: Verify sender is a member of an authorized market
+    // Query memberships of ALL markets (both active and inactive) to distinguish between:
+    // 1. Unregistered number (no membership found) -> Send "access denied"
     // 2. Inactive market (market found but is_active=false) -> Send "account paused"
-    console.log('Querying markets table with contains:', [normalizedSender]);
+    console.log('Querying market_members for number:', normalizedSender);
 
-    const { data: market, error: marketError } = await supabase
-        .from('markets')
-        .select('id, name, is_active, whatsapp_numbers')
-        .contains('whatsapp_numbers', [normalizedSender])
-        .maybeSingle();
+    // Throws on database errors - the claim is then released and Meta's retry authorizes again
+    const memberships = await findMembershipsByNumber(normalizedSender);
 
-    if (marketError) {
-        console.error('Market query error:', marketError);
-    }
-
-    if (market) {
-        console.log('✅ Market found:', market.name, '| Active:', market.is_active);
-        console.log('Authorized numbers for this market:', market.whatsapp_numbers);
-    }
-
-    if (!market) {
+    if (memberships.length === 0) {
         console.log('❌ UNAUTHORIZED - No market found for number:', normalizedSender);
 
-        // Send WhatsApp reply to unauthorized sender
-        try {
-            const response = await fetch(`https://graph.facebook.com/v17.0/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    messaging_product: 'whatsapp',
-                    recipient_type: 'individual',
-                    to: senderNumber,
-                    type: 'text',
-                    text: {
-                        preview_url: false,
-                        body: "🚫 Zugriff verweigert: Dieser WhatsApp-Service ist registrierten Ladenbesitzern vorbehalten.\n\nWenn Sie Partner sind und glauben, dass dies ein Fehler ist, kontaktieren Sie bitte den Support. Wenn Sie beitreten möchten, besuchen Sie unsere Website: http://www.bereket.market"
-                    }
-                })
-            });
-
-            const responseData = await response.json();
-            console.log('META RESPONSE BODY:', JSON.stringify(responseData, null, 2));
+        // Send WhatsApp reply to unauthorized sender - no language preference is known without a market
+        if (await sendWhatsAppText(senderNumber, getBotTranslator()('access.denied'))) {
             console.log('Sent access denied message to:', senderNumber);
-        } catch (replyError) {
-            console.error('Error sending WhatsApp reply:', replyError);
         }
 
-        // Return 200 OK to prevent Meta retries
-        return new Response('Success', { status: 200 });
+        // Handled - a retry from Meta would not change anything
+        return true;
     }
 
-    // CHECK IF MARKET IS ACTIVE (after confirming market exists)
-    if (!market.is_active) {
-        console.log('⏸️ INACTIVE MARKET - Account paused:', market.name);
+    // CHECK IF MARKET IS ACTIVE (after confirming a membership exists)
+    const activeMemberships = memberships.filter(membership => membership.market.is_active);
+
+    if (activeMemberships.length === 0) {
+        console.log('⏸️ INACTIVE MARKET - Account paused:', memberships.map(membership => membership.market.name));
 
         // Send WhatsApp reply to inactive market
-        try {
-            const response = await fetch(`https://graph.facebook.com/v17.0/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    messaging_product: 'whatsapp',
-                    recipient_type: 'individual',
-                    to: senderNumber,
-                    type: 'text',
-                    text: {
-                        preview_url: true,
-                        body: "⏸️ Ihr Account ist aktuell pausiert. Bitte kontaktieren Sie Ihren Berater.\n\nBesuchen Sie unsere Website: http://www.bereket.market"
-                    }
-                })
-            });
-
-            const responseData = await response.json();
-            console.log('META RESPONSE BODY:', JSON.stringify(responseData, null, 2));
+        const t = getBotTranslator(await getSenderLocale(memberships[0].market.id, normalizedSender));
+        if (await sendWhatsAppText(senderNumber, t('access.paused'), { previewUrl: true })) {
             console.log('Sent account paused message to:', senderNumber);
-        } catch (replyError) {
-            console.error('Error sending WhatsApp reply:', replyError);
         }
 
-        // Return 200 OK to prevent Meta retries
-        return new Response('Success', { status: 200 });
+        // Handled - a retry from Meta would not change anything
+        return true;
     }
 
-    console.log('Message recognized from authorized market: ' + market.name);
+    if (activeMemberships.length === 1) {
+        return routeMessage(message, normalizedSender, activeMemberships);
+    }
 
     // =========================================================================
-    // WAITING ROOM INTEGRATION: Add message to pending_messages for merging
+    // BRANCH SELECTION: The number belongs to several markets
     // =========================================================================
 
+    console.log('🏪 Number is registered for several markets:', activeMemberships.map(membership => membership.market.name));
+
+    const t = getBotTranslator(await getSenderLocale(activeMemberships[0].market.id, normalizedSender));
+
+    const choice = parseBranchChoice(message, activeMemberships);
+    if (choice) {
+        // Route what the sender sent before answering, now that the branch is known
+        const parkedMessages = await saveBranchChoice<WebhookMessage>(normalizedSender, choice, t);
+        let allRouted = true;
+        for (const parked of parkedMessages) {
+            if (await routeMessage(parked.message, normalizedSender, choice)) {
+                await releaseParkedMessage(parked.id);
+            } else {
+                // Stays parked - Meta's retry of the choice routes it again
+                console.error('Error routing parked message:', parked.message.id);
+                allRouted = false;
+            }
+        }
+        return allRouted;
+    }
+
+    if (isSwitchBranchRequest(message)) {
+        return askForBranch(normalizedSender, activeMemberships, null, t);
+    }
+
+    const selectedBranches = await getSelectedBranches(normalizedSender, activeMemberships);
+    if (!selectedBranches) {
+        return askForBranch(normalizedSender, activeMemberships, message, t);
+    }
+
+    return routeMessage(message, normalizedSender, selectedBranches);
+}
+
+/**
+ * Route a message of an authorized sender to commands or the waiting room
+ * @param branches - The markets the message is for; several when an owner chose "alle Filialen"
+ * @returns false if the message could not be stored and Meta should retry
+ */
+async function routeMessage(
+    message: WebhookMessage,
+    normalizedSender: string,
+    branches: MarketMembership[]
+): Promise<boolean> {
+    const messageId = message.id; // WhatsApp message ID (wamid)
+    const type = message.type; // 'text', 'image', etc.
+    // Commands, conversation log and the buffer batch go to the first branch
+    const { market, role } = branches[0];
+
+    console.log('✅ Message recognized from authorized market:', branches.map(branch => branch.market.name).join(', '), '| Role:', role);
+
+    // Keep every inbound message in the conversation log of its markets, before it is routed anywhere
+    const { logConversationEvent } = await import('@/lib/conversationLog');
+
+    await Promise.all(branches.map(branch => logConversationEvent({
+        marketId: branch.market.id,
+        senderNumber: normalizedSender,
+        type: 'inbound_message',
+        wamid: messageId,
+        summary: message.text?.body
+            || message.image?.caption
+            || message.document?.filename
+            || message.interactive?.button_reply?.title
+            || message.interactive?.list_reply?.title
+            || `[${type}]`,
+        details: {
+            message_type: type,
+            text: message.text?.body ?? null,
+            image: message.image ?? null,
+            document: message.document ?? null,
+            interactive: message.interactive ?? null
+        }
+    })));
+
+    // =========================================================================
+    // REPLY COMMANDS: Corrections/cancellations of the sender's latest draft
+    // =========================================================================
+
+    const { handleWhatsAppCommand } = await import('@/lib/whatsappCommands');
+
+    const handledAsCommand = await handleWhatsAppCommand(message, {
+        senderNumber: normalizedSender,
+        marketId: market.id,
+        role
+    });
+
+    if (handledAsCommand) {
+        console.log('✅ Message handled as reply command');
+        return true;
+    }
+
+    // =========================================================================
+    // WAITING ROOM INTEGRATION: Append message to the sender's buffer
+    // =========================================================================
+
+    // Only text, image, voice and document (PDF flyer) messages can carry an offer
+    if (type !== 'text' && type !== 'image' && type !== 'audio' && type !== 'document') {
+        console.log('Ignoring unsupported message type:', type);
+        return true;
+    }
+
     // Extract message content
-    let caption: string | null = null;
+    let text: string | null = null;
     let imageUrl: string | null = null;
+    let mediaId: string | null = null;
+    let fileName: string | null = null;
 
     if (type === 'text') {
-        caption = message.text?.body || null;
+        text = message.text?.body || null;
     } else if (type === 'image') {
-        caption = message.image?.caption || null;
+        text = message.image?.caption || null;
         const imageId = message.image?.id;
+        mediaId = imageId || null;
 
         // Get image URL from WhatsApp
         if (imageId) {
-            try {
-                imageUrl = await getWhatsAppMediaUrl(imageId);
-                console.log('📸 Image URL obtained:', imageUrl ? 'Yes' : 'No');
-            } catch (err) {
-                console.error('Error getting image URL:', err);
-            }
+            imageUrl = await getWhatsAppMediaUrl(imageId);
+            console.log('📸 Image URL obtained:', imageUrl ? 'Yes' : 'No');
         }
+    } else if (type === 'audio') {
+        // Voice notes are transcribed when the batch is processed, so only the media ID is kept
+        mediaId = message.audio?.id || null;
+
+        if (!mediaId) {
+            console.log('Ignoring voice message without media ID');
+            return true;
+        }
+    } else if (type === 'document') {
+        // PDF flyers are split into pages and extracted when the batch is processed
+        if (message.document?.mime_type !== 'application/pdf' || !message.document.id) {
+            console.log('Ignoring non-PDF document:', message.document?.mime_type);
+            return true;
+        }
+
+        text = message.document.caption || null;
+        mediaId = message.document.id;
+        fileName = message.document.filename || null;
     }
 
-    console.log('Message content:', { caption, hasImage: !!imageUrl, type });
+    console.log('Message content:', { text, hasImage: !!imageUrl, hasMedia: !!mediaId, type });
 
     // Import the waiting room modules dynamically
-    const { upsertPendingMessage } = await import('@/lib/pendingMessages');
+    const { appendBufferedMessage } = await import('@/lib/pendingMessages');
     const { scheduleMessageProcessing } = await import('@/lib/messageProcessor');
 
-    // Add to waiting room (merge if recent message exists)
-    const { success, pendingMessage, error } = await upsertPendingMessage(
-        normalizedSender,
-        market.id,
-        caption,
+    // Add to the sender's buffer (grouped into a batch once the sender is quiet)
+    const { success, bufferedMessage, error } = await appendBufferedMessage({
+        senderNumber: normalizedSender,
+        marketId: market.id,
+        wamid: messageId,
+        type: type === 'audio' || type === 'document' ? type : imageUrl ? 'image' : 'text',
+        text,
         imageUrl,
-        messageId
-    );
+        mediaId,
+        fileName,
+        targetMarketIds: branches.length > 1 ? branches.map(branch => branch.market.id) : null
+    });
 
     if (!success) {
-        console.error('Error upserting pending message:', error);
-        return new Response('Error processing message', { status: 500 });
+        console.error('Error buffering message:', error);
+        return false;
     }
 
-    console.log('✅ Message added to waiting room:', pendingMessage?.id);
+    console.log('✅ Message added to waiting room:', bufferedMessage?.id);
 
     // Schedule processing in 15 seconds
-    scheduleMessageProcessing(normalizedSender, market.id, senderNumber);
-
-    // Return immediate 200 OK to Meta
-    return new Response('Success', { status: 200 });
-}
-
-// =========================================================================
-// HELPER FUNCTIONS
-// =========================================================================
+    scheduleMessageProcessing(normalizedSender, market.id, normalizedSender);
 
-/**
- * Get WhatsApp media URL from Meta's API
- */
-async function getWhatsAppMediaUrl(mediaId: string): Promise<string | null> {
-    try {
-        // Step 1: Get media URL from Meta
-        const metaResponse = await fetch(
-            `https://graph.facebook.com/v17.0/${mediaId}`,
-            {
-                headers: {
-                    'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`
-                }
-            }
-        );
-
-        const metaData = await metaResponse.json();
-        const mediaUrl = metaData.url;
-
-        if (!mediaUrl) {
-            console.error('No media URL in Meta response');
-            return null;
-        }
-
-        return mediaUrl;
-    } catch (err) {
-        console.error('Error fetching WhatsApp media URL:', err);
-        return null;
-    }
+    return true;
 }
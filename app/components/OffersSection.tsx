@@ -5,12 +5,17 @@ import Image from 'next/image';
 import { useEffect, useState } from 'react';
 import { createClient } from '@/utils/supabase/client';
 import { useFavorites } from '@/hooks/useFavorites';
+import { formatBasePrice } from '@/lib/offerPricing';
 
 interface Offer {
     id: string;
     product_name: string;
     price: string;
     unit?: string | null;
+    // Grundpreis, see lib/offerPricing.ts
+    quantity?: number | null;
+    base_unit?: string | null;
+    base_price?: number | null;
     description?: string | null;
     image_id: string | null;
     expires_at: string;
@@ -47,9 +52,11 @@ export default function OffersSection() {
 
             let query = supabase
                 .from('offers')
-                .select('id, product_name, price, unit, description, image_id, expires_at, market_id, markets(id, slug, name, logo_url, zip_code, city), image_library(url)')
+                .select('id, product_name, price, unit, quantity, base_unit, base_price, description, image_id, expires_at, market_id, markets(id, slug, name, logo_url, zip_code, city), image_library(url)')
+                .is('deleted_at', null)
                 .eq('status', 'live')
                 .gt('expires_at', new Date().toISOString())
+                .or(`starts_at.is.null,starts_at.lte.${new Date().toISOString()}`)
                 .order('created_at', { ascending: false });
 
             // If user has favorites, filter by favorite market IDs
@@ -224,6 +231,11 @@ export default function OffersSection() {
                                                             / {offer.unit}
                                                         </span>
                                                     )}
+                                                    {formatBasePrice(offer) && (
+                                                        <p className="text-xs mt-0.5" style={{ color: 'var(--warm-gray)' }}>
+                                                            Grundpreis {formatBasePrice(offer)}
+                                                        </p>
+                                                    )}
                                                 </div>
 
                                                 {/* Market Location */}
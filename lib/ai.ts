@@ -1,81 +1,4 @@
-import OpenAI from 'openai';
-
-// Initialize OpenAI client with OpenRouter
-const openai = new OpenAI({
-    apiKey: process.env.OPENROUTER_API_KEY,
-    baseURL: 'https://openrouter.ai/api/v1',
-});
-
-interface AnalyzeOfferResult {
-    product_name: string;
-    price: string;
-    unit: string;
-    description: string;
-    ai_category: string;
-    is_image_professional: boolean;
-    expires_in_days: number;
-}
-
-/**
- * Analyzes a WhatsApp caption and optional image to extract product information
- * @param caption - The WhatsApp message caption
- * @param imageUrl - Optional URL of the product image
- * @returns Structured product information
- */
-export async function analyzeOffer(
-    caption: string,
-    imageUrl?: string
-): Promise<AnalyzeOfferResult> {
-    try {
-        const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-            {
-                role: 'system',
-                content: `You are an assistant for Sila Markt. Analyze the WhatsApp caption and image. Return a JSON object with the following fields:
-- product_name: A clean, specific product name in German. IMPORTANT: Use PLURAL form if the unit indicates multiple items (kg, Bund, Packung, Kiste) - e.g., "Bananen" for "kg", "Zitronen" for "kg". Use SINGULAR form ONLY if sold individually by "Stück" - e.g., "Banane" for "Stück". Remove punctuation but preserve the correct singular/plural form based on the unit.
-- price: Numerical price as string (e.g., "2.99")
-- unit: Unit of measurement (e.g., "kg", "Stück", "Bund", "Packung")
-- description: An appetizing German sentence describing the product. Use plural form in description if product_name is plural (e.g., "Frische Bananen" not "Frische Banane").
-- ai_category: Product category (e.g., "Obst & Gemüse", "Fleisch & Wurst", "Backwaren", "Milchprodukte", "Getränke")
-- is_image_professional: Boolean - true ONLY if the photo is a professional product shot on clean background. False if it's a shelf photo, blurry, has text overlays, or is missing.
-- expires_in_days: Number of days the offer is valid. Extract from phrases like "eine Woche" (7), "zwei Wochen" (14), "3 Tage" (3), "bis Samstag" (calculate days). Default to 7 if not specified.`,
-            },
-        ];
-
-        // Add user message with image if provided
-        if (imageUrl) {
-            messages.push({
-                role: 'user',
-                content: [
-                    { type: 'text', text: caption },
-                    { type: 'image_url', image_url: { url: imageUrl } },
-                ],
-            });
-        } else {
-            messages.push({
-                role: 'user',
-                content: caption,
-            });
-        }
-
-        const response = await openai.chat.completions.create({
-            model: 'google/gemini-3-flash-preview',
-            messages,
-            response_format: { type: 'json_object' },
-            temperature: 0.3,
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from AI');
-        }
-
-        const result = JSON.parse(content) as AnalyzeOfferResult;
-        return result;
-    } catch (error) {
-        console.error('Error analyzing offer:', error);
-        throw error;
-    }
-}
+import { getLlmModel, getLlmProvider } from './llm';
 
 /**
  * Assesses the quality of a product photo for a specific product
@@ -85,8 +8,8 @@ export async function analyzeOffer(
  */
 export async function assessImageQuality(imageUrl: string, productName: string): Promise<'GOOD' | 'BAD'> {
     try {
-        const response = await openai.chat.completions.create({
-            model: 'google/gemini-3-flash-preview',
+        const response = await getLlmProvider('image_quality').chat({
+            model: getLlmModel('image_quality'),
             messages: [
                 {
                     role: 'system',
@@ -103,7 +26,12 @@ export async function assessImageQuality(imageUrl: string, productName: string):
             temperature: 0.1,
         });
 
-        const content = response.choices[0]?.message?.content?.trim().toUpperCase();
+        if (!response.ok) {
+            console.error('Error assessing image quality: HTTP', response.status, response.raw);
+            return 'BAD';
+        }
+
+        const content = response.text.trim().toUpperCase();
 
         if (content === 'GOOD') {
             return 'GOOD';
@@ -126,42 +54,19 @@ export async function generateProductImage(
 ): Promise<string | null> {
     console.log('[AI] 🎨 Generating image for product:', productName);
     try {
-        // @ts-ignore - OpenRouter-specific parameter for image generation
-        const response = await openai.chat.completions.create({
-            model: 'google/gemini-2.5-flash-image',
-            messages: [
-                {
-                    role: 'user',
-                    content: `Generate a professional, high-quality studio photograph of ${productName} on a clean, light, minimalist background. 8k resolution, food photography style. No text. IMPORTANT: If the product name is plural (e.g., "Bananen", "Zitronen", "Tomaten"), show MULTIPLE items (3-5 pieces). If singular (e.g., "Banane", "Zitrone", "Tomate"), show ONE item only.`,
-                },
-            ],
-            // @ts-ignore - OpenRouter-specific parameter
-            modalities: ['image', 'text'],
+        const response = await getLlmProvider('image_generation').generateImage({
+            model: getLlmModel('image_generation'),
+            prompt: `Generate a professional, high-quality studio photograph of ${productName} on a clean, light, minimalist background. 8k resolution, food photography style. No text. IMPORTANT: If the product name is plural (e.g., "Bananen", "Zitronen", "Tomaten"), show MULTIPLE items (3-5 pieces). If singular (e.g., "Banane", "Zitrone", "Tomate"), show ONE item only.`,
         });
 
-        // Gemini on OpenRouter returns images in the message.images array
-        const message = response.choices[0]?.message;
-
-        // @ts-ignore - OpenRouter-specific response structure
-        const images = message?.images;
-
-        if (!images || images.length === 0) {
-            console.log('[AI] No images returned from Gemini. Response:', JSON.stringify(message, null, 2));
+        if (!response.imageUrl) {
+            console.log('[AI] No image returned. HTTP', response.status, 'Response:', response.raw.slice(0, 500));
             return null;
         }
 
-        // Try multiple possible response structures
-        // @ts-ignore
-        const imageUrl = images[0]?.url || images[0]?.image_url?.url || images[0];
-
-        if (imageUrl && typeof imageUrl === 'string') {
-            // Handle both Base64 data URLs (data:image/png;base64,...) and regular URLs
-            console.log('Image generated successfully:', imageUrl.substring(0, 50) + '...');
-            return imageUrl;
-        }
-
-        console.log('Image URL not found in expected format');
-        return null;
+        // Handle both Base64 data URLs (data:image/png;base64,...) and regular URLs
+        console.log('Image generated successfully:', response.imageUrl.substring(0, 50) + '...');
+        return response.imageUrl;
     } catch (error) {
         console.error('Error generating product image:', error);
         return null;
@@ -0,0 +1,113 @@
+/**
+ * Audit Log
+ * Append-only trail of every mutation made from the admin dashboard: who (actor) did what (action)
+ * to which offer, offer template, market, library image, team member or failed WhatsApp message,
+ * with the changed fields before and after.
+ * Changes that market owners make over WhatsApp are recorded in the conversation log instead.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+export type AuditEntityType = 'offer' | 'offer_template' | 'market' | 'image' | 'user' | 'failed_message';
+
+export type AuditAction =
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'restore'
+    | 'publish'
+    | 'unpublish'
+    | 'rerun'
+    | 'merge'
+    | 'keep_duplicate'
+    | 'activate'
+    | 'deactivate'
+    | 'promote'
+    | 'demote'
+    | 'replay'
+    | 'dismiss';
+
+export interface AuditChange {
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId: string;
+    // Readable name at the time of the change (product name, market name, e-mail)
+    entityLabel?: string | null;
+    // The entity before and after the mutation; null for created and deleted entities
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+}
+
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+// Columns that change with every write and say nothing about the mutation
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+/**
+ * The fields that differ between two versions of an entity
+ * For created entities every field is listed with before: null, for deleted ones with after: null.
+ */
+export function diffRecords(
+    before: Record<string, unknown> | null | undefined,
+    after: Record<string, unknown> | null | undefined
+): AuditDiff {
+    const diff: AuditDiff = {};
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    for (const field of fields) {
+        if (IGNORED_FIELDS.has(field)) {
+            continue;
+        }
+
+        const previous = before?.[field] ?? null;
+        const next = after?.[field] ?? null;
+        if (JSON.stringify(previous) !== JSON.stringify(next)) {
+            diff[field] = { before: previous, after: next };
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Append the changes an admin made to the audit log
+ * Updates that changed nothing are skipped. Logging must never undo a mutation that already happened,
+ * so errors are only reported to the console.
+ */
+export async function recordAudit(actorId: string, changes: AuditChange[]): Promise<void> {
+    const entries = changes
+        .map(change => ({ change, diff: diffRecords(change.before, change.after) }))
+        .filter(({ change, diff }) => change.action !== 'update' || Object.keys(diff).length > 0);
+
+    if (entries.length === 0) {
+        return;
+    }
+
+    try {
+        const supabase = createServiceClient();
+
+        const { data: actor } = await supabase
+            .from('profiles')
+            .select('email')
+            .eq('id', actorId)
+            .maybeSingle();
+
+        const { error } = await supabase
+            .from('audit_log')
+            .insert(entries.map(({ change, diff }) => ({
+                actor_id: actorId,
+                actor_email: actor?.email || null,
+                action: change.action,
+                entity_type: change.entityType,
+                entity_id: change.entityId,
+                entity_label: change.entityLabel || null,
+                changes: diff
+            })));
+
+        if (error) {
+            console.error('[Audit] Error recording changes:', error);
+        }
+    } catch (err) {
+        console.error('[Audit] Unexpected error:', err);
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Auto Publish
+ * Decides whether a WhatsApp offer of a trusted market can go live without admin review,
+ * and records every decision with the outcome of each check
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+import { parsePrice } from './offerPricing';
+
+// "Sonstiges" is the AI's fallback when it can't categorize a product, so it doesn't count as known
+const KNOWN_CATEGORIES = ['Obst & Gemüse', 'Fleisch & Wurst', 'Milchprodukte', 'Backwaren', 'Getränke'];
+
+export interface AutoPublishSettings {
+    auto_publish_enabled: boolean;
+    auto_publish_min_confidence: number;
+    auto_publish_min_price: number;
+    auto_publish_max_price: number;
+}
+
+export interface AutoPublishCandidate {
+    product_name: string;
+    price: number | string;
+    ai_category?: string | null;
+    // Self-reported by the AI, 0-1
+    confidence?: number | null;
+    image_id: string | null;
+}
+
+export interface AutoPublishCheck {
+    name: 'confidence' | 'price_range' | 'category' | 'image';
+    passed: boolean;
+    detail: string;
+}
+
+export interface AutoPublishDecision {
+    publish: boolean;
+    confidence: number | null;
+    checks: AutoPublishCheck[];
+    reason: string;
+}
+
+/**
+ * The auto-publish settings of a market
+ * @returns The settings, or null if the market is not trusted (or they could not be loaded)
+ */
+export async function getAutoPublishSettings(marketId: string): Promise<AutoPublishSettings | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('markets')
+        .select('auto_publish_enabled, auto_publish_min_confidence, auto_publish_min_price, auto_publish_max_price')
+        .eq('id', marketId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[AutoPublish] Error fetching settings:', error);
+        return null;
+    }
+
+    if (!data?.auto_publish_enabled) {
+        return null;
+    }
+
+    // NUMERIC columns come back as strings
+    return {
+        auto_publish_enabled: true,
+        auto_publish_min_confidence: Number(data.auto_publish_min_confidence),
+        auto_publish_min_price: Number(data.auto_publish_min_price),
+        auto_publish_max_price: Number(data.auto_publish_max_price)
+    };
+}
+
+/**
+ * Run the auto-publish checks for an extracted offer
+ * The offer is published only if every check passes
+ */
+export function evaluateAutoPublish(candidate: AutoPublishCandidate, settings: AutoPublishSettings): AutoPublishDecision {
+    const confidence = typeof candidate.confidence === 'number' && !isNaN(candidate.confidence)
+        ? Math.min(Math.max(candidate.confidence, 0), 1)
+        : null;
+    const price = parsePrice(candidate.price);
+
+    const checks: AutoPublishCheck[] = [
+        {
+            name: 'confidence',
+            passed: confidence !== null && confidence >= settings.auto_publish_min_confidence,
+            detail: confidence === null
+                ? 'Keine Konfidenz von der KI'
+                : `Konfidenz ${confidence.toFixed(2)} (mindestens ${settings.auto_publish_min_confidence.toFixed(2)})`
+        },
+        {
+            name: 'price_range',
+            passed: price !== null && price >= settings.auto_publish_min_price && price <= settings.auto_publish_max_price,
+            detail: `Preis ${price === null ? String(candidate.price) : price.toFixed(2)} € (erlaubt ${settings.auto_publish_min_price.toFixed(2)}–${settings.auto_publish_max_price.toFixed(2)} €)`
+        },
+        {
+            name: 'category',
+            passed: !!candidate.ai_category && KNOWN_CATEGORIES.includes(candidate.ai_category),
+            detail: candidate.ai_category ? `Kategorie „${candidate.ai_category}“` : 'Keine Kategorie'
+        },
+        {
+            name: 'image',
+            passed: !!candidate.image_id,
+            detail: candidate.image_id ? 'Bild vorhanden' : 'Kein Bild'
+        }
+    ];
+
+    const failed = checks.filter(check => !check.passed);
+    const publish = failed.length === 0;
+
+    return {
+        publish,
+        confidence,
+        checks,
+        reason: publish
+            ? `Automatisch veröffentlicht: ${checks.map(check => check.detail).join(', ')}`
+            : `Zur Prüfung zurückgehalten: ${failed.map(check => check.detail).join(', ')}`
+    };
+}
+
+/**
+ * Record an auto-publish decision in the audit trail
+ * Never throws - a failed audit entry must not lose the offer
+ */
+export async function recordAutoPublishDecision(
+    offerId: string,
+    marketId: string,
+    productName: string,
+    decision: AutoPublishDecision
+): Promise<void> {
+    try {
+        const supabase = createServiceClient();
+
+        const { error } = await supabase
+            .from('offer_auto_publish_decisions')
+            .insert({
+                offer_id: offerId,
+                market_id: marketId,
+                product_name: productName,
+                published: decision.publish,
+                confidence: decision.confidence,
+                checks: decision.checks,
+                reason: decision.reason
+            });
+
+        if (error) {
+            console.error('[AutoPublish] Error recording decision:', error);
+        }
+    } catch (err) {
+        console.error('[AutoPublish] Error recording decision:', err);
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Conversation Log
+ * Persists every step of a WhatsApp conversation per market (inbound messages, merged batches,
+ * AI prompts/responses and the resulting offers or rejections), so support questions like
+ * "I sent the offer but it never appeared" can be answered from the admin dashboard
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+export type ConversationEventType =
+    | 'inbound_message'
+    | 'batch_merged'
+    | 'ai_exchange'
+    | 'offers_created'
+    | 'rejected'
+    | 'failed';
+
+export interface ConversationEvent {
+    marketId: string;
+    senderNumber: string;
+    type: ConversationEventType;
+    // Correlates all events of one processing run (buffer batch ID or dead-letter batch ID)
+    batchId?: string | null;
+    wamid?: string | null;
+    summary?: string | null;
+    details?: Record<string, unknown>;
+    offerIds?: string[];
+}
+
+/**
+ * Append an event to the conversation log
+ * Logging must never break message handling, so errors are only reported to the console
+ */
+export async function logConversationEvent(event: ConversationEvent): Promise<void> {
+    try {
+        const supabase = createServiceClient();
+
+        const { error } = await supabase
+            .from('conversation_events')
+            .insert({
+                market_id: event.marketId,
+                sender_number: event.senderNumber,
+                event_type: event.type,
+                batch_id: event.batchId || null,
+                wamid: event.wamid || null,
+                summary: event.summary || null,
+                details: event.details || {},
+                offer_ids: event.offerIds || []
+            });
+
+        if (error) {
+            console.error('[ConversationLog] Error logging event:', error);
+        }
+    } catch (err) {
+        console.error('[ConversationLog] Unexpected error:', err);
+    }
+}
@@ -0,0 +1,209 @@
+/**
+ * Failed Messages (Dead-Letter Queue)
+ * Keeps message batches whose processing failed (exceptions, unusable AI responses),
+ * so they can be retried with backoff by the cron job and inspected/replayed by admins
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+import type { BufferedMessage, MessageBatch } from './pendingMessages';
+
+// After this many attempts the batch is given up and left for manual replay
+export const MAX_ATTEMPTS = 5;
+
+// Retries that were claimed but not finished within this time are considered crashed and get reclaimed
+const STALE_RETRY_MS = 5 * 60 * 1000;
+
+export type FailedBatchStatus = 'pending' | 'retrying' | 'exhausted' | 'resolved';
+
+export interface FailedBatch {
+    id: string;
+    sender_number: string;
+    market_id: string;
+    messages: BufferedMessage[];
+    error: string | null;
+    raw_ai_response: string | null;
+    attempt_count: number;
+    status: FailedBatchStatus;
+    next_retry_at: string | null;
+    created_at: string;
+    updated_at: string;
+    resolved_at: string | null;
+}
+
+/**
+ * Backoff before the next attempt: 2, 4, 8, 16 minutes
+ */
+export function getRetryDelayMs(attemptCount: number): number {
+    return Math.pow(2, attemptCount) * 60 * 1000;
+}
+
+/**
+ * Move a failed batch to the dead-letter queue
+ * @returns true if the batch was stored (the buffered messages can then be deleted)
+ */
+export async function recordFailedBatch(
+    batch: MessageBatch,
+    failure: { error?: string; rawAiResponse?: string }
+): Promise<boolean> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('failed_message_batches')
+        .insert({
+            sender_number: batch.sender_number,
+            market_id: batch.market_id,
+            messages: batch.messages,
+            error: failure.error || null,
+            raw_ai_response: failure.rawAiResponse || null,
+            attempt_count: 1,
+            status: 'pending',
+            next_retry_at: new Date(Date.now() + getRetryDelayMs(1)).toISOString()
+        });
+
+    if (error) {
+        console.error('[DeadLetter] Error recording failed batch:', error);
+        return false;
+    }
+
+    console.log('[DeadLetter] 📥 Recorded failed batch for sender:', batch.sender_number);
+    return true;
+}
+
+/**
+ * Claim all failed batches whose next retry is due
+ * Claiming sets the status to 'retrying', so concurrent cron runs never retry the same batch twice
+ */
+export async function claimDueFailedBatches(): Promise<FailedBatch[]> {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+    const staleBefore = new Date(Date.now() - STALE_RETRY_MS).toISOString();
+
+    const { data, error } = await supabase
+        .from('failed_message_batches')
+        .update({ status: 'retrying', updated_at: now })
+        .or(`and(status.eq.pending,next_retry_at.lte.${now}),and(status.eq.retrying,updated_at.lt.${staleBefore})`)
+        .select();
+
+    if (error) {
+        console.error('[DeadLetter] Error claiming due batches:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * A single failed batch, e.g. before an admin dismisses it
+ * @returns The batch, or null if it does not exist
+ */
+export async function getFailedBatch(id: string): Promise<FailedBatch | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('failed_message_batches')
+        .select()
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[DeadLetter] Error fetching batch:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Claim a single failed batch for a manual replay, regardless of its schedule
+ * @returns The batch, or null if it does not exist, is already resolved or is being retried right now
+ */
+export async function claimFailedBatch(id: string): Promise<FailedBatch | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('failed_message_batches')
+        .update({ status: 'retrying', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .in('status', ['pending', 'exhausted'])
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        console.error('[DeadLetter] Error claiming batch:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Mark a failed batch as resolved after a successful retry (or when an admin dismisses it)
+ */
+export async function markFailedBatchResolved(id: string): Promise<boolean> {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+
+    const { error } = await supabase
+        .from('failed_message_batches')
+        .update({ status: 'resolved', resolved_at: now, updated_at: now, next_retry_at: null })
+        .eq('id', id);
+
+    if (error) {
+        console.error('[DeadLetter] Error resolving batch:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Store the messages of a failed batch together with the extraction progress of a retry,
+ * so the next retry continues after the pages that are already done
+ */
+export async function updateFailedBatchMessages(id: string, messages: BufferedMessage[]): Promise<boolean> {
+    const supabase = createServiceClient();
+
+    // Refreshing updated_at also keeps the claim of a long flyer retry from going stale
+    const { error } = await supabase
+        .from('failed_message_batches')
+        .update({ messages, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+    if (error) {
+        console.error('[DeadLetter] Error updating batch messages:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Record another failed attempt and schedule the next retry, or give up after MAX_ATTEMPTS
+ * @returns The new status of the batch
+ */
+export async function recordFailedAttempt(
+    batch: FailedBatch,
+    failure: { error?: string; rawAiResponse?: string }
+): Promise<FailedBatchStatus> {
+    const supabase = createServiceClient();
+    const attemptCount = batch.attempt_count + 1;
+    const exhausted = attemptCount >= MAX_ATTEMPTS;
+
+    const { error } = await supabase
+        .from('failed_message_batches')
+        .update({
+            attempt_count: attemptCount,
+            error: failure.error || null,
+            raw_ai_response: failure.rawAiResponse || batch.raw_ai_response,
+            status: exhausted ? 'exhausted' : 'pending',
+            next_retry_at: exhausted ? null : new Date(Date.now() + getRetryDelayMs(attemptCount)).toISOString(),
+            updated_at: new Date().toISOString()
+        })
+        .eq('id', batch.id);
+
+    if (error) {
+        console.error('[DeadLetter] Error recording failed attempt:', error);
+    }
+
+    return exhausted ? 'exhausted' : 'pending';
+}
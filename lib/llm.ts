@@ -0,0 +1,353 @@
+/**
+ * LLM Providers
+ * One interface for all AI calls: chat, vision (chat with images) and image generation.
+ *
+ * Providers are pluggable and selected via LLM_PROVIDER, or per task via LLM_PROVIDER_<TASK>
+ * (e.g. LLM_PROVIDER_IMAGE_GENERATION=openrouter while everything else runs locally):
+ * - 'openrouter' (default): OpenRouter with OPENROUTER_API_KEY
+ * - 'local': a self-hosted server with an OpenAI-compatible API (e.g. Ollama, llama.cpp) at LOCAL_LLM_URL
+ * - 'fixtures': replays recorded responses from LLM_FIXTURES_DIR without network access, for tests
+ *   and offline development. With LLM_FIXTURES_RECORD=openrouter|local, requests without a recording
+ *   are sent to that provider and recorded.
+ *
+ * Models default per provider and task and can be overridden with LLM_MODEL_<TASK>.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type LlmTask = 'extraction' | 'image_quality' | 'image_generation' | 'description';
+
+export type ChatContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+    | { type: 'file'; file: { filename: string; file_data: string } };
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    // Ask the model for a JSON object (not supported by every model)
+    jsonResponse?: boolean;
+}
+
+export interface ChatResponse {
+    ok: boolean;
+    status: number;
+    // The model's answer (empty if there is none)
+    text: string;
+    // The raw response body, kept for debugging failed requests
+    raw: string;
+}
+
+export interface ImageRequest {
+    model: string;
+    prompt: string;
+}
+
+export interface ImageResponse {
+    ok: boolean;
+    status: number;
+    // Data URL (data:image/png;base64,...) or regular URL of the generated image
+    imageUrl: string | null;
+    raw: string;
+}
+
+/**
+ * Implementations must not throw on API or network errors but report them in the response
+ */
+export interface LlmProvider {
+    name: string;
+    // Model used for a task unless LLM_MODEL_<TASK> is set
+    defaultModels: Partial<Record<LlmTask, string>>;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+    generateImage(request: ImageRequest): Promise<ImageResponse>;
+}
+
+// ============================================================================
+// OpenAI-compatible providers
+// ============================================================================
+
+// The parts of OpenAI-compatible response bodies that are read
+interface ResponseBody {
+    choices?: Array<{
+        message?: {
+            content?: string | null;
+            // OpenRouter image models
+            images?: Array<{ image_url?: { url?: string }; url?: string } | string>;
+        };
+    }>;
+    // /images/generations
+    data?: Array<{ b64_json?: string; url?: string }>;
+}
+
+/**
+ * POST a JSON body and return the parsed response next to the raw body
+ */
+async function postJson(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown
+): Promise<{ ok: boolean; status: number; data: ResponseBody | null; raw: string }> {
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body)
+        });
+
+        const raw = await response.text();
+        let data: ResponseBody | null;
+        try {
+            data = JSON.parse(raw);
+        } catch {
+            data = null;
+        }
+
+        return { ok: response.ok, status: response.status, data, raw };
+    } catch (err) {
+        // Network errors have no HTTP status
+        return { ok: false, status: 0, data: null, raw: String(err) };
+    }
+}
+
+/**
+ * Send a chat completion request to an OpenAI-compatible API
+ */
+async function chatCompletion(baseUrl: string, headers: Record<string, string>, request: ChatRequest): Promise<ChatResponse> {
+    const { ok, status, data, raw } = await postJson(`${baseUrl}/chat/completions`, headers, {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonResponse ? { response_format: { type: 'json_object' } } : {})
+    });
+
+    return { ok, status, text: data?.choices?.[0]?.message?.content || '', raw };
+}
+
+/**
+ * Provider for OpenRouter
+ */
+export function createOpenRouterProvider(apiKey: string = process.env.OPENROUTER_API_KEY || ''): LlmProvider {
+    const baseUrl = 'https://openrouter.ai/api/v1';
+    const headers = {
+        'Authorization': `Bearer ${apiKey}`,
+        'HTTP-Referer': 'https://bereket.market',
+        'X-Title': 'Bereket Market'
+    };
+
+    return {
+        name: 'openrouter',
+        defaultModels: {
+            extraction: 'google/gemini-2.0-flash-001',
+            image_quality: 'google/gemini-3-flash-preview',
+            image_generation: 'google/gemini-2.5-flash-image',
+            description: 'google/gemini-3-flash-preview'
+        },
+        chat(request) {
+            return chatCompletion(baseUrl, headers, request);
+        },
+        async generateImage({ model, prompt }) {
+            // Image models on OpenRouter answer chat requests with the images in message.images
+            const { ok, status, data, raw } = await postJson(`${baseUrl}/chat/completions`, headers, {
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                modalities: ['image', 'text']
+            });
+
+            const image = data?.choices?.[0]?.message?.images?.[0];
+            const imageUrl = typeof image === 'string' ? image : image?.image_url?.url || image?.url || null;
+
+            return { ok, status, imageUrl, raw };
+        }
+    };
+}
+
+/**
+ * Provider for a self-hosted server with an OpenAI-compatible API (Ollama, llama.cpp, LocalAI, ...)
+ * Vision tasks need a vision-capable model; image generation needs an /images/generations endpoint.
+ */
+export function createLocalProvider(
+    baseUrl: string = process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+    apiKey: string = process.env.LOCAL_LLM_API_KEY || ''
+): LlmProvider {
+    const url = baseUrl.replace(/\/$/, '');
+    const headers: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+    const visionModel = process.env.LOCAL_LLM_VISION_MODEL || 'llama3.2-vision';
+
+    return {
+        name: 'local',
+        defaultModels: {
+            extraction: visionModel,
+            image_quality: visionModel,
+            image_generation: process.env.LOCAL_LLM_IMAGE_MODEL || 'stable-diffusion',
+            description: process.env.LOCAL_LLM_MODEL || 'llama3.2'
+        },
+        chat(request) {
+            return chatCompletion(url, headers, request);
+        },
+        async generateImage({ model, prompt }) {
+            const { ok, status, data, raw } = await postJson(`${url}/images/generations`, headers, {
+                model,
+                prompt,
+                n: 1,
+                response_format: 'b64_json'
+            });
+
+            const image = data?.data?.[0];
+            const imageUrl = image?.b64_json ? `data:image/png;base64,${image.b64_json}` : image?.url || null;
+
+            return { ok, status, imageUrl, raw };
+        }
+    };
+}
+
+// ============================================================================
+// Fixture replay
+// ============================================================================
+
+/**
+ * Replace inline images and documents by a hash, so recordings stay small and readable
+ */
+function redactDataUrls(value: unknown): unknown {
+    if (typeof value === 'string' && value.startsWith('data:')) {
+        return `${value.slice(0, value.indexOf(',') + 1)}sha256:${createHash('sha256').update(value).digest('hex')}`;
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactDataUrls);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redactDataUrls(entry)]));
+    }
+    return value;
+}
+
+/**
+ * Fixtures are keyed by the content of the request, not the model, so switching models keeps them valid
+ */
+function fixtureKey(kind: 'chat' | 'image', content: unknown): string {
+    return `${kind}-${createHash('sha256').update(JSON.stringify(redactDataUrls(content))).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Provider that replays recorded responses from JSON files
+ * @param dir - Directory with one `<key>.json` file per recorded request
+ * @param recordWith - Provider for requests without a recording; its responses are recorded.
+ *                     Without it, unknown requests fail with status 404.
+ */
+export function createFixtureProvider(
+    dir: string = process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'tests', 'fixtures', 'llm'),
+    recordWith: LlmProvider | null = null
+): LlmProvider {
+    const replay = async <T extends { ok: boolean }>(
+        kind: 'chat' | 'image',
+        request: ChatRequest | ImageRequest,
+        content: unknown,
+        send: (provider: LlmProvider) => Promise<T>
+    ): Promise<T | null> => {
+        const file = path.join(dir, `${fixtureKey(kind, content)}.json`);
+
+        try {
+            return JSON.parse(await fs.readFile(file, 'utf8')).response as T;
+        } catch {
+            if (!recordWith) {
+                console.log('[LLM] No fixture for request:', file);
+                return null;
+            }
+        }
+
+        const response = await send(recordWith);
+        // Failed requests are not recorded, so they are retried on the next run
+        if (response.ok) {
+            await fs.mkdir(dir, { recursive: true });
+            await fs.writeFile(file, JSON.stringify({ kind, request: redactDataUrls(request), response }, null, 2) + '\n');
+            console.log('[LLM] 📼 Recorded fixture:', file);
+        }
+        return response;
+    };
+
+    return {
+        name: 'fixtures',
+        defaultModels: recordWith?.defaultModels || {},
+        async chat(request) {
+            const response = await replay('chat', request, request.messages, provider => provider.chat(request));
+            return response || { ok: false, status: 404, text: '', raw: 'No fixture for this request' };
+        },
+        async generateImage(request) {
+            const response = await replay('image', request, request.prompt, provider => provider.generateImage(request));
+            return response || { ok: false, status: 404, imageUrl: null, raw: 'No fixture for this request' };
+        }
+    };
+}
+
+// ============================================================================
+// Provider selection
+// ============================================================================
+
+// Providers that LLM_FIXTURES_RECORD can record fixtures with
+const RECORDING_PROVIDERS = ['openrouter', 'local'];
+
+/**
+ * Create a provider by name ('openrouter', 'local' or 'fixtures')
+ */
+export function createLlmProvider(name: string): LlmProvider {
+    switch (name) {
+        case 'local':
+            return createLocalProvider();
+        case 'fixtures': {
+            const recordWith = process.env.LLM_FIXTURES_RECORD;
+            // Recordings come from a real provider - anything else would record nothing (or itself, forever)
+            if (recordWith && !RECORDING_PROVIDERS.includes(recordWith)) {
+                throw new Error(`LLM_FIXTURES_RECORD must be one of ${RECORDING_PROVIDERS.join(', ')}, got '${recordWith}'`);
+            }
+            return createFixtureProvider(undefined, recordWith ? createLlmProvider(recordWith) : null);
+        }
+        default:
+            return createOpenRouterProvider();
+    }
+}
+
+const activeProviders = new Map<LlmTask | 'default', LlmProvider>();
+
+/**
+ * The configured provider for a task
+ */
+export function getLlmProvider(task: LlmTask): LlmProvider {
+    const configured = activeProviders.get(task) || activeProviders.get('default');
+    if (configured) {
+        return configured;
+    }
+
+    const provider = createLlmProvider(process.env[`LLM_PROVIDER_${task.toUpperCase()}`] || process.env.LLM_PROVIDER || 'openrouter');
+    activeProviders.set(task, provider);
+    return provider;
+}
+
+/**
+ * Replace the provider of a task, or of all tasks with 'default' (e.g. with fixtures in tests); pass null to reset
+ */
+export function setLlmProvider(task: LlmTask | 'default', provider: LlmProvider | null): void {
+    if (task === 'default') {
+        activeProviders.clear();
+    }
+    if (provider) {
+        activeProviders.set(task, provider);
+    } else {
+        activeProviders.delete(task);
+    }
+}
+
+/**
+ * The model for a task: LLM_MODEL_<TASK> if set, otherwise the provider's default
+ */
+export function getLlmModel(task: LlmTask, provider: LlmProvider = getLlmProvider(task)): string {
+    return process.env[`LLM_MODEL_${task.toUpperCase()}`] || provider.defaultModels[task] || '';
+}
@@ -0,0 +1,90 @@
+/**
+ * Market Members
+ * WhatsApp numbers of a market with their role: owners can publish and approve drafts,
+ * employees can only submit drafts
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+export type MarketMemberRole = 'owner' | 'employee';
+
+export interface MarketMember {
+    market_id: string;
+    phone_number: string;
+    role: MarketMemberRole;
+}
+
+export interface MarketMembership extends MarketMember {
+    market: {
+        id: string;
+        name: string;
+        city: string;
+        is_active: boolean;
+    };
+}
+
+/**
+ * All markets a WhatsApp number is registered for, oldest membership first
+ * Throws if the lookup fails, so a database error is never mistaken for an unknown number
+ * @param phoneNumber - Normalized number without '+'
+ */
+export async function findMembershipsByNumber(phoneNumber: string): Promise<MarketMembership[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('market_members')
+        .select('market_id, phone_number, role, market:markets!inner(id, name, city, is_active)')
+        .eq('phone_number', phoneNumber)
+        // Numbers of a market in the trash are treated as unknown
+        .is('market.deleted_at', null)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('[Members] Error fetching memberships:', error);
+        throw error;
+    }
+
+    return (data || []) as unknown as MarketMembership[];
+}
+
+/**
+ * The role of a WhatsApp number within a market
+ * @returns The role, or null if the number is not a member of the market
+ */
+export async function getMemberRole(marketId: string, phoneNumber: string): Promise<MarketMemberRole | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('market_members')
+        .select('role')
+        .eq('market_id', marketId)
+        .eq('phone_number', phoneNumber)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Members] Error fetching role:', error);
+        return null;
+    }
+
+    return data?.role ?? null;
+}
+
+/**
+ * The WhatsApp numbers of a market's owners
+ */
+export async function getOwnerNumbers(marketId: string): Promise<string[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('market_members')
+        .select('phone_number')
+        .eq('market_id', marketId)
+        .eq('role', 'owner');
+
+    if (error) {
+        console.error('[Members] Error fetching owners:', error);
+        return [];
+    }
+
+    return (data || []).map(member => member.phone_number);
+}
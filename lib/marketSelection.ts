@@ -0,0 +1,275 @@
+/**
+ * Market Selection
+ * WhatsApp numbers registered for several markets (branches) choose which branch their messages
+ * are for via an interactive list. The choice is remembered per sender, and owners can pick
+ * "alle Filialen" to create the same offer for every branch they own.
+ * Messages that arrive before the choice is made are parked and routed once the sender has answered.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+import { sendWhatsAppList, sendWhatsAppText } from './whatsappMessages';
+import type { BotTranslator } from './whatsappLanguage';
+import type { MarketMembership } from './marketMembers';
+
+// List reply IDs are "<prefix><market id>" or "<prefix>all"
+export const BRANCH_SELECT_PREFIX = 'branch_select:';
+const ALL_BRANCHES_ID = 'all';
+
+// Same lifetime as the draft session - the next day starts with a fresh question
+const SELECTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Parked messages of a sender who never answers are dropped after the same time
+const PARKED_MESSAGE_TTL_MS = SELECTION_TTL_MS;
+
+// A burst of photos should produce one question, not one per photo
+const QUESTION_COOLDOWN_MS = 5 * 60 * 1000;
+
+// WhatsApp limits list row titles to 24 characters
+const MAX_ROW_TITLE_LENGTH = 24;
+
+const SWITCH_BRANCH_COMMAND = /^(?:filiale(?:\s+wechseln)?|şube(?:\s+değiştir)?|sube(?:\s+degistir)?)$/i;
+
+/**
+ * The subset of a WhatsApp webhook message that branch choices are parsed from
+ */
+interface SelectionMessage {
+    type: string;
+    text?: { body?: string };
+    interactive?: {
+        type: string;
+        list_reply?: { id: string; title: string };
+    };
+}
+
+/**
+ * A message waiting for the sender to choose a branch
+ */
+export interface ParkedMessage<T> {
+    id: string;
+    message: T;
+}
+
+/**
+ * The memberships "alle Filialen" applies to: every branch the sender owns
+ */
+function getOwnedBranches(memberships: MarketMembership[]): MarketMembership[] {
+    return memberships.filter(membership => membership.role === 'owner');
+}
+
+/**
+ * The branches the sender's messages currently go to
+ * @returns The chosen memberships (several for "alle Filialen"), or null if the sender has to choose
+ */
+export async function getSelectedBranches(
+    senderNumber: string,
+    memberships: MarketMembership[]
+): Promise<MarketMembership[] | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('whatsapp_branch_selections')
+        .select('market_ids, updated_at')
+        .eq('sender_number', senderNumber)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Branches] Error fetching selection:', error);
+        return null;
+    }
+
+    if (!data || data.market_ids.length === 0 || new Date(data.updated_at).getTime() < Date.now() - SELECTION_TTL_MS) {
+        return null;
+    }
+
+    // Memberships can change in the meantime - only branches the number still belongs to count
+    const selected = memberships.filter(membership => data.market_ids.includes(membership.market.id));
+    return selected.length > 0 ? selected : null;
+}
+
+/**
+ * Parse a branch choice from an interactive list reply
+ * @returns The chosen memberships, or null if the message is not a (valid) branch choice
+ */
+export function parseBranchChoice(message: SelectionMessage, memberships: MarketMembership[]): MarketMembership[] | null {
+    const replyId = message.interactive?.list_reply?.id;
+    if (message.type !== 'interactive' || !replyId?.startsWith(BRANCH_SELECT_PREFIX)) {
+        return null;
+    }
+
+    const choice = replyId.slice(BRANCH_SELECT_PREFIX.length);
+    if (choice === ALL_BRANCHES_ID) {
+        const owned = getOwnedBranches(memberships);
+        return owned.length > 1 ? owned : null;
+    }
+
+    const membership = memberships.find(entry => entry.market.id === choice);
+    return membership ? [membership] : null;
+}
+
+/**
+ * Whether the sender asks to choose another branch ("filiale" / "şube")
+ */
+export function isSwitchBranchRequest(message: SelectionMessage): boolean {
+    return message.type === 'text' && SWITCH_BRANCH_COMMAND.test(message.text?.body?.trim() || '');
+}
+
+/**
+ * Store the sender's branch choice, confirm it and return the messages parked while waiting for it
+ * The parked messages stay stored until they are released with releaseParkedMessage()
+ */
+export async function saveBranchChoice<T>(
+    senderNumber: string,
+    branches: MarketMembership[],
+    t: BotTranslator
+): Promise<ParkedMessage<T>[]> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('whatsapp_branch_selections')
+        .upsert({
+            sender_number: senderNumber,
+            market_ids: branches.map(branch => branch.market.id),
+            asked_at: null,
+            updated_at: new Date().toISOString()
+        }, { onConflict: 'sender_number' });
+
+    if (error) {
+        throw error;
+    }
+
+    console.log('[Branches] ✅ Sender', senderNumber, 'chose:', branches.map(branch => branch.market.name));
+
+    await sendWhatsAppText(
+        senderNumber,
+        branches.length > 1
+            ? t('branches.selectedAll', { count: branches.length })
+            : t('branches.selected', { name: branches[0].market.name })
+    );
+
+    const { data: parked, error: parkedError } = await supabase
+        .from('whatsapp_parked_messages')
+        .select('id, message')
+        .eq('sender_number', senderNumber)
+        .order('received_at', { ascending: true });
+
+    if (parkedError) {
+        throw parkedError;
+    }
+
+    return (parked || []).map(entry => ({ id: entry.id, message: entry.message as T }));
+}
+
+/**
+ * Delete a parked message once it was routed to the chosen branch
+ */
+export async function releaseParkedMessage(id: string): Promise<boolean> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('whatsapp_parked_messages')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('[Branches] Error releasing parked message:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Delete parked messages of senders who never chose a branch
+ * @returns The number of deleted messages
+ */
+export async function purgeParkedMessages(now: Date = new Date()): Promise<number> {
+    const supabase = createServiceClient();
+    const cutoff = new Date(now.getTime() - PARKED_MESSAGE_TTL_MS).toISOString();
+
+    const { data, error } = await supabase
+        .from('whatsapp_parked_messages')
+        .delete()
+        .lt('received_at', cutoff)
+        .select('id');
+
+    if (error) {
+        throw error;
+    }
+
+    if (data.length > 0) {
+        console.log(`[Branches] ✅ Purged ${data.length} parked message(s)`);
+    }
+
+    return data.length;
+}
+
+/**
+ * Park a message until the sender has chosen a branch (pass null to only ask)
+ * and send the branch list, unless it was sent moments ago
+ * @returns false if the message could not be parked
+ */
+export async function askForBranch(
+    senderNumber: string,
+    memberships: MarketMembership[],
+    message: SelectionMessage | null,
+    t: BotTranslator
+): Promise<boolean> {
+    const supabase = createServiceClient();
+
+    if (message) {
+        const { error: parkError } = await supabase
+            .from('whatsapp_parked_messages')
+            .insert({ sender_number: senderNumber, message });
+
+        if (parkError) {
+            console.error('[Branches] Error parking message:', parkError);
+            return false;
+        }
+    }
+
+    const { data: selection } = await supabase
+        .from('whatsapp_branch_selections')
+        .select('asked_at')
+        .eq('sender_number', senderNumber)
+        .maybeSingle();
+
+    if (message && selection?.asked_at && new Date(selection.asked_at).getTime() > Date.now() - QUESTION_COOLDOWN_MS) {
+        console.log('[Branches] ⏳ Question already pending for:', senderNumber);
+        return true;
+    }
+
+    const { error: askedError } = await supabase
+        .from('whatsapp_branch_selections')
+        .upsert({
+            sender_number: senderNumber,
+            market_ids: [],
+            asked_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+        }, { onConflict: 'sender_number' });
+
+    if (askedError) {
+        console.error('[Branches] Error storing question:', askedError);
+    }
+
+    const rows = memberships.map(membership => ({
+        id: `${BRANCH_SELECT_PREFIX}${membership.market.id}`,
+        title: membership.market.name.slice(0, MAX_ROW_TITLE_LENGTH),
+        description: membership.market.city
+    }));
+
+    // First row, so it isn't cut off by the ten-row limit of list messages
+    const owned = getOwnedBranches(memberships);
+    if (owned.length > 1) {
+        rows.unshift({
+            id: `${BRANCH_SELECT_PREFIX}${ALL_BRANCHES_ID}`,
+            title: t('branches.all'),
+            description: t('branches.allDescription', { count: owned.length })
+        });
+    }
+
+    await sendWhatsAppList(senderNumber, t('branches.question'), t('branches.button'), [
+        { title: t('branches.section'), rows }
+    ]);
+
+    return true;
+}
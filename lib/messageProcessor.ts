@@ -1,11 +1,26 @@
 /**
  * Message Processor
- * Handles delayed processing of pending messages after the 15-second wait
+ * Handles delayed processing of buffered message batches after the 15-second wait
  */
 
 import { createClient } from '@supabase/supabase-js';
-import { getReadyPendingMessage, markAsProcessing, deletePendingMessage } from './pendingMessages';
+import { deleteBatch, getTargetMarketIds, groupBatchContent, recordProcessedPages, type BatchContent, type BatchImage, type BufferedMessage, type MessageBatch } from './pendingMessages';
+import { recordFailedBatch, recordFailedAttempt, markFailedBatchResolved, updateFailedBatchMessages, MAX_ATTEMPTS, type FailedBatch } from './failedMessages';
+import { getWhatsAppMediaUrl } from '@/app/api/webhooks/whatsapp/media';
+import { logConversationEvent } from './conversationLog';
+import { transcribeWhatsAppAudio } from './speechToText';
+import { downloadWhatsAppDocument, splitPdfPages } from './pdfDocuments';
 import { generateProductImage } from './ai';
+import { sendWhatsAppText, sendWhatsAppButtons, formatPrice, formatDate } from './whatsappMessages';
+import { rememberDrafts } from './whatsappSessions';
+import { DRAFT_DELETE_BUTTON_PREFIX, DUPLICATE_MERGE_BUTTON_PREFIX, DUPLICATE_KEEP_BUTTON_PREFIX } from './whatsappCommands';
+import { getBotTranslator, getSenderLocale, type BotTranslator } from './whatsappLanguage';
+import { getMemberRole, getOwnerNumbers, type MarketMemberRole } from './marketMembers';
+import { getAutoPublishSettings, evaluateAutoPublish, recordAutoPublishDecision } from './autoPublish';
+import { extractOffers, type ExtractedOffer } from './offerExtraction';
+import { getDiscountPercent, getPriceColumns } from './offerPricing';
+import { findDuplicateOffer, type ExistingOffer } from './offerDuplicates';
+import type { Locale } from '@/i18n/routing';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -17,13 +32,53 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
     }
 });
 
+// Confirmations list up to this many drafts in detail, longer lists (flyers) one line per draft
+const DETAILED_SUMMARY_LIMIT = 5;
+const COMPACT_SUMMARY_LIMIT = 40;
+
 interface ProcessResult {
     success: boolean;
-    offerId?: string;
+    offerIds?: string[];
     error?: string;
     invalidReason?: string;
+    // Failures on our side (exceptions, unusable AI responses) are retried via the dead-letter queue
+    retryable?: boolean;
+    rawAiResponse?: string;
+    // The created drafts, so the results of several extractions (e.g. flyer pages) can be confirmed together
+    offers?: CreatedOffer[];
+}
+
+/**
+ * A single page of a PDF flyer that is sent to the AI instead of images
+ */
+interface DocumentPageInput {
+    fileName: string;
+    pageNumber: number;
+    pageCount: number;
+    data: Uint8Array;
+}
+
+/**
+ * Options for a single AI extraction
+ */
+interface ExtractionOptions {
+    // Extract from this flyer page (content.images is ignored)
+    page?: DocumentPageInput;
+    // Don't reply to the sender - the caller confirms the combined results itself
+    silent?: boolean;
+    // Reply language of the sender (default: German)
+    locale?: Locale;
+    // Role of the sender within the market - drafts of employees are sent to the owners for approval
+    role?: MarketMemberRole | null;
+    // Create every offer for these markets ("alle Filialen"); the batch's own market comes first
+    targetMarketIds?: string[];
 }
 
+/**
+ * Stores which pages of a batch message were extracted and the offers created from them
+ */
+type ProgressRecorder = (messageId: string, processedPages: number[], pageOfferIds: string[]) => Promise<void>;
+
 /**
  * Schedule processing of a pending message after 15 seconds
  * @deprecated This function is now a no-op. Processing is handled by the cron job at /api/cron/process-messages
@@ -39,422 +94,920 @@ export function scheduleMessageProcessing(
 }
 
 /**
- * Process a pending message directly (called by cron job)
- * This version takes the pending message object directly instead of querying for it
+ * Process a claimed batch of buffered messages (called by cron job)
+ * Batches that fail on our side are moved to the dead-letter queue for retries
  */
-export async function processPendingMessage(
-    pendingMessage: {
-        id: string;
-        sender_number: string;
-        market_id: string;
-        caption: string | null;
-        image_url: string | null;
-    }
-): Promise<ProcessResult> {
+export async function processPendingMessage(batch: MessageBatch): Promise<ProcessResult> {
+    let result: ProcessResult;
+    // The progress is kept in memory too, so a batch moved to the dead-letter queue keeps it
+    let messages = batch.messages;
+    const recordProgress: ProgressRecorder = async (messageId, processedPages, pageOfferIds) => {
+        messages = withPageProgress(messages, messageId, processedPages, pageOfferIds);
+        await recordProcessedPages(messageId, processedPages, pageOfferIds);
+    };
+
     try {
-        console.log('[Processor] 🎯 Processing message from cron:', {
-            id: pendingMessage.id,
-            caption: pendingMessage.caption,
-            hasImage: !!pendingMessage.image_url
+        const content = groupBatchContent({ ...batch, messages: await transcribeVoiceNotes(batch.messages) });
+
+        console.log('[Processor] 🎯 Processing batch from cron:', {
+            batchId: batch.batch_id,
+            messages: batch.messages.length,
+            text: content.text,
+            images: content.images.length,
+            documents: content.documents.length
         });
 
-        // Mark as processing to prevent duplicate processing
-        await markAsProcessing(pendingMessage.id);
+        await logConversationEvent({
+            marketId: batch.market_id,
+            senderNumber: batch.sender_number,
+            type: 'batch_merged',
+            batchId: batch.batch_id,
+            summary: `${batch.messages.length} Nachricht(en), ${content.images.length} Bild(er), ${content.documents.length} Dokument(e)`,
+            details: {
+                wamids: batch.messages.map(message => message.wamid),
+                text: content.text,
+                images: content.images,
+                documents: content.documents
+            }
+        });
 
         // Process with AI - use sender_number for WhatsApp replies
-        const result = await processWithAI(pendingMessage, pendingMessage.market_id, pendingMessage.sender_number);
+        result = await processBatchContent(content, batch.market_id, batch.sender_number, batch.batch_id, recordProgress, getTargetMarketIds(batch));
+    } catch (err) {
+        console.error('[Processor] Error processing batch:', err);
+        result = { success: false, error: String(err), retryable: true };
+    }
 
-        // Delete the pending message after processing
-        await deletePendingMessage(pendingMessage.id);
+    await logProcessingOutcome(batch.market_id, batch.sender_number, batch.batch_id, result);
 
-        return result;
+    if (result.retryable) {
+        const recorded = await recordFailedBatch({ ...batch, messages }, result);
+        if (!recorded) {
+            // Keep the buffered messages - the stale claim is picked up again by a later cron run
+            return result;
+        }
+    }
+
+    // Delete the buffered messages after processing (or after moving them to the dead-letter queue)
+    await deleteBatch(batch.batch_id);
+
+    return result;
+}
+
+/**
+ * Retry a batch from the dead-letter queue (called by cron job and admin replay)
+ * The batch must have been claimed via claimDueFailedBatches() or claimFailedBatch()
+ */
+export async function processFailedBatch(failedBatch: FailedBatch): Promise<ProcessResult> {
+    let result: ProcessResult;
+    // The buffered messages are gone, so the progress is stored in the batch's own copy of them
+    let storedMessages = failedBatch.messages;
+    const recordProgress: ProgressRecorder = async (messageId, processedPages, pageOfferIds) => {
+        storedMessages = withPageProgress(storedMessages, messageId, processedPages, pageOfferIds);
+        await updateFailedBatchMessages(failedBatch.id, storedMessages);
+    };
+
+    try {
+        // WhatsApp download URLs expire after a few minutes, so request fresh ones for the retry
+        const refreshedMessages = await Promise.all(failedBatch.messages.map(async (message) => {
+            if (message.message_type !== 'image' || !message.media_id) {
+                return message;
+            }
+            const freshUrl = await getWhatsAppMediaUrl(message.media_id);
+            return { ...message, image_url: freshUrl || message.image_url };
+        }));
+        const messages = await transcribeVoiceNotes(refreshedMessages);
+
+        console.log('[Processor] 🔁 Retrying failed batch:', {
+            id: failedBatch.id,
+            attempt: failedBatch.attempt_count + 1,
+            messages: messages.length
+        });
+
+        const retryBatch: MessageBatch = {
+            batch_id: failedBatch.id,
+            sender_number: failedBatch.sender_number,
+            market_id: failedBatch.market_id,
+            messages
+        };
+        const content = groupBatchContent(retryBatch);
+
+        await logConversationEvent({
+            marketId: failedBatch.market_id,
+            senderNumber: failedBatch.sender_number,
+            type: 'batch_merged',
+            batchId: failedBatch.id,
+            summary: `Wiederholung ${failedBatch.attempt_count + 1}: ${messages.length} Nachricht(en), ${content.images.length} Bild(er), ${content.documents.length} Dokument(e)`,
+            details: {
+                wamids: messages.map(message => message.wamid),
+                text: content.text,
+                images: content.images,
+                documents: content.documents,
+                attempt: failedBatch.attempt_count + 1
+            }
+        });
+
+        result = await processBatchContent(content, failedBatch.market_id, failedBatch.sender_number, failedBatch.id, recordProgress, getTargetMarketIds(retryBatch));
     } catch (err) {
-        console.error('[Processor] Error processing message:', err);
-        return { success: false, error: String(err) };
+        console.error('[Processor] Error retrying failed batch:', err);
+        result = { success: false, error: String(err), retryable: true };
     }
+
+    await logProcessingOutcome(failedBatch.market_id, failedBatch.sender_number, failedBatch.id, result);
+
+    if (!result.retryable) {
+        // Either offers were created or the AI gave a definite answer (e.g. missing price) - done either way
+        await markFailedBatchResolved(failedBatch.id);
+        return result;
+    }
+
+    const status = await recordFailedAttempt(failedBatch, result);
+
+    // Only tell the sender once - manual replays of an exhausted batch stay silent
+    if (status === 'exhausted' && failedBatch.attempt_count + 1 === MAX_ATTEMPTS) {
+        console.log('[Processor] ❌ Giving up on failed batch:', failedBatch.id);
+        const t = getBotTranslator(await getSenderLocale(failedBatch.market_id, failedBatch.sender_number));
+        await sendWhatsAppText(failedBatch.sender_number, t('processingFailed'));
+    }
+
+    return result;
 }
 
 /**
- * Process a ready pending message
+ * Extract offers from the grouped content of a batch
+ * Messages and images are extracted in one go; PDF flyers are extracted page by page
+ * and all resulting drafts are confirmed to the sender together
  */
-async function processReadyMessage(
-    senderNumber: string,
+async function processBatchContent(
+    content: BatchContent,
     marketId: string,
-    senderWhatsAppNumber: string
+    senderWhatsAppNumber: string,
+    batchId: string,
+    recordProgress: ProgressRecorder,
+    targetMarketIds: string[] = [marketId]
 ): Promise<ProcessResult> {
-    try {
-        // Check if there's a ready message
-        const { success, pendingMessage, error } = await getReadyPendingMessage(senderNumber, marketId);
+    const [locale, role] = await Promise.all([
+        getSenderLocale(marketId, senderWhatsAppNumber),
+        getMemberRole(marketId, senderWhatsAppNumber)
+    ]);
+
+    if (content.documents.length === 0) {
+        return processWithAI(content, marketId, senderWhatsAppNumber, batchId, { locale, role, targetMarketIds });
+    }
 
-        if (!success || !pendingMessage) {
-            console.log('[Processor] No message ready to process (might have been updated recently)');
-            return { success: false, error: error || 'No message found' };
+    const offers: CreatedOffer[] = [];
+    const errors: string[] = [];
+    let invalidReason: string | undefined;
+    let rawAiResponse: string | undefined;
+    let retryableFailure = false;
+
+    const collect = (result: ProcessResult) => {
+        offers.push(...(result.offers || []));
+        if (result.retryable) {
+            retryableFailure = true;
+            rawAiResponse = rawAiResponse || result.rawAiResponse;
+        } else if (!result.success) {
+            invalidReason = invalidReason || result.invalidReason;
         }
+        if (result.error) {
+            errors.push(result.error);
+        }
+    };
 
-        console.log('[Processor] 🎯 Processing message:', {
-            caption: pendingMessage.caption,
-            hasImage: !!pendingMessage.image_url
-        });
+    // Drafts of the parts an earlier run already extracted are confirmed together with the rest
+    const earlierOfferIds = [...content.images, ...content.documents].flatMap(part => part.page_offer_ids);
+    if (earlierOfferIds.length > 0) {
+        offers.push(...await fetchCreatedOffers(earlierOfferIds));
+    }
+
+    // Images sent together with the flyer are extracted as usual, all in one go
+    if (content.images.some(image => image.processed_pages.length === 0)) {
+        const result = await processWithAI({ ...content, documents: [] }, marketId, senderWhatsAppNumber, batchId, { silent: true, locale, role, targetMarketIds });
+        collect(result);
+
+        if (!result.retryable) {
+            // The drafts are kept with the first image, so a retry loads them only once
+            for (const [index, image] of content.images.entries()) {
+                await recordProgress(image.message_id, [1], index === 0 ? result.offerIds || [] : []);
+            }
+        }
+    }
 
-        // Mark as processing to prevent duplicate processing
-        await markAsProcessing(pendingMessage.id);
+    for (const document of content.documents) {
+        const fileName = document.file_name || 'Prospekt.pdf';
+        const { pageCount, pages } = await splitPdfPages(await downloadWhatsAppDocument(document.media_id));
+        // The batch text and the document caption (e.g. "gültig bis Samstag") apply to every page
+        const pageText = [content.text, document.caption].filter(Boolean).join('\n') || null;
 
-        // Process with AI
-        const result = await processWithAI(pendingMessage, marketId, senderWhatsAppNumber);
+        // An earlier run that timed out or failed mid-flyer left its progress on the document
+        const processedPages = [...document.processed_pages];
+        const pageOfferIds = [...document.page_offer_ids];
 
-        // Delete the pending message after processing
-        await deletePendingMessage(pendingMessage.id);
+        for (const page of pages) {
+            if (processedPages.includes(page.pageNumber)) {
+                console.log(`[Processor] ⏭️ Skipping ${fileName} page ${page.pageNumber}/${pageCount}, extracted by an earlier run`);
+                continue;
+            }
 
-        return result;
-    } catch (err) {
-        console.error('[Processor] Error processing message:', err);
-        return { success: false, error: String(err) };
+            console.log(`[Processor] 📄 Extracting ${fileName} page ${page.pageNumber}/${pageCount}...`);
+            const result = await processWithAI(
+                { text: pageText, images: [], documents: [] },
+                marketId,
+                senderWhatsAppNumber,
+                batchId,
+                { silent: true, locale, role, targetMarketIds, page: { fileName, pageNumber: page.pageNumber, pageCount, data: page.data } }
+            );
+            collect(result);
+
+            // Pages that failed on our side stay open, so a reclaimed batch extracts them again
+            if (!result.retryable) {
+                processedPages.push(page.pageNumber);
+                pageOfferIds.push(...(result.offerIds || []));
+                await recordProgress(document.message_id, processedPages, pageOfferIds);
+            }
+        }
     }
+
+    // Confirm only once every page is done - the retry extracts the open pages and confirms all drafts together
+    if (retryableFailure) {
+        return { success: false, retryable: true, error: errors.join('; '), rawAiResponse };
+    }
+
+    if (offers.length === 0) {
+        await sendRejectionMessage(senderWhatsAppNumber, invalidReason || 'INVALID: MISSING_BOTH', getBotTranslator(locale));
+        return { success: false, invalidReason: invalidReason || 'INVALID: NO_PRODUCTS' };
+    }
+
+    // Pages that failed for good (e.g. no prices on them) don't hold back the drafts of the others
+    await confirmDrafts(senderWhatsAppNumber, marketId, offers, { locale, role });
+
+    return {
+        success: true,
+        offerIds: offers.map(offer => offer.id),
+        offers,
+        error: errors.length > 0 ? errors.join('; ') : undefined
+    };
 }
 
 /**
- * Process message with AI validation and create offer if valid
+ * Load the drafts an earlier run created from a flyer, so they are confirmed together with the remaining pages
+ * Drafts the sender or our team removed in the meantime are left out.
  */
-async function processWithAI(
-    pendingMessage: any,
-    marketId: string,
-    senderWhatsAppNumber: string
-): Promise<ProcessResult> {
-    try {
-        console.log('[Processor] 🤖 Sending to AI for validation via OpenRouter...');
-
-        const systemPrompt = `You are a validation gatekeeper for a grocery market offer system.
-
-Your job: Check if this message contains BOTH a clear Product Name AND a Price.
-
-Rules:
-1. If BOTH product name AND price are present → Extract and return JSON with the data
-2. If MISSING product name → Return exactly: "INVALID: MISSING_PRODUCT"
-3. If MISSING price → Return exactly: "INVALID: MISSING_PRICE"
-4. If BOTH are missing → Return exactly: "INVALID: MISSING_BOTH"
-5. If the message is gibberish/unclear → Return exactly: "INVALID: UNCLEAR_MESSAGE"
-
-If VALID, return JSON like this:
-{
-    "product_name": "Extracted product name in German",
-    "price": 4.99,
-    "unit": "kg or Stück or Bund etc.",
-    "description": "An appetizing 1-sentence description of the product in German that makes customers want to buy it. Do NOT include price, validity period, or unit here - just describe the product quality/taste/freshness.",
-    "ai_category": "Category from: Obst & Gemüse, Fleisch & Wurst, Milchprodukte, Backwaren, Getränke, Sonstiges",
-    "validity_days": 7
+async function fetchCreatedOffers(offerIds: string[]): Promise<CreatedOffer[]> {
+    const { data, error } = await supabase
+        .from('offers')
+        .select('id, market_id, product_name, price, regular_price, unit, ai_category, expires_at, status, duplicate:duplicate_of(id, product_name, price, unit, status, expires_at)')
+        .in('id', offerIds)
+        .in('status', ['draft', 'live'])
+        .is('deleted_at', null);
+
+    if (error) {
+        throw error;
+    }
+
+    return (data || []).map(offer => ({
+        ...offer,
+        duplicate: offer.duplicate as unknown as ExistingOffer | null
+    }));
 }
 
-Note on validity_days: Extract the validity period from the message if mentioned (e.g., "drei Tage" = 3, "eine Woche" = 7, "zwei Wochen" = 14). If not mentioned, default to 7 days.
-
-If INVALID, return one of the INVALID codes above.`;
-
-        const userMessage = `Message to validate:
-Caption: ${pendingMessage.caption || 'No caption'}
-Has Image: ${pendingMessage.image_url ? 'Yes' : 'No'}`;
-
-        // Build messages array for OpenRouter
-        const messages: any[] = [
-            { role: 'system', content: systemPrompt }
-        ];
-
-        // Add user message (with image if available)
-        if (pendingMessage.image_url) {
-            const imageBase64 = await fetchImageAsBase64(pendingMessage.image_url);
-            messages.push({
-                role: 'user',
-                content: [
-                    { type: 'text', text: userMessage },
-                    { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } }
-                ]
-            });
-        } else {
-            messages.push({ role: 'user', content: userMessage });
+/**
+ * Copy the extraction progress of one message into the messages of a batch
+ */
+function withPageProgress(
+    messages: BufferedMessage[],
+    messageId: string,
+    processedPages: number[],
+    pageOfferIds: string[]
+): BufferedMessage[] {
+    return messages.map(message => message.id === messageId
+        ? { ...message, processed_pages: processedPages, page_offer_ids: pageOfferIds }
+        : message);
+}
+
+/**
+ * Transcribe the voice notes of a batch into their `text`, so they are handled like text messages
+ * Throws if a voice note cannot be transcribed - the batch then goes to the dead-letter queue
+ */
+async function transcribeVoiceNotes(messages: BufferedMessage[]): Promise<BufferedMessage[]> {
+    return Promise.all(messages.map(async (message) => {
+        if (message.message_type !== 'audio' || !message.media_id || message.text) {
+            return message;
         }
+        const transcript = await transcribeWhatsAppAudio(message.media_id);
+        return { ...message, text: transcript || null };
+    }));
+}
 
-        // Call OpenRouter API
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': 'https://bereket.market',
-                'X-Title': 'Bereket Market WhatsApp Bot'
-            },
-            body: JSON.stringify({
-                model: 'google/gemini-2.0-flash-001',
-                messages: messages,
-                temperature: 0.3,
-                max_tokens: 500
-            })
+/**
+ * Write the result of a processing run to the conversation log
+ */
+async function logProcessingOutcome(
+    marketId: string,
+    senderNumber: string,
+    batchId: string,
+    result: ProcessResult
+): Promise<void> {
+    if (result.success) {
+        await logConversationEvent({
+            marketId,
+            senderNumber,
+            type: 'offers_created',
+            batchId,
+            summary: `${result.offerIds?.length || 0} Entwurf/Entwürfe erstellt`,
+            details: { error: result.error || null },
+            offerIds: result.offerIds
+        });
+    } else if (result.retryable) {
+        await logConversationEvent({
+            marketId,
+            senderNumber,
+            type: 'failed',
+            batchId,
+            summary: result.error || 'Unbekannter Fehler',
+            details: { invalid_reason: result.invalidReason || null }
+        });
+    } else {
+        await logConversationEvent({
+            marketId,
+            senderNumber,
+            type: 'rejected',
+            batchId,
+            summary: result.invalidReason || result.error || 'Abgelehnt',
+            details: { invalid_reason: result.invalidReason || null, error: result.error || null }
         });
+    }
+}
 
-        const aiData = await response.json();
-        const aiText = aiData?.choices?.[0]?.message?.content || '';
+/**
+ * The fields of a newly created draft offer that are echoed back to the sender
+ */
+interface CreatedOffer {
+    id: string;
+    market_id: string;
+    product_name: string;
+    price: string;
+    regular_price: number | null;
+    unit: string | null;
+    ai_category: string | null;
+    expires_at: string;
+    // 'live' if the offer was auto-published for a trusted market
+    status: 'draft' | 'live';
+    // The existing offer of the market this offer likely repeats
+    duplicate: ExistingOffer | null;
+}
 
-        console.log('[Processor] AI Response:', aiText);
-        console.log('[Processor] Full AI Data:', JSON.stringify(aiData, null, 2));
+/**
+ * Process message with AI validation and create one draft offer per extracted product
+ */
+async function processWithAI(
+    content: BatchContent,
+    marketId: string,
+    senderWhatsAppNumber: string,
+    batchId: string,
+    options: ExtractionOptions = {}
+): Promise<ProcessResult> {
+    try {
+        const { page } = options;
+
+        // WhatsApp media URLs require our access token, so the images are sent to the model inline
+        const images = page ? [] : await Promise.all(content.images.map(async (image) => ({
+            url: `data:image/jpeg;base64,${await fetchImageAsBase64(image.image_url)}`,
+            caption: image.caption
+        })));
+
+        const extraction = await extractOffers({ text: content.text, images, page });
+        const { exchange } = extraction;
+
+        // Images are logged by URL/caption only - the base64 payload would bloat the log
+        await logConversationEvent({
+            marketId,
+            senderNumber: senderWhatsAppNumber,
+            type: 'ai_exchange',
+            batchId,
+            summary: exchange.response.trim().slice(0, 200) || `HTTP ${exchange.httpStatus}`,
+            details: {
+                model: exchange.model,
+                system_prompt: exchange.systemPrompt,
+                user_message: exchange.userMessage,
+                images: content.images,
+                page: page ? { file_name: page.fileName, page_number: page.pageNumber, page_count: page.pageCount } : null,
+                http_status: exchange.httpStatus,
+                response: exchange.response
+            }
+        });
 
-        // Handle empty or missing AI response
-        if (!aiText || aiText.trim() === '') {
-            console.log('[Processor] ❌ AI returned empty response, treating as invalid');
-            await sendRejectionMessage(senderWhatsAppNumber, 'INVALID: UNCLEAR_MESSAGE');
-            return { success: false, invalidReason: 'INVALID: EMPTY_RESPONSE' };
-        }
+        if (!extraction.ok) {
+            const invalidReason = `INVALID: ${extraction.code}`;
+
+            // The model or provider failed us, not the sender - retry later via the dead-letter queue
+            if (extraction.retryable) {
+                console.log('[Processor] ❌ Extraction failed, moving to dead-letter queue:', extraction.error);
+                return { success: false, retryable: true, invalidReason, error: extraction.error, rawAiResponse: exchange.response };
+            }
 
-        // Check if AI returned INVALID
-        if (aiText.trim().startsWith('INVALID:')) {
-            const invalidReason = aiText.trim();
             console.log('[Processor] ❌ AI Validation Failed:', invalidReason);
 
             // Send rejection message to user
-            await sendRejectionMessage(senderWhatsAppNumber, invalidReason);
+            if (!options.silent) {
+                await sendRejectionMessage(senderWhatsAppNumber, invalidReason, getBotTranslator(options.locale));
+            }
 
             return { success: false, invalidReason };
         }
 
-        // Try to parse as JSON
-        let offerData;
-        try {
-            const cleanJson = aiText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-            offerData = JSON.parse(cleanJson);
-        } catch (parseError) {
-            console.log('[Processor] ❌ Failed to parse AI response as JSON:', parseError);
-            console.log('[Processor] Raw AI text:', aiText);
-            // If we can't parse as JSON and it's not INVALID, treat as unclear
-            await sendRejectionMessage(senderWhatsAppNumber, 'INVALID: UNCLEAR_MESSAGE');
-            return { success: false, invalidReason: 'INVALID: PARSE_ERROR' };
+        const products = extraction.offers;
+
+        console.log(`[Processor] ✅ AI Validation Passed, creating ${products.length} offer(s)...`);
+
+        const createdOffers: CreatedOffer[] = [];
+        const errors: string[] = [];
+
+        const targetMarketIds = options.targetMarketIds || [marketId];
+
+        // Only owners can publish - offers from employee numbers always wait for approval.
+        // Every branch has its own trust settings.
+        const autoPublishSettings = new Map(await Promise.all(targetMarketIds.map(async (targetMarketId) =>
+            [targetMarketId, options.role === 'owner' ? await getAutoPublishSettings(targetMarketId) : null] as const
+        )));
+
+        for (const product of products) {
+            // The image is uploaded once and shared by the offers of all branches
+            const sentImage = findProductImage(product, products, content.images);
+            const imageId = sentImage
+                ? await uploadWhatsAppImage(sentImage.image_url, product.product_name)
+                : await findOrGenerateLibraryImage(product.product_name);
+
+            for (const targetMarketId of targetMarketIds) {
+                // Offers from the same message are not compared with each other - a flyer can list a product in two sizes
+                const duplicate = await findDuplicateOffer(
+                    targetMarketId,
+                    product.product_name,
+                    createdOffers.map(offer => offer.id)
+                );
+
+                // A likely duplicate always stays a draft until it is merged or kept
+                const autoPublish = autoPublishSettings.get(targetMarketId);
+                const decision = autoPublish && !duplicate
+                    ? evaluateAutoPublish({ ...product, image_id: imageId }, autoPublish)
+                    : null;
+
+                const { offer, error } = await createDraftOffer(
+                    targetMarketId,
+                    product,
+                    imageId,
+                    page ? { document: page.fileName, page: page.pageNumber } : undefined,
+                    decision?.publish ? 'live' : 'draft',
+                    duplicate
+                );
+
+                if (offer) {
+                    createdOffers.push(offer);
+                    if (decision) {
+                        console.log(`[Processor] ${decision.publish ? '🚀' : '⏸️'} ${decision.reason}`);
+                        await recordAutoPublishDecision(offer.id, targetMarketId, offer.product_name, decision);
+                    }
+                } else if (error) {
+                    errors.push(`${product.product_name}: ${error}`);
+                }
+            }
         }
 
-        console.log('[Processor] ✅ AI Validation Passed, creating offer...');
+        if (createdOffers.length === 0) {
+            return { success: false, retryable: true, error: errors.join('; '), rawAiResponse: exchange.response };
+        }
 
-        // Handle image: upload new one OR find existing in library
-        let imageId: string | null = null;
+        if (!options.silent) {
+            await confirmDrafts(senderWhatsAppNumber, marketId, createdOffers, options);
+        }
 
-        if (pendingMessage.image_url) {
-            // User sent an image - upload it
-            try {
-                console.log('[Processor] 📸 Uploading image to storage...');
+        return {
+            success: true,
+            offerIds: createdOffers.map(offer => offer.id),
+            offers: createdOffers,
+            error: errors.length > 0 ? errors.join('; ') : undefined
+        };
 
-                // Fetch image from WhatsApp
-                const imageResponse = await fetch(pendingMessage.image_url, {
-                    headers: {
-                        'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`
-                    }
-                });
-
-                if (imageResponse.ok) {
-                    const imageBuffer = await imageResponse.arrayBuffer();
-                    const filename = `whatsapp-${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
-
-                    // Upload to Supabase storage
-                    const { error: uploadError } = await supabase
-                        .storage
-                        .from('offer-images')
-                        .upload(filename, imageBuffer, {
-                            contentType: 'image/jpeg',
-                            upsert: false
-                        });
-
-                    if (!uploadError) {
-                        // Get public URL
-                        const { data: urlData } = supabase
-                            .storage
-                            .from('offer-images')
-                            .getPublicUrl(filename);
-
-                        // Save to image_library
-                        const { data: libraryEntry, error: libraryError } = await supabase
-                            .from('image_library')
-                            .insert({
-                                url: urlData.publicUrl,
-                                product_name: offerData.product_name
-                            })
-                            .select('id')
-                            .single();
-
-                        if (!libraryError && libraryEntry) {
-                            imageId = libraryEntry.id;
-                            console.log('[Processor] ✅ Image uploaded and saved to library:', imageId);
-                        } else {
-                            console.error('[Processor] Error saving to image_library:', libraryError);
-                        }
-                    } else {
-                        console.error('[Processor] Error uploading image:', uploadError);
-                    }
-                } else {
-                    console.error('[Processor] Failed to fetch WhatsApp image:', imageResponse.status);
-                }
-            } catch (imageError) {
-                console.error('[Processor] Error processing image:', imageError);
+    } catch (err) {
+        console.error('[Processor] Error in AI processing:', err);
+        return { success: false, retryable: true, error: String(err) };
+    }
+}
+
+/**
+ * Find the sent image that shows a product.
+ * A photo only shows the product itself when no other product refers to the same image.
+ * For flyers and shelf photos with several products, each offer gets a library or AI image instead.
+ */
+function findProductImage(
+    product: ExtractedOffer,
+    products: ExtractedOffer[],
+    images: BatchImage[]
+): BatchImage | null {
+    // A single image with a single product needs no index from the AI
+    if (images.length === 1 && products.length === 1) {
+        return images[0];
+    }
+
+    const index = product.image_index;
+    if (!index || index < 1 || index > images.length) {
+        return null;
+    }
+
+    const productsOnImage = products.filter(other => other.image_index === index).length;
+    return productsOnImage === 1 ? images[index - 1] : null;
+}
+
+/**
+ * Insert a single draft offer for an extracted product
+ * @param duplicate - The existing offer the product likely repeats; the draft is flagged with it
+ */
+async function createDraftOffer(
+    marketId: string,
+    product: ExtractedOffer,
+    imageId: string | null,
+    source?: { document: string; page: number },
+    status: 'draft' | 'live' = 'draft',
+    duplicate: ExistingOffer | null = null
+): Promise<{ offer?: CreatedOffer; error?: string }> {
+    const validityDays = product.validity_days;
+    console.log('[Processor] 📅 Validity period for', product.product_name, ':', validityDays, 'days');
+
+    const { data: offer, error } = await supabase
+        .from('offers')
+        .insert({
+            market_id: marketId,
+            product_name: product.product_name,
+            ...getPriceColumns(product.price, product.unit),
+            regular_price: product.regular_price,
+            unit: product.unit || null,
+            description: product.description || null,
+            ai_category: product.ai_category || null,
+            image_id: imageId,
+            status,
+            ai_confidence: product.confidence,
+            expires_at: new Date(Date.now() + validityDays * 24 * 60 * 60 * 1000).toISOString(),
+            // Drafts from a PDF flyer are tagged with their source, so reviewers can check them against it
+            source_document: source?.document || null,
+            source_page: source?.page || null,
+            duplicate_of: duplicate?.id || null
+        })
+        .select('id, market_id, product_name, price, regular_price, unit, ai_category, expires_at, status')
+        .single();
+
+    if (error) {
+        console.error('[Processor] Error creating offer:', error);
+        return { error: error.message };
+    }
+
+    console.log('[Processor] ✅ Offer created:', offer.id, 'with image_id:', imageId);
+    return { offer: { ...offer, duplicate } };
+}
+
+/**
+ * Upload the image the sender attached to storage and save it to the image library
+ * @returns The image_library ID, or null if the upload failed
+ */
+async function uploadWhatsAppImage(imageUrl: string, productName: string): Promise<string | null> {
+    try {
+        console.log('[Processor] 📸 Uploading image to storage...');
+
+        // Fetch image from WhatsApp
+        const imageResponse = await fetch(imageUrl, {
+            headers: {
+                'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`
             }
-        } else {
-            // No image sent - search image_library for existing image with same product name
-            console.log('[Processor] 🔎 No image sent, searching library for:', offerData.product_name);
-
-            const { data: existingImage, error: searchError } = await supabase
-                .from('image_library')
-                .select('id')
-                .eq('product_name', offerData.product_name)
-                .limit(1)
-                .maybeSingle();
-
-            if (!searchError && existingImage) {
-                imageId = existingImage.id;
-                console.log('[Processor] ♻️ Found existing image in library:', imageId);
-            } else {
-                // No existing image - generate one via AI
-                console.log('[Processor] 🎨 No existing image found, generating via AI for:', offerData.product_name);
-
-                try {
-                    const generatedImageUrl = await generateProductImage(offerData.product_name);
-
-                    if (generatedImageUrl) {
-                        console.log('[Processor] ✅ AI image generated, uploading to storage...');
-
-                        // Convert base64 data URL to buffer
-                        let imageBuffer: ArrayBuffer;
-                        let contentType = 'image/png';
-
-                        if (generatedImageUrl.startsWith('data:')) {
-                            // Parse base64 data URL
-                            const matches = generatedImageUrl.match(/^data:([^;]+);base64,(.+)$/);
-                            if (matches) {
-                                contentType = matches[1];
-                                const base64Data = matches[2];
-                                const binaryString = atob(base64Data);
-                                const bytes = new Uint8Array(binaryString.length);
-                                for (let i = 0; i < binaryString.length; i++) {
-                                    bytes[i] = binaryString.charCodeAt(i);
-                                }
-                                imageBuffer = bytes.buffer;
-                            } else {
-                                throw new Error('Invalid base64 data URL format');
-                            }
-                        } else {
-                            // Regular URL - fetch it
-                            const response = await fetch(generatedImageUrl);
-                            imageBuffer = await response.arrayBuffer();
-                        }
-
-                        const extension = contentType.includes('png') ? 'png' : 'jpg';
-                        const filename = `ai-generated-${Date.now()}-${Math.random().toString(36).substring(7)}.${extension}`;
-
-                        // Upload to Supabase storage
-                        const { error: uploadError } = await supabase
-                            .storage
-                            .from('offer-images')
-                            .upload(filename, imageBuffer, {
-                                contentType,
-                                upsert: false
-                            });
-
-                        if (!uploadError) {
-                            // Get public URL
-                            const { data: urlData } = supabase
-                                .storage
-                                .from('offer-images')
-                                .getPublicUrl(filename);
-
-                            // Save to image_library
-                            const { data: libraryEntry, error: libraryError } = await supabase
-                                .from('image_library')
-                                .insert({
-                                    url: urlData.publicUrl,
-                                    product_name: offerData.product_name
-                                })
-                                .select('id')
-                                .single();
-
-                            if (!libraryError && libraryEntry) {
-                                imageId = libraryEntry.id;
-                                console.log('[Processor] ✅ AI image uploaded and saved to library:', imageId);
-                            } else {
-                                console.error('[Processor] Error saving AI image to library:', libraryError);
-                            }
-                        } else {
-                            console.error('[Processor] Error uploading AI image:', uploadError);
-                        }
-                    } else {
-                        console.log('[Processor] ⚠️ AI image generation returned null');
-                    }
-                } catch (genError) {
-                    console.error('[Processor] Error generating AI image:', genError);
+        });
+
+        if (!imageResponse.ok) {
+            console.error('[Processor] Failed to fetch WhatsApp image:', imageResponse.status);
+            return null;
+        }
+
+        const imageBuffer = await imageResponse.arrayBuffer();
+        const filename = `whatsapp-${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
+
+        const imageId = await saveImageToLibrary(imageBuffer, filename, 'image/jpeg', productName);
+        if (imageId) {
+            console.log('[Processor] ✅ Image uploaded and saved to library:', imageId);
+        }
+        return imageId;
+    } catch (imageError) {
+        console.error('[Processor] Error processing image:', imageError);
+        return null;
+    }
+}
+
+/**
+ * Search image_library for an existing image with the same product name,
+ * or generate a new one via AI if none exists
+ * @returns The image_library ID, or null if nothing could be found or generated
+ */
+async function findOrGenerateLibraryImage(productName: string): Promise<string | null> {
+    console.log('[Processor] 🔎 Searching library for:', productName);
+
+    const { data: existingImage, error: searchError } = await supabase
+        .from('image_library')
+        .select('id')
+        .eq('product_name', productName)
+        .is('deleted_at', null)
+        .limit(1)
+        .maybeSingle();
+
+    if (!searchError && existingImage) {
+        console.log('[Processor] ♻️ Found existing image in library:', existingImage.id);
+        return existingImage.id;
+    }
+
+    // No existing image - generate one via AI
+    console.log('[Processor] 🎨 No existing image found, generating via AI for:', productName);
+
+    try {
+        const generatedImageUrl = await generateProductImage(productName);
+
+        if (!generatedImageUrl) {
+            console.log('[Processor] ⚠️ AI image generation returned null');
+            return null;
+        }
+
+        console.log('[Processor] ✅ AI image generated, uploading to storage...');
+
+        // Convert base64 data URL to buffer
+        let imageBuffer: ArrayBuffer;
+        let contentType = 'image/png';
+
+        if (generatedImageUrl.startsWith('data:')) {
+            // Parse base64 data URL
+            const matches = generatedImageUrl.match(/^data:([^;]+);base64,(.+)$/);
+            if (matches) {
+                contentType = matches[1];
+                const base64Data = matches[2];
+                const binaryString = atob(base64Data);
+                const bytes = new Uint8Array(binaryString.length);
+                for (let i = 0; i < binaryString.length; i++) {
+                    bytes[i] = binaryString.charCodeAt(i);
                 }
+                imageBuffer = bytes.buffer;
+            } else {
+                throw new Error('Invalid base64 data URL format');
             }
+        } else {
+            // Regular URL - fetch it
+            const response = await fetch(generatedImageUrl);
+            imageBuffer = await response.arrayBuffer();
         }
 
-        // Create offer in database
-        const validityDays = offerData.validity_days || 7; // Default to 7 days if not specified
-        console.log('[Processor] 📅 Validity period:', validityDays, 'days');
-
-        const { data: offer, error } = await supabase
-            .from('offers')
-            .insert({
-                market_id: marketId,
-                product_name: offerData.product_name,
-                price: offerData.price,
-                unit: offerData.unit || null,
-                description: offerData.description || null,
-                ai_category: offerData.ai_category || null,
-                image_id: imageId,
-                status: 'draft',
-                expires_at: new Date(Date.now() + validityDays * 24 * 60 * 60 * 1000).toISOString()
-            })
-            .select()
-            .single();
-
-        if (error) {
-            console.error('[Processor] Error creating offer:', error);
-            return { success: false, error: error.message };
+        const extension = contentType.includes('png') ? 'png' : 'jpg';
+        const filename = `ai-generated-${Date.now()}-${Math.random().toString(36).substring(7)}.${extension}`;
+
+        const imageId = await saveImageToLibrary(imageBuffer, filename, contentType, productName);
+        if (imageId) {
+            console.log('[Processor] ✅ AI image uploaded and saved to library:', imageId);
         }
+        return imageId;
+    } catch (genError) {
+        console.error('[Processor] Error generating AI image:', genError);
+        return null;
+    }
+}
 
-        console.log('[Processor] ✅ Offer created:', offer.id, 'with image_id:', imageId);
+/**
+ * Upload an image buffer to the offer-images bucket and register it in image_library
+ * @returns The image_library ID, or null if the upload or insert failed
+ */
+async function saveImageToLibrary(
+    imageBuffer: ArrayBuffer,
+    filename: string,
+    contentType: string,
+    productName: string
+): Promise<string | null> {
+    // Upload to Supabase storage
+    const { error: uploadError } = await supabase
+        .storage
+        .from('offer-images')
+        .upload(filename, imageBuffer, {
+            contentType,
+            upsert: false
+        });
 
-        return { success: true, offerId: offer.id };
+    if (uploadError) {
+        console.error('[Processor] Error uploading image:', uploadError);
+        return null;
+    }
 
-    } catch (err) {
-        console.error('[Processor] Error in AI processing:', err);
-        return { success: false, error: String(err) };
+    // Get public URL
+    const { data: urlData } = supabase
+        .storage
+        .from('offer-images')
+        .getPublicUrl(filename);
+
+    // Save to image_library
+    const { data: libraryEntry, error: libraryError } = await supabase
+        .from('image_library')
+        .insert({
+            url: urlData.publicUrl,
+            product_name: productName
+        })
+        .select('id')
+        .single();
+
+    if (libraryError || !libraryEntry) {
+        console.error('[Processor] Error saving to image_library:', libraryError);
+        return null;
     }
+
+    return libraryEntry.id;
 }
 
 /**
- * Send rejection message to WhatsApp
+ * Confirm freshly created drafts to the sender
+ * Drafts from employee numbers are also sent to the market's owners for approval.
+ * Offers created for several branches are confirmed once, with the copies of the sender's market as preview.
  */
-async function sendRejectionMessage(toNumber: string, invalidReason: string): Promise<void> {
-    try {
-        // Map invalid reasons to user-friendly German messages
-        let message = "Ich konnte kein Angebot erkennen. Bitte sende Produktname und Preis zusammen mit dem Bild.";
-
-        if (invalidReason.includes('MISSING_PRODUCT')) {
-            message = "Ich sehe keinen Produktnamen. Bitte sende den Produktnamen zusammen mit dem Preis.";
-        } else if (invalidReason.includes('MISSING_PRICE')) {
-            message = "Ich sehe keinen Preis. Bitte sende den Preis zusammen mit dem Produktnamen.";
-        } else if (invalidReason.includes('MISSING_BOTH')) {
-            message = "Ich brauche sowohl den Produktnamen als auch den Preis. Bitte sende beides zusammen.";
+async function confirmDrafts(
+    senderNumber: string,
+    marketId: string,
+    offers: CreatedOffer[],
+    { locale = 'de', role = null }: Pick<ExtractionOptions, 'locale' | 'role'>
+): Promise<void> {
+    // Remember the drafts of all branches, so a correction or cancellation by reply applies to every copy
+    // (auto-published offers are final)
+    const draftIds = offers.filter(offer => offer.status === 'draft').map(offer => offer.id);
+    await rememberDrafts(senderNumber, marketId, draftIds);
+
+    const branchCount = new Set(offers.map(offer => offer.market_id)).size;
+    const ownOffers = offers.filter(offer => offer.market_id === marketId);
+    const preview = ownOffers.length > 0 ? ownOffers : offers;
+
+    // Let the sender know what we understood, so extraction mistakes are caught early
+    await sendConfirmationMessage(senderNumber, preview, getBotTranslator(locale), locale, {
+        canPublish: role === 'owner',
+        branchCount,
+        // The delete button must point at the session's first draft, see executeDraftCommand
+        anchorOfferId: draftIds[0]
+    });
+
+    if (role === 'employee') {
+        await requestOwnerApproval(marketId, senderNumber, preview);
+    } else if (role === 'owner') {
+        // Duplicates from employee numbers are left to the review, where they are flagged as well
+        await askToUpdateDuplicates(senderNumber, preview, getBotTranslator(locale), locale);
+    }
+}
+
+/**
+ * Ask the sender whether a new draft should update the existing offer it likely repeats ("Angebot aktualisieren?")
+ */
+async function askToUpdateDuplicates(toNumber: string, offers: CreatedOffer[], t: BotTranslator, locale: Locale): Promise<void> {
+    const duplicates = offers
+        .filter(offer => offer.status === 'draft' && offer.duplicate)
+        .slice(0, DETAILED_SUMMARY_LIMIT);
+
+    for (const offer of duplicates) {
+        const existing = offer.duplicate!;
+        const message = t('duplicates.question', {
+            productName: existing.product_name,
+            price: `${formatPrice(existing.price)}${existing.unit ? ` / ${existing.unit}` : ''}`,
+            date: formatDate(existing.expires_at, locale),
+            newPrice: `${formatPrice(offer.price)}${offer.unit ? ` / ${offer.unit}` : ''}`,
+            newDate: formatDate(offer.expires_at, locale)
+        });
+
+        const sent = await sendWhatsAppButtons(toNumber, message, [
+            { id: `${DUPLICATE_MERGE_BUTTON_PREFIX}${offer.id}`, title: t('duplicates.mergeButton') },
+            { id: `${DUPLICATE_KEEP_BUTTON_PREFIX}${offer.id}`, title: t('duplicates.keepButton') }
+        ]);
+
+        if (sent) {
+            console.log('[Processor] ✅ Asked to update duplicate offer:', existing.id);
         }
+    }
+}
 
-        await fetch(`https://graph.facebook.com/v17.0/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                messaging_product: 'whatsapp',
-                recipient_type: 'individual',
-                to: toNumber,
-                type: 'text',
-                text: {
-                    preview_url: false,
-                    body: message
-                }
-            })
+/**
+ * Ask the market's owners to approve drafts submitted from an employee number
+ */
+async function requestOwnerApproval(marketId: string, employeeNumber: string, offers: CreatedOffer[]): Promise<void> {
+    const ownerNumbers = (await getOwnerNumbers(marketId)).filter(number => number !== employeeNumber);
+
+    const lines = offers.slice(0, COMPACT_SUMMARY_LIMIT).map(offer =>
+        `• *${offer.product_name}* – ${formatPrice(offer.price)}${offer.unit ? ` / ${offer.unit}` : ''}`
+    );
+
+    for (const ownerNumber of ownerNumbers) {
+        const t = getBotTranslator(await getSenderLocale(marketId, ownerNumber));
+        const message = t('approval.request', {
+            sender: `+${employeeNumber}`,
+            count: offers.length,
+            items: lines.join('\n'),
+            productName: offers[0].product_name
         });
 
+        if (await sendWhatsAppText(ownerNumber, message)) {
+            console.log('[Processor] ✅ Sent approval request to owner:', ownerNumber);
+        }
+    }
+}
+
+/**
+ * Send rejection message to WhatsApp
+ */
+async function sendRejectionMessage(toNumber: string, invalidReason: string, t: BotTranslator): Promise<void> {
+    // Map invalid reasons to user-friendly messages in the sender's language
+    let message = t('rejection.unclear');
+
+    if (invalidReason.includes('MISSING_PRODUCT')) {
+        message = t('rejection.missingProduct');
+    } else if (invalidReason.includes('MISSING_PRICE')) {
+        message = t('rejection.missingPrice');
+    } else if (invalidReason.includes('MISSING_BOTH') || invalidReason.includes('NO_PRODUCTS')) {
+        message = t('rejection.missingBoth');
+    }
+
+    if (await sendWhatsAppText(toNumber, message)) {
         console.log('[Processor] ✅ Sent rejection message to:', toNumber);
-    } catch (err) {
-        console.error('[Processor] Error sending rejection message:', err);
+    }
+}
+
+/**
+ * Send a confirmation with a preview of the created draft offers to WhatsApp
+ */
+async function sendConfirmationMessage(
+    toNumber: string,
+    offers: CreatedOffer[],
+    t: BotTranslator,
+    locale: Locale = 'de',
+    { canPublish = false, branchCount = 1, anchorOfferId }: { canPublish?: boolean; branchCount?: number; anchorOfferId?: string } = {}
+): Promise<void> {
+    const header = t('confirmation.header', { count: offers.length });
+    const drafts = offers.filter(offer => offer.status === 'draft');
+    const publishedCount = offers.length - drafts.length;
+
+    let summaries: string[];
+    if (offers.length > DETAILED_SUMMARY_LIMIT) {
+        // Whole flyers yield dozens of drafts - one line each keeps the message readable
+        const lines = offers.slice(0, COMPACT_SUMMARY_LIMIT).map((offer, index) =>
+            `${index + 1}. *${offer.product_name}* – ${formatPrice(offer.price)}${offer.unit ? ` / ${offer.unit}` : ''}${offer.status === 'live' ? ' 🚀' : ''}`
+        );
+        if (offers.length > COMPACT_SUMMARY_LIMIT) {
+            lines.push(t('confirmation.more', { count: offers.length - COMPACT_SUMMARY_LIMIT }));
+        }
+        summaries = [lines.join('\n')];
+    } else {
+        summaries = offers.map((offer, index) => {
+            const discount = getDiscountPercent(offer.price, offer.regular_price);
+            const priceLine = [
+                offer.unit ? `💶 ${formatPrice(offer.price)} / ${offer.unit}` : `💶 ${formatPrice(offer.price)}`,
+                ...(discount !== null ? [t('confirmation.regularPrice', { price: formatPrice(offer.regular_price!), percent: discount })] : [])
+            ].join(' ');
+
+            return [
+                offers.length === 1 ? `*${offer.product_name}*` : `${index + 1}. *${offer.product_name}*`,
+                priceLine,
+                `🏷️ ${offer.ai_category || t('confirmation.noCategory')}`,
+                t('confirmation.validUntil', { date: formatDate(offer.expires_at, locale) }),
+                ...(offer.status === 'live' ? [t('confirmation.isLive')] : [])
+            ].join('\n');
+        });
+    }
+
+    const published = [
+        ...(publishedCount > 0 ? [t('confirmation.published', { count: publishedCount })] : []),
+        ...(branchCount > 1 ? [t('confirmation.allBranches', { count: branchCount })] : [])
+    ];
+
+    if (drafts.length === 0) {
+        // Everything went live - nothing left to correct or withdraw
+        if (await sendWhatsAppText(toNumber, [header, ...summaries, ...published].join('\n\n'))) {
+            console.log('[Processor] ✅ Sent confirmation message to:', toNumber);
+        }
+        return;
+    }
+
+    const footer = t('confirmation.footer', { count: drafts.length });
+
+    const price = formatPrice(drafts[0].price).replace(' €', '');
+    const hint = offers.length === 1
+        ? t('confirmation.hintSingle', { price })
+        : t('confirmation.hintMany', { productName: drafts[0].product_name, price });
+
+    const message = [header, ...summaries, ...published, footer, hint, ...(canPublish ? [t('confirmation.publishHint')] : [])].join('\n\n');
+    const deleteButton = {
+        id: `${DRAFT_DELETE_BUTTON_PREFIX}${anchorOfferId || drafts[0].id}`,
+        title: t('confirmation.deleteButton', { count: drafts.length })
+    };
+
+    // Interactive message bodies are limited to 1024 characters, so long summaries go out as plain text first
+    let sent: boolean;
+    if (message.length <= 1024) {
+        sent = await sendWhatsAppButtons(toNumber, message, [deleteButton]);
+    } else {
+        sent = await sendWhatsAppText(toNumber, message)
+            && await sendWhatsAppButtons(toNumber, t('confirmation.withdrawQuestion'), [deleteButton]);
+    }
+
+    if (sent) {
+        console.log('[Processor] ✅ Sent confirmation message to:', toNumber);
     }
 }
 
@@ -468,6 +1021,9 @@ async function fetchImageAsBase64(imageUrl: string): Promise<string> {
             'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`
         }
     });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch WhatsApp image: ${response.status}`);
+    }
     const buffer = await response.arrayBuffer();
     return Buffer.from(buffer).toString('base64');
 }
@@ -0,0 +1,254 @@
+/**
+ * Offer Duplicates
+ * Owners often resend the same product, which left markets with several live "Tomaten" offers.
+ * New offers are compared against the market's draft and live offers by their normalized product name;
+ * a likely duplicate is stored as a draft pointing at the existing offer (duplicate_of) until it is
+ * merged into that offer (new price and expiry) or kept as a separate offer - in the dashboard review
+ * or by the owner's answer to "Angebot aktualisieren?" on WhatsApp.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+// Minimum similarity of two normalized product names to count as the same product
+const DUPLICATE_THRESHOLD = 0.8;
+
+// Words that describe the offer rather than the product ("Frische Tomaten", "Bio Gurken 500g")
+const FILLER_WORDS = new Set([
+    'frisch', 'frische', 'frischer', 'frisches', 'bio', 'neu', 'angebot', 'aktion', 'lecker', 'taze', 'yeni',
+    'kg', 'g', 'gr', 'l', 'ml', 'cl', 'stk', 'stueck', 'st', 'pack', 'packung', 'bund', 'kilo', 'adet'
+]);
+
+/**
+ * An existing offer a new offer is compared against
+ */
+export interface ExistingOffer {
+    id: string;
+    product_name: string;
+    price: string;
+    unit: string | null;
+    status: 'draft' | 'scheduled' | 'live';
+    expires_at: string;
+}
+
+export type DuplicateResolution =
+    // The offer that remains: the merged original, or the kept offer
+    | { ok: true; offer: ExistingOffer }
+    | { ok: false; reason: 'not_found' | 'original_gone' };
+
+const EXISTING_OFFER_COLUMNS = 'id, product_name, price, unit, status, expires_at';
+
+/**
+ * Normalize a product name for comparison: lowercase, umlauts and accents folded, quantities,
+ * filler words and plural endings removed ("Frische Tomaten 1kg" → "tomat")
+ */
+export function normalizeProductName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss').replace(/ı/g, 'i')
+        .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/\d+(?:[.,]\d+)?/g, ' ')
+        .replace(/[^a-z]+/g, ' ')
+        .split(' ')
+        .filter(word => word && !FILLER_WORDS.has(word))
+        // "Tomaten"/"Tomate", "Gurken"/"Gurke", "domatesler"/"domates"
+        .map(word => word.length > 4 ? word.replace(/(?:ler|lar|en|er|e|n|s)$/, '') : word)
+        .join(' ');
+}
+
+/**
+ * Character bigrams of a string, counted
+ */
+function getBigrams(value: string): Map<string, number> {
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+        const bigram = value.slice(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+    return bigrams;
+}
+
+/**
+ * Similarity of two product names between 0 and 1 (Dice coefficient of the bigrams of their normalized names)
+ * Spaces are ignored, so "Lamm Fleisch" and "Lammfleisch" are the same product.
+ */
+export function getNameSimilarity(a: string, b: string): number {
+    const left = normalizeProductName(a).replace(/ /g, '');
+    const right = normalizeProductName(b).replace(/ /g, '');
+
+    if (!left || !right) {
+        return 0;
+    }
+    if (left === right) {
+        return 1;
+    }
+
+    const leftBigrams = getBigrams(left);
+    const rightBigrams = getBigrams(right);
+    let shared = 0;
+    for (const [bigram, count] of leftBigrams) {
+        shared += Math.min(count, rightBigrams.get(bigram) || 0);
+    }
+
+    return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Find a draft or live offer of the market that a new offer likely duplicates
+ * Offers that are themselves flagged as duplicates are skipped, so a third "Tomaten" points at the first.
+ * @param excludeIds - Offers to ignore, e.g. the ones created from the same message
+ * @returns The most similar offer (live offers first on a tie), or null if there is none
+ */
+export async function findDuplicateOffer(
+    marketId: string,
+    productName: string,
+    excludeIds: string[] = []
+): Promise<ExistingOffer | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('offers')
+        .select(EXISTING_OFFER_COLUMNS)
+        .eq('market_id', marketId)
+        .in('status', ['draft', 'live'])
+        .is('duplicate_of', null)
+        .is('deleted_at', null)
+        .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+        // A failed check must not block new offers
+        console.error('[Duplicates] Error fetching offers of market:', error);
+        return null;
+    }
+
+    const candidates = (data as ExistingOffer[])
+        .filter(offer => !excludeIds.includes(offer.id))
+        .map(offer => ({ offer, similarity: getNameSimilarity(productName, offer.product_name) }))
+        .filter(candidate => candidate.similarity >= DUPLICATE_THRESHOLD)
+        .sort((a, b) => b.similarity - a.similarity || Number(b.offer.status === 'live') - Number(a.offer.status === 'live'));
+
+    if (candidates.length === 0) {
+        return null;
+    }
+
+    console.log(`[Duplicates] "${productName}" likely duplicates "${candidates[0].offer.product_name}" (${candidates[0].offer.id})`);
+    return candidates[0].offer;
+}
+
+/**
+ * Merge a flagged duplicate into the offer it repeats: the existing offer takes over the new price,
+ * unit and expiry (and the image, if it had none), the duplicate draft is moved to the trash
+ * If the existing offer is gone (deleted, trashed or expired in the meantime), the duplicate is kept as a separate draft.
+ * @param marketId - Restricts the merge to offers of this market, for requests from a market's WhatsApp number
+ */
+export async function mergeDuplicate(offerId: string, marketId?: string): Promise<DuplicateResolution> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('offers')
+        .select('id, duplicate_of, price, price_value, quantity, base_unit, base_price, regular_price, unit, image_id, expires_at')
+        .eq('id', offerId)
+        .eq('status', 'draft')
+        .not('duplicate_of', 'is', null)
+        .is('deleted_at', null);
+
+    if (marketId) {
+        query = query.eq('market_id', marketId);
+    }
+
+    const { data: duplicate, error: fetchError } = await query.maybeSingle();
+
+    if (fetchError) {
+        throw fetchError;
+    }
+    if (!duplicate) {
+        return { ok: false, reason: 'not_found' };
+    }
+
+    const { data: original, error: originalError } = await supabase
+        .from('offers')
+        .select('id, image_id')
+        .eq('id', duplicate.duplicate_of)
+        .in('status', ['draft', 'scheduled', 'live'])
+        .is('deleted_at', null)
+        .maybeSingle();
+
+    if (originalError) {
+        throw originalError;
+    }
+
+    if (!original) {
+        const { error: clearError } = await supabase
+            .from('offers')
+            .update({ duplicate_of: null })
+            .eq('id', offerId);
+
+        if (clearError) {
+            throw clearError;
+        }
+        return { ok: false, reason: 'original_gone' };
+    }
+
+    const { data: merged, error: updateError } = await supabase
+        .from('offers')
+        .update({
+            price: duplicate.price,
+            price_value: duplicate.price_value,
+            quantity: duplicate.quantity,
+            base_unit: duplicate.base_unit,
+            base_price: duplicate.base_price,
+            regular_price: duplicate.regular_price,
+            unit: duplicate.unit,
+            image_id: original.image_id || duplicate.image_id,
+            expires_at: duplicate.expires_at
+        })
+        .eq('id', original.id)
+        .select(EXISTING_OFFER_COLUMNS)
+        .single();
+
+    if (updateError) {
+        throw updateError;
+    }
+
+    // Trashed instead of deleted, so a wrong merge can be undone from the trash
+    const { error: trashError } = await supabase
+        .from('offers')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', offerId);
+
+    if (trashError) {
+        throw trashError;
+    }
+
+    console.log(`[Duplicates] ✅ Merged ${offerId} into ${original.id}`);
+    return { ok: true, offer: merged as ExistingOffer };
+}
+
+/**
+ * Keep a flagged duplicate as a separate offer by removing the flag
+ * @param marketId - Restricts the change to offers of this market, for requests from a market's WhatsApp number
+ */
+export async function keepDuplicate(offerId: string, marketId?: string): Promise<DuplicateResolution> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('offers')
+        .update({ duplicate_of: null })
+        .eq('id', offerId)
+        .not('duplicate_of', 'is', null)
+        .is('deleted_at', null);
+
+    if (marketId) {
+        query = query.eq('market_id', marketId);
+    }
+
+    const { data: kept, error } = await query.select(EXISTING_OFFER_COLUMNS).maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    if (!kept) {
+        return { ok: false, reason: 'not_found' };
+    }
+
+    return { ok: true, offer: kept as ExistingOffer };
+}
@@ -0,0 +1,413 @@
+/**
+ * Offer Extraction
+ * Extracts grocery offers (product name, price, regular price, unit, category, validity) from texts, photos
+ * and PDF flyer pages with an AI model. Used by the WhatsApp bot and the dashboard.
+ *
+ * The model's answer is validated against a Zod schema; failures are reported with an error code
+ * instead of being thrown. Requests go through the LLM provider of the 'extraction' task (see ./llm),
+ * or a mock provider that answers deterministically without network access, for tests and local development.
+ */
+
+import { z } from 'zod';
+import { getLlmModel, getLlmProvider, type ChatContentPart, type ChatMessage, type ChatRequest, type ChatResponse, type LlmProvider } from './llm';
+import { parsePrice } from './offerPricing';
+
+const DEFAULT_VALIDITY_DAYS = 7;
+
+export const OFFER_CATEGORIES = ['Obst & Gemüse', 'Fleisch & Wurst', 'Milchprodukte', 'Backwaren', 'Getränke', 'Sonstiges'] as const;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * A single offer as returned by the model. Optional fields the model got wrong are dropped
+ * instead of rejecting the whole offer - only name and price are required.
+ */
+export const ExtractedOfferSchema = z.object({
+    product_name: z.string().trim().min(1),
+    // The model returns prices as number or text ("4,99", "4.99 €", "1.299,00")
+    price: z.union([z.number(), z.string()]).transform(parsePrice).pipe(z.number().positive()),
+    // The regular price the offer is reduced from ("statt 3,49"), if the message names one
+    regular_price: z.union([z.number(), z.string()]).transform(parsePrice).pipe(z.number().positive()).nullish().catch(null)
+        .transform(value => value ?? null),
+    unit: z.string().trim().nullish().catch(null).transform(value => value || null),
+    description: z.string().trim().nullish().catch(null).transform(value => value || null),
+    // Unknown categories count as "Sonstiges", so they never pass as a known category
+    ai_category: z.string().nullish().catch(null).transform(value =>
+        value ? (OFFER_CATEGORIES as readonly string[]).includes(value) ? value : 'Sonstiges' : null
+    ),
+    validity_days: z.number().int().min(1).max(365).nullish().catch(null).transform(value => value ?? DEFAULT_VALIDITY_DAYS),
+    // 1-based index of the input image that shows this offer, if any
+    image_index: z.number().int().min(1).nullish().catch(null).transform(value => value ?? null),
+    // How sure the model is about name, price and unit (0-1)
+    confidence: z.number().nullish().catch(null).transform(value => value == null ? null : Math.min(Math.max(value, 0), 1)),
+    // Whether the image is a clean product shot that can be shown as is
+    is_image_professional: z.boolean().nullish().catch(null).transform(value => value ?? null)
+}).transform(offer => ({
+    ...offer,
+    // A "regular price" at or below the offer price is no discount - most likely a misread price tag
+    regular_price: offer.regular_price !== null && offer.regular_price > offer.price ? offer.regular_price : null
+}));
+
+export type ExtractedOffer = z.output<typeof ExtractedOfferSchema>;
+
+// The model may answer with `{ products: [...] }`, a bare array or a single offer object
+const ExtractionResponseSchema = z.union([
+    z.object({ products: z.array(z.unknown()) }).transform(response => response.products),
+    z.array(z.unknown()),
+    z.record(z.string(), z.unknown()).transform(offer => [offer])
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Why no offer could be extracted. The first group describes the input (the sender has to fix it),
+ * the second group failures of the model or provider (worth retrying later).
+ */
+export type ExtractionErrorCode =
+    | 'MISSING_PRODUCT'
+    | 'MISSING_PRICE'
+    | 'MISSING_BOTH'
+    | 'UNCLEAR_MESSAGE'
+    | 'NO_PRODUCTS'
+    | 'PROVIDER_ERROR'
+    | 'EMPTY_RESPONSE'
+    | 'PARSE_ERROR';
+
+const INPUT_ERROR_CODES: ExtractionErrorCode[] = ['MISSING_PRODUCT', 'MISSING_PRICE', 'MISSING_BOTH', 'UNCLEAR_MESSAGE'];
+
+export interface ExtractionInput {
+    // Text that applies to the whole input (message text, flyer caption)
+    text: string | null;
+    // Images as data URLs or public URLs, each with the caption that belongs to it
+    images?: Array<{ url: string; caption: string | null }>;
+    // A single page of a PDF flyer, sent instead of images
+    page?: { fileName: string; pageNumber: number; pageCount: number; data: Uint8Array };
+}
+
+/**
+ * What was sent to and received from the model, for the conversation log
+ */
+export interface ExtractionExchange {
+    model: string;
+    systemPrompt: string;
+    userMessage: string;
+    httpStatus: number;
+    response: string;
+}
+
+export type ExtractionResult =
+    | { ok: true; offers: ExtractedOffer[]; exchange: ExtractionExchange }
+    | { ok: false; code: ExtractionErrorCode; retryable: boolean; error: string; exchange: ExtractionExchange };
+
+export interface OfferExtractor {
+    model: string;
+    extract(input: ExtractionInput): Promise<ExtractionResult>;
+}
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+const SYSTEM_PROMPT = `You are a validation gatekeeper for a grocery market offer system.
+
+Your job: Find every product in this message that has BOTH a clear Product Name AND a Price.
+A message can contain ONE or SEVERAL products (e.g. "Tomaten 1,99/kg, Gurken 0,79 Stück, Ayran 0,99" or a photo of a flyer/shelf with several price tags).
+A message can also contain SEVERAL images, each with its own caption ("Image 1", "Image 2", ...). A caption describes the image it belongs to.
+A message can also contain a single page of a PDF flyer (Prospekt) instead of images. Extract EVERY product with a price from that page.
+
+Rules:
+1. If at least one product has BOTH a name AND a price → Extract ALL such products and return JSON with the data
+2. If MISSING product name → Return exactly: "INVALID: MISSING_PRODUCT"
+3. If MISSING price → Return exactly: "INVALID: MISSING_PRICE"
+4. If BOTH are missing → Return exactly: "INVALID: MISSING_BOTH"
+5. If the message is gibberish/unclear → Return exactly: "INVALID: UNCLEAR_MESSAGE"
+
+If VALID, return JSON like this (one entry per product, in the order they appear):
+{
+    "products": [
+        {
+            "product_name": "Extracted product name in German",
+            "price": 4.99,
+            "regular_price": null,
+            "unit": "kg or Stück or Bund etc.",
+            "description": "An appetizing 1-sentence description of the product in German that makes customers want to buy it. Do NOT include price, validity period, or unit here - just describe the product quality/taste/freshness.",
+            "ai_category": "Category from: ${OFFER_CATEGORIES.join(', ')}",
+            "validity_days": 7,
+            "image_index": 1,
+            "confidence": 0.95,
+            "is_image_professional": false
+        }
+    ]
+}
+
+Note on product_name: Use the PLURAL form if the unit indicates several items (kg, Bund, Packung, Kiste) - e.g. "Bananen" for "kg". Use the SINGULAR form only if sold individually by "Stück" - e.g. "Banane". Match the description to the same form.
+Note on regular_price: The regular price the offer is reduced from, ONLY if the message names one (e.g. "statt 3,49", "vorher 3,49", "UVP 3,49", "alter Preis", or a crossed-out price on a price tag). It must be higher than price. Otherwise null - never make one up.
+Note on image_index: The number of the image that shows this product or belongs to its caption. Use null if the product was only mentioned in the general text or comes from a flyer page.
+Note on unit and ai_category: Determine them separately for EACH product.
+Note on confidence: How sure you are (0.0 to 1.0) that product name, price and unit were read correctly. Use a low value for blurry photos, handwriting, partially hidden price tags or prices that could belong to another product.
+Note on validity_days: Extract the validity period from the message if mentioned (e.g., "drei Tage" = 3, "eine Woche" = 7, "zwei Wochen" = 14, "bis Samstag" = days until Saturday). A validity mentioned for the whole message applies to all products, a validity mentioned next to a single product applies only to that product. If not mentioned, default to ${DEFAULT_VALIDITY_DAYS} days.
+Note on is_image_professional: true ONLY if the product's image is a professional product shot on a clean background. false for shelf photos, blurry photos or photos with text overlays; null if the product has no image.
+
+If INVALID, return one of the INVALID codes above.`;
+
+/**
+ * Build the chat messages for an extraction, each image preceded by its caption
+ */
+function buildMessages(input: ExtractionInput): { messages: ChatMessage[]; userMessage: string } {
+    const images = input.page ? [] : input.images || [];
+    const userMessage = input.page
+        ? `Message to validate:
+Text: ${input.text || 'No text'}
+Flyer page: ${input.page.pageNumber} of ${input.page.pageCount} (${input.page.fileName})`
+        : `Message to validate:
+Text: ${input.text || 'No text'}
+Images: ${images.length}`;
+
+    const messages: ChatMessage[] = [{ role: 'system', content: SYSTEM_PROMPT }];
+
+    if (input.page) {
+        messages.push({
+            role: 'user',
+            content: [
+                { type: 'text', text: userMessage },
+                {
+                    type: 'file',
+                    file: {
+                        filename: input.page.fileName,
+                        file_data: `data:application/pdf;base64,${Buffer.from(input.page.data).toString('base64')}`
+                    }
+                }
+            ]
+        });
+    } else if (images.length > 0) {
+        const parts: ChatContentPart[] = [{ type: 'text', text: userMessage }];
+        for (const [index, image] of images.entries()) {
+            parts.push({ type: 'text', text: `Image ${index + 1} caption: ${image.caption || 'No caption'}` });
+            parts.push({ type: 'image_url', image_url: { url: image.url } });
+        }
+        messages.push({ role: 'user', content: parts });
+    } else {
+        messages.push({ role: 'user', content: userMessage });
+    }
+
+    return { messages, userMessage };
+}
+
+/**
+ * Turn the model's answer into offers or an error code
+ */
+function parseResponse(text: string): { offers: ExtractedOffer[] } | { code: ExtractionErrorCode; error: string } {
+    const answer = text.trim();
+
+    if (answer.startsWith('INVALID:')) {
+        const code = answer.slice('INVALID:'.length).trim().split(/\s/)[0] as ExtractionErrorCode;
+        return INPUT_ERROR_CODES.includes(code)
+            ? { code, error: answer }
+            : { code: 'UNCLEAR_MESSAGE', error: answer };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(answer.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+    } catch (err) {
+        return { code: 'PARSE_ERROR', error: String(err) };
+    }
+
+    const response = ExtractionResponseSchema.safeParse(json);
+    if (!response.success) {
+        return { code: 'PARSE_ERROR', error: 'AI response is not a JSON object' };
+    }
+
+    // Entries without a name or price are dropped, the rest of the offers are still usable
+    const offers: ExtractedOffer[] = [];
+    for (const candidate of response.data) {
+        const offer = ExtractedOfferSchema.safeParse(candidate);
+        if (offer.success) {
+            offers.push(offer.data);
+        } else {
+            console.log('[Extraction] Dropping invalid offer:', offer.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', '));
+        }
+    }
+
+    if (offers.length === 0) {
+        return { code: 'NO_PRODUCTS', error: 'AI returned no usable products' };
+    }
+
+    return { offers };
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export interface MockExtractionProvider extends LlmProvider {
+    // Every chat request sent to the provider, in order
+    requests: ChatRequest[];
+    // Answers to return for the next requests (e.g. "INVALID: MISSING_PRICE"); defaults to the rule-based answer
+    queueResponse(response: Partial<ChatResponse> & { text: string }): void;
+    clear(): void;
+}
+
+// "Tomaten 1,99 kg", "Ayran 0,99 €", "Gurken 0,79/Stück", "Lamm 12,99 kg statt 15,99"
+const MOCK_OFFER_PATTERN = /^(.+?)\s+(\d+(?:[.,]\d{1,2})?)\s*(?:€|eur(?:o)?)?\s*(?:\/|pro|je)?\s*(kg|g|l|ml|stück|stk|bund|packung|kiste|dose|flasche)?\.?(?:\s*\(?(?:statt|vorher)\s+(\d+(?:[.,]\d{1,2})?)\s*(?:€|eur(?:o)?)?\)?)?$/i;
+
+/**
+ * Answer like the model would, with simple rules: every line or comma-separated part
+ * of the text that consists of a name followed by a price becomes an offer
+ */
+function answerLikeModel(request: ChatRequest): string {
+    const user = request.messages.find(message => message.role === 'user');
+    const userText = typeof user?.content === 'string'
+        ? user.content
+        : user?.content.find((part): part is Extract<ChatContentPart, { type: 'text' }> => part.type === 'text')?.text || '';
+    const text = userText.match(/^Text: ([\s\S]*?)\n(?:Images|Flyer page): /m)?.[1] || '';
+    const imageCount = Number(userText.match(/^Images: (\d+)/m)?.[1] || 0);
+
+    if (!text || text === 'No text') {
+        return 'INVALID: MISSING_BOTH';
+    }
+
+    const products = text
+        // Commas inside prices ("1,99") don't separate offers
+        .split(/[\n;]+|,(?!\d)/)
+        .map(part => part.trim().match(MOCK_OFFER_PATTERN))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map(match => ({
+            product_name: match[1].trim(),
+            price: parseFloat(match[2].replace(',', '.')),
+            regular_price: match[4] ? parseFloat(match[4].replace(',', '.')) : null,
+            unit: match[3] || 'Stück',
+            description: null,
+            ai_category: 'Sonstiges',
+            validity_days: DEFAULT_VALIDITY_DAYS,
+            image_index: imageCount === 1 ? 1 : null,
+            confidence: 1,
+            is_image_professional: null
+        }));
+
+    if (products.length === 0) {
+        return /\d/.test(text) ? 'INVALID: MISSING_PRODUCT' : 'INVALID: MISSING_PRICE';
+    }
+
+    return JSON.stringify({ products });
+}
+
+/**
+ * Provider that answers deterministically without network access, for tests and local development
+ */
+export function createMockExtractionProvider(): MockExtractionProvider {
+    const queuedResponses: Array<Partial<ChatResponse> & { text: string }> = [];
+
+    const provider: MockExtractionProvider = {
+        name: 'mock',
+        defaultModels: { extraction: 'mock' },
+        requests: [],
+        async chat(request) {
+            provider.requests.push(request);
+            const queued = queuedResponses.shift();
+            const text = queued ? queued.text : answerLikeModel(request);
+            return { ok: true, status: 200, raw: text, ...queued, text };
+        },
+        async generateImage() {
+            return { ok: false, status: 501, imageUrl: null, raw: 'The mock provider does not generate images' };
+        },
+        queueResponse(response) {
+            queuedResponses.push(response);
+        },
+        clear() {
+            provider.requests.length = 0;
+            queuedResponses.length = 0;
+        }
+    };
+
+    return provider;
+}
+
+// ============================================================================
+// Extractor
+// ============================================================================
+
+/**
+ * Create an offer extractor on top of a provider
+ * @param model - Defaults to the provider's extraction model (see getLlmModel)
+ */
+export function createOfferExtractor({
+    provider,
+    model = getLlmModel('extraction', provider)
+}: { provider: LlmProvider; model?: string }): OfferExtractor {
+    return {
+        model,
+        async extract(input) {
+            const { messages, userMessage } = buildMessages(input);
+
+            console.log(`[Extraction] 🤖 Extracting offers via ${provider.name} (${model})...`);
+
+            const response = await provider.chat({
+                model,
+                messages,
+                temperature: 0.3,
+                // Flyers can list a dozen products, so leave room for a longer JSON array
+                maxTokens: 2000
+            });
+
+            const exchange: ExtractionExchange = {
+                model,
+                systemPrompt: SYSTEM_PROMPT,
+                userMessage,
+                httpStatus: response.status,
+                response: response.text || response.raw
+            };
+
+            if (!response.ok) {
+                return { ok: false, code: 'PROVIDER_ERROR', retryable: true, error: `${provider.name} HTTP ${response.status}`, exchange };
+            }
+
+            if (!response.text.trim()) {
+                return { ok: false, code: 'EMPTY_RESPONSE', retryable: true, error: 'Empty AI response', exchange };
+            }
+
+            const parsed = parseResponse(response.text);
+            if ('code' in parsed) {
+                console.log('[Extraction] ❌ No offers extracted:', parsed.code);
+                // Garbage from the model is our problem, not the sender's - those are retried
+                return { ok: false, code: parsed.code, retryable: parsed.code === 'PARSE_ERROR', error: parsed.error, exchange };
+            }
+
+            console.log(`[Extraction] ✅ Extracted ${parsed.offers.length} offer(s)`);
+            return { ok: true, offers: parsed.offers, exchange };
+        }
+    };
+}
+
+let activeExtractor: OfferExtractor | null = null;
+
+/**
+ * The extractor used by the WhatsApp bot and the dashboard
+ * Set OFFER_EXTRACTION_PROVIDER=mock to extract offers without calling a model
+ */
+export function getOfferExtractor(): OfferExtractor {
+    if (!activeExtractor) {
+        activeExtractor = createOfferExtractor({
+            provider: process.env.OFFER_EXTRACTION_PROVIDER === 'mock' ? createMockExtractionProvider() : getLlmProvider('extraction')
+        });
+    }
+    return activeExtractor;
+}
+
+/**
+ * Replace the extractor (e.g. with a mock provider in tests); pass null to reset
+ */
+export function setOfferExtractor(extractor: OfferExtractor | null): void {
+    activeExtractor = extractor;
+}
+
+/**
+ * Extract offers with the configured extractor
+ */
+export function extractOffers(input: ExtractionInput): Promise<ExtractionResult> {
+    return getOfferExtractor().extract(input);
+}
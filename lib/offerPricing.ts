@@ -0,0 +1,191 @@
+/**
+ * Offer Pricing
+ * Normalizes the free-text price ("1,99 €", "ab 2,49", "99 ct") and unit ("kg", "500g Packung", "6x0,5l")
+ * of an offer into a structured quantity and the comparison price per kg, l or Stück
+ * (Grundpreis, required by the Preisangabenverordnung), so "Lamm 12,99/kg" and "Lamm 6,99/500g" can be compared.
+ * Also computes the discount of reduced offers against their regular price ("statt 3,49").
+ */
+
+export type BaseUnit = 'kg' | 'l' | 'Stück';
+
+export interface NormalizedPrice {
+    // Price of the offer in euros; the lowest price for ranges ("1,99–2,49")
+    price: number;
+    // The offered quantity in base units (500 g → 0.5 kg), or null if the unit has no measurable quantity (e.g. "Bund")
+    quantity: number | null;
+    base_unit: BaseUnit | null;
+    // Price per 1 kg, 1 l or 1 Stück
+    base_price: number | null;
+}
+
+/**
+ * The price columns of an offer, as stored on `offers`
+ */
+export interface PriceColumns {
+    price: string;
+    price_value: number | null;
+    quantity: number | null;
+    base_unit: BaseUnit | null;
+    base_price: number | null;
+}
+
+// Factor to convert a measured unit into its base unit
+const MEASURE_UNITS: Record<string, { base_unit: BaseUnit; factor: number }> = {
+    kg: { base_unit: 'kg', factor: 1 },
+    kilo: { base_unit: 'kg', factor: 1 },
+    kilogramm: { base_unit: 'kg', factor: 1 },
+    g: { base_unit: 'kg', factor: 0.001 },
+    gr: { base_unit: 'kg', factor: 0.001 },
+    gramm: { base_unit: 'kg', factor: 0.001 },
+    l: { base_unit: 'l', factor: 1 },
+    ltr: { base_unit: 'l', factor: 1 },
+    liter: { base_unit: 'l', factor: 1 },
+    cl: { base_unit: 'l', factor: 0.01 },
+    ml: { base_unit: 'l', factor: 0.001 }
+};
+
+const MEASURE_PATTERN = 'kilogramm|kilo|kg|gramm|gr|g|liter|ltr|l|cl|ml';
+const PIECE_PATTERN = 'stück|stk|stck|st\\.?|er(?:-?pack)?';
+
+/**
+ * Parse a German number ("1,99", "1.299,00", "12.99")
+ */
+function parseNumber(value: string): number {
+    if (value.includes(',')) {
+        return parseFloat(value.replace(/\./g, '').replace(',', '.'));
+    }
+    // A dot followed by exactly three digits is a thousands separator ("1.299")
+    return parseFloat(/^\d{1,3}(\.\d{3})+$/.test(value) ? value.replace(/\./g, '') : value);
+}
+
+/**
+ * Parse a price in euros from a number or free text
+ * Accepts comma decimals, "€"/"EUR", cents ("99 ct") and ranges ("1,99-2,49", "ab 1,99") - ranges yield the lowest price
+ * @returns The price, or null if the text contains no price
+ */
+export function parsePrice(input: number | string | null | undefined): number | null {
+    if (typeof input === 'number') {
+        return Number.isFinite(input) && input > 0 ? input : null;
+    }
+    if (!input) {
+        return null;
+    }
+
+    const text = input.toLowerCase();
+
+    const cents = text.match(/(\d+)\s*(?:ct|cent)\b/);
+    if (cents && !/€|eur/.test(text)) {
+        return parseInt(cents[1], 10) / 100;
+    }
+
+    const prices = (text.match(/\d+(?:[.,]\d+)*/g) || [])
+        .map(parseNumber)
+        .filter(price => Number.isFinite(price) && price > 0);
+
+    return prices.length > 0 ? Math.min(...prices) : null;
+}
+
+/**
+ * Parse the offered quantity from a unit ("kg", "500g Packung", "6x0,5l", "3 Stück", "10er Pack")
+ * @returns The quantity in base units, or null if the unit has no measurable quantity (e.g. "Bund", "Packung")
+ */
+export function parseQuantity(unit: string | null | undefined): { quantity: number; base_unit: BaseUnit } | null {
+    if (!unit) {
+        return null;
+    }
+
+    const text = unit.toLowerCase().replace(/(\d),(\d)/g, '$1.$2');
+
+    // Multipacks: "6x0,5l", "4 × 125 g"
+    const multipack = text.match(new RegExp(`(\\d+)\\s*[x×]\\s*(\\d+(?:\\.\\d+)?)\\s*(${MEASURE_PATTERN})\\b`));
+    if (multipack) {
+        const { base_unit, factor } = MEASURE_UNITS[multipack[3]];
+        return { quantity: parseInt(multipack[1], 10) * parseFloat(multipack[2]) * factor, base_unit };
+    }
+
+    // Measured quantities: "500g Packung", "1,5 l", "kg", "das Kilo"
+    const measured = text.match(new RegExp(`(?:^|[^a-zäöüß])(\\d+(?:\\.\\d+)?)?\\s*(${MEASURE_PATTERN})(?![a-zäöüß])`));
+    if (measured) {
+        const { base_unit, factor } = MEASURE_UNITS[measured[2]];
+        return { quantity: (measured[1] ? parseFloat(measured[1]) : 1) * factor, base_unit };
+    }
+
+    // Pieces: "Stück", "3 Stk", "10er Pack"
+    const pieces = text.match(new RegExp(`(?:^|[^a-zäöüß])(\\d+)?\\s*(?:${PIECE_PATTERN})(?![a-zäöüß])`));
+    if (pieces) {
+        return { quantity: pieces[1] ? parseInt(pieces[1], 10) : 1, base_unit: 'Stück' };
+    }
+
+    return null;
+}
+
+/**
+ * Normalize the price and unit of an offer
+ * @returns The normalized price, or null if the price cannot be parsed
+ */
+export function normalizePrice(price: number | string | null | undefined, unit: string | null | undefined): NormalizedPrice | null {
+    const value = parsePrice(price);
+    if (value === null) {
+        return null;
+    }
+
+    const quantity = parseQuantity(unit);
+    if (!quantity || quantity.quantity <= 0) {
+        return { price: value, quantity: null, base_unit: null, base_price: null };
+    }
+
+    return {
+        price: value,
+        quantity: Math.round(quantity.quantity * 1000) / 1000,
+        base_unit: quantity.base_unit,
+        base_price: Math.round((value / quantity.quantity) * 100) / 100
+    };
+}
+
+/**
+ * The price columns to store for an offer: the price as "1.99" plus its quantity and Grundpreis
+ * Prices that cannot be parsed are kept as entered, without a Grundpreis.
+ */
+export function getPriceColumns(price: number | string, unit: string | null | undefined): PriceColumns {
+    const normalized = normalizePrice(price, unit);
+
+    if (!normalized) {
+        return { price: String(price).trim(), price_value: null, quantity: null, base_unit: null, base_price: null };
+    }
+
+    return {
+        price: normalized.price.toFixed(2),
+        price_value: normalized.price,
+        quantity: normalized.quantity,
+        base_unit: normalized.base_unit,
+        base_price: normalized.base_price
+    };
+}
+
+/**
+ * Format a Grundpreis for offer cards (e.g. "13,98 €/kg")
+ * @returns The formatted Grundpreis, or null if there is none or it equals the price (1 kg, 1 l or 1 Stück)
+ */
+export function formatBasePrice(offer: { base_price?: number | string | null; base_unit?: string | null; quantity?: number | string | null }): string | null {
+    if (offer.base_price == null || !offer.base_unit || Number(offer.quantity) === 1) {
+        return null;
+    }
+
+    const basePrice = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(Number(offer.base_price));
+    return `${basePrice}/${offer.base_unit}`;
+}
+
+/**
+ * The discount of an offer against its regular price, rounded to whole percent (e.g. 43 for "-43%")
+ * @returns The discount, or null if there is no regular price or it is not higher than the price
+ */
+export function getDiscountPercent(price: number | string | null | undefined, regularPrice: number | string | null | undefined): number | null {
+    const value = parsePrice(price);
+    const regular = parsePrice(regularPrice);
+    if (value === null || regular === null || regular <= value) {
+        return null;
+    }
+
+    const percent = Math.round((1 - value / regular) * 100);
+    return percent > 0 ? percent : null;
+}
@@ -0,0 +1,55 @@
+/**
+ * Offer Schedule
+ * Offers can be prepared in advance with a start date (starts_at). Publishing an offer before its
+ * start date sets it to 'scheduled' instead of 'live'; the update-offer-status cron job sets scheduled
+ * offers live once they start and live offers expired once they end, recording the time in expired_at.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+export type OfferStatus = 'draft' | 'scheduled' | 'live' | 'expired';
+
+/**
+ * The status an offer gets when it is published: 'scheduled' if its start date lies in the future
+ */
+export function getPublishStatus(startsAt: string | null | undefined, now: Date = new Date()): 'scheduled' | 'live' {
+    return startsAt && new Date(startsAt).getTime() > now.getTime() ? 'scheduled' : 'live';
+}
+
+/**
+ * Set scheduled offers live whose start date has passed and live offers expired whose end date has passed
+ * Scheduled offers that ended before they started are expired right away.
+ * @returns The number of offers that went live and expired
+ */
+export async function updateOfferStatuses(now: Date = new Date()): Promise<{ started: number; expired: number }> {
+    const supabase = createServiceClient();
+    const timestamp = now.toISOString();
+
+    const { data: expired, error: expireError } = await supabase
+        .from('offers')
+        .update({ status: 'expired', expired_at: timestamp })
+        .in('status', ['scheduled', 'live'])
+        .lte('expires_at', timestamp)
+        .select('id');
+
+    if (expireError) {
+        throw expireError;
+    }
+
+    const { data: started, error: startError } = await supabase
+        .from('offers')
+        .update({ status: 'live' })
+        .eq('status', 'scheduled')
+        .lte('starts_at', timestamp)
+        .select('id');
+
+    if (startError) {
+        throw startError;
+    }
+
+    if (started.length > 0 || expired.length > 0) {
+        console.log(`[Schedule] ✅ ${started.length} offer(s) went live, ${expired.length} expired`);
+    }
+
+    return { started: started.length, expired: expired.length };
+}
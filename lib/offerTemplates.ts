@@ -0,0 +1,205 @@
+/**
+ * Offer Templates
+ * Recurring offers per market ("Freitag: frisches Fladenbrot 0,99") with a recurrence rule:
+ * ISO weekdays (1 = Monday ... 7 = Sunday), every N weeks counted from the week of starts_on.
+ *
+ * The materialize-offer-templates cron job creates one offer per occurrence, a week in advance.
+ * Templates that publish directly create scheduled offers, which the update-offer-status job sets
+ * live on their day (see ./offerSchedule); the others create drafts for the review.
+ * Days are calendar days in Germany, so an occurrence starts at local midnight.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+import { getPriceColumns } from './offerPricing';
+import { getPublishStatus } from './offerSchedule';
+
+const TIME_ZONE = 'Europe/Berlin';
+
+// How far ahead occurrences are created, so markets and customers see next week's offers
+const LOOKAHEAD_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OfferTemplate {
+    id: string;
+    market_id: string;
+    product_name: string;
+    description: string | null;
+    price: string;
+    regular_price: number | null;
+    unit: string | null;
+    ai_category: string | null;
+    image_id: string | null;
+    weekdays: number[];
+    interval_weeks: number;
+    duration_days: number;
+    publish_status: 'draft' | 'live';
+    // YYYY-MM-DD
+    starts_on: string;
+    ends_on: string | null;
+    is_active: boolean;
+    materialized_until: string | null;
+}
+
+// ============================================================================
+// Calendar days
+// ============================================================================
+
+/**
+ * The calendar day in Germany of a point in time (YYYY-MM-DD)
+ */
+export function toLocalDay(date: Date): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone: TIME_ZONE }).format(date);
+}
+
+/**
+ * Midnight in Germany of a calendar day
+ */
+export function localMidnight(day: string): Date {
+    const utcMidnight = new Date(`${day}T00:00:00Z`);
+    // Daylight saving time switches at 2-3 am, so the offset at UTC midnight is the one at local midnight
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone: TIME_ZONE, timeZoneName: 'longOffset' })
+        .formatToParts(utcMidnight)
+        .find(part => part.type === 'timeZoneName')?.value.match(/GMT([+-])(\d{2}):(\d{2})/);
+    const offsetMinutes = offset ? (offset[1] === '-' ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3])) : 0;
+
+    return new Date(utcMidnight.getTime() - offsetMinutes * 60 * 1000);
+}
+
+function addDays(day: string, days: number): string {
+    return new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+}
+
+function isoWeekday(day: string): number {
+    return ((new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7) + 1;
+}
+
+function mondayOf(day: string): string {
+    return addDays(day, 1 - isoWeekday(day));
+}
+
+// ============================================================================
+// Recurrence
+// ============================================================================
+
+/**
+ * The days a template runs on within a range of days
+ * @param from - First day of the range (YYYY-MM-DD)
+ * @param days - Number of days in the range
+ */
+export function getTemplateOccurrences(
+    template: Pick<OfferTemplate, 'weekdays' | 'interval_weeks' | 'starts_on' | 'ends_on'>,
+    from: string,
+    days: number
+): string[] {
+    const firstWeek = mondayOf(template.starts_on);
+    const occurrences: string[] = [];
+
+    for (let offset = 0; offset < days; offset++) {
+        const day = addDays(from, offset);
+        if (day < template.starts_on || (template.ends_on && day > template.ends_on)) {
+            continue;
+        }
+
+        const week = daysBetween(firstWeek, mondayOf(day)) / 7;
+        if (template.weekdays.includes(isoWeekday(day)) && week % template.interval_weeks === 0) {
+            occurrences.push(day);
+        }
+    }
+
+    return occurrences;
+}
+
+/**
+ * Create the offers of all active templates (or the given ones) up to a week in advance
+ * Each day is only created once per template - offers deleted by hand are not created again.
+ * @returns The number of offers created
+ */
+export async function materializeOfferTemplates({
+    now = new Date(),
+    templateIds
+}: { now?: Date; templateIds?: string[] } = {}): Promise<number> {
+    const supabase = createServiceClient();
+    const today = toLocalDay(now);
+    const lastDay = addDays(today, LOOKAHEAD_DAYS - 1);
+
+    let query = supabase
+        .from('offer_templates')
+        // Templates of a market in the trash pause until it is restored
+        .select('*, markets!inner(id)')
+        .eq('is_active', true)
+        .is('markets.deleted_at', null)
+        .or(`materialized_until.is.null,materialized_until.lt.${lastDay}`);
+
+    if (templateIds) {
+        query = query.in('id', templateIds);
+    }
+
+    const { data: templates, error } = await query;
+
+    if (error) {
+        throw error;
+    }
+
+    let created = 0;
+
+    for (const template of (templates || []) as OfferTemplate[]) {
+        const from = template.materialized_until && template.materialized_until >= today
+            ? addDays(template.materialized_until, 1)
+            : today;
+        const occurrences = getTemplateOccurrences(template, from, daysBetween(from, lastDay) + 1);
+
+        const rows = occurrences.map(day => {
+            const startsAt = localMidnight(day).toISOString();
+            return {
+                market_id: template.market_id,
+                template_id: template.id,
+                product_name: template.product_name,
+                description: template.description,
+                ...getPriceColumns(template.price, template.unit),
+                regular_price: template.regular_price,
+                unit: template.unit,
+                ai_category: template.ai_category,
+                image_id: template.image_id,
+                status: template.publish_status === 'live' ? getPublishStatus(startsAt, now) : 'draft',
+                starts_at: startsAt,
+                expires_at: localMidnight(addDays(day, template.duration_days)).toISOString()
+            };
+        });
+
+        if (rows.length > 0) {
+            // Occurrences that already exist are skipped, so an interrupted run can simply be repeated
+            const { data: inserted, error: insertError } = await supabase
+                .from('offers')
+                .upsert(rows, { onConflict: 'template_id,starts_at', ignoreDuplicates: true })
+                .select('id');
+
+            if (insertError) {
+                console.error('[Templates] Error creating offers for template', template.id, insertError);
+                continue;
+            }
+
+            created += inserted.length;
+        }
+
+        const { error: updateError } = await supabase
+            .from('offer_templates')
+            .update({ materialized_until: lastDay })
+            .eq('id', template.id);
+
+        if (updateError) {
+            console.error('[Templates] Error updating template', template.id, updateError);
+        }
+    }
+
+    if (created > 0) {
+        console.log(`[Templates] ✅ Created ${created} offer(s) from templates`);
+    }
+
+    return created;
+}
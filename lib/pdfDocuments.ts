@@ -0,0 +1,63 @@
+/**
+ * PDF Documents
+ * Downloads PDF flyers (Prospekte) sent via WhatsApp and splits them into single pages,
+ * so every page can go through the offer extraction on its own
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import { getWhatsAppMediaUrl } from '@/app/api/webhooks/whatsapp/media';
+
+// Flyers rarely have more pages; anything beyond this is ignored to keep a batch within the cron time limit
+export const MAX_DOCUMENT_PAGES = 20;
+
+export interface DocumentPage {
+    // 1-based page number in the original document
+    pageNumber: number;
+    // The page as a standalone single-page PDF
+    data: Uint8Array;
+}
+
+/**
+ * Download a document sent via WhatsApp
+ * @param mediaId - The media ID from the WhatsApp webhook payload
+ * @throws If the document cannot be downloaded
+ */
+export async function downloadWhatsAppDocument(mediaId: string): Promise<ArrayBuffer> {
+    const mediaUrl = await getWhatsAppMediaUrl(mediaId);
+    if (!mediaUrl) {
+        throw new Error(`No download URL for document ${mediaId}`);
+    }
+
+    const response = await fetch(mediaUrl, {
+        headers: {
+            'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to download document: ${response.status}`);
+    }
+
+    return response.arrayBuffer();
+}
+
+/**
+ * Split a PDF into single-page PDFs
+ * @returns The first MAX_DOCUMENT_PAGES pages and the total page count of the document
+ * @throws If the file is not a readable PDF
+ */
+export async function splitPdfPages(pdf: ArrayBuffer): Promise<{ pageCount: number; pages: DocumentPage[] }> {
+    const source = await PDFDocument.load(pdf, { ignoreEncryption: true });
+    const pageCount = source.getPageCount();
+    const pages: DocumentPage[] = [];
+
+    for (let index = 0; index < Math.min(pageCount, MAX_DOCUMENT_PAGES); index++) {
+        const single = await PDFDocument.create();
+        const [page] = await single.copyPages(source, [index]);
+        single.addPage(page);
+        pages.push({ pageNumber: index + 1, data: await single.save() });
+    }
+
+    console.log(`[PdfDocuments] 📄 Split PDF into ${pages.length} of ${pageCount} page(s)`);
+    return { pageCount, pages };
+}
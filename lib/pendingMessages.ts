@@ -1,9 +1,12 @@
 /**
  * Pending Messages Manager
- * Handles the "waiting room" logic for message merging and validation
+ * Handles the "waiting room" logic: every inbound WhatsApp message is appended to a
+ * per-sender buffer, and once a sender has been quiet for 15 seconds their buffered
+ * messages are grouped into one batch for processing.
  */
 
 import { createClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -16,148 +19,125 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
     }
 });
 
-interface PendingMessage {
+// How long a sender must be quiet before their messages are processed
+const QUIET_PERIOD_MS = 15 * 1000;
+
+// Claimed batches that were not finished within this time are considered crashed and get reclaimed
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+export type BufferedMessageType = 'text' | 'image' | 'audio' | 'document';
+
+export interface BufferedMessage {
     id: string;
     sender_number: string;
     market_id: string;
-    caption: string | null;
-    image_url: string | null;
     wamid: string | null;
-    created_at: string;
-    last_updated_at: string;
-    is_processing: boolean;
+    message_type: BufferedMessageType;
+    text: string | null;
+    image_url: string | null;
+    // WhatsApp media ID of images, voice notes and documents, used to download voice notes and documents
+    // and to request a fresh download URL when a batch is retried
+    media_id: string | null;
+    // Original file name of a document (e.g. "Prospekt KW 42.pdf")
+    file_name: string | null;
+    // Set when an owner sent the message for several branches ("alle Filialen"); includes market_id
+    target_market_ids: string[] | null;
+    // Pages of a document (an image is a single page) that were already extracted, and the offers created from them
+    processed_pages?: number[];
+    page_offer_ids?: string[];
+    received_at: string;
+    batch_id: string | null;
+    claimed_at: string | null;
 }
 
 /**
- * Check if there's an existing pending message from this sender.
- * - If recent (within 20 seconds): merge the new data with existing
- * - If old (older than 20 seconds): replace with new data (fresh start)
- * - If none exists: create new entry
+ * All buffered messages of one sender/market, in the order they were received
  */
-export async function upsertPendingMessage(
-    senderNumber: string,
-    marketId: string,
-    caption: string | null,
-    imageUrl: string | null,
-    wamid: string
-): Promise<{ success: boolean; pendingMessage?: PendingMessage; error?: string }> {
-    try {
-        console.log('[PendingMessages] Upserting for sender:', senderNumber);
+export interface MessageBatch {
+    batch_id: string;
+    sender_number: string;
+    market_id: string;
+    messages: BufferedMessage[];
+}
 
-        // Check for ANY existing pending message from this sender (regardless of age or processing state)
-        const { data: existing, error: fetchError } = await supabase
-            .from('pending_messages')
-            .select('*')
-            .eq('sender_number', senderNumber)
-            .eq('market_id', marketId)
-            .maybeSingle();
-
-        // If message is stuck in processing state for over 5 minutes, reset it
-        if (existing?.is_processing) {
-            const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-            const lastUpdated = new Date(existing.last_updated_at);
-            if (lastUpdated < fiveMinutesAgo) {
-                console.log('[PendingMessages] Found stuck processing message, resetting...');
-                await supabase
-                    .from('pending_messages')
-                    .update({ is_processing: false })
-                    .eq('id', existing.id);
-                existing.is_processing = false;
-            } else {
-                // Still processing, skip this message
-                console.log('[PendingMessages] Message is currently being processed, skipping...');
-                return { success: true, pendingMessage: existing };
-            }
-        }
+/**
+ * An image of a batch together with the text that belongs to it
+ */
+export interface BatchImage {
+    // The buffered message, where the extraction progress is stored
+    message_id: string;
+    image_url: string;
+    caption: string | null;
+    processed_pages: number[];
+    page_offer_ids: string[];
+}
 
-        if (fetchError) {
-            console.error('[PendingMessages] Error fetching existing:', fetchError);
-            return { success: false, error: fetchError.message };
-        }
+/**
+ * A PDF document of a batch together with its caption
+ */
+export interface BatchDocument {
+    // The buffered message, where the extraction progress is stored
+    message_id: string;
+    media_id: string;
+    file_name: string | null;
+    caption: string | null;
+    processed_pages: number[];
+    page_offer_ids: string[];
+}
 
-        if (existing) {
-            // Check if the existing message is recent (within 20 seconds)
-            const twentySecondsAgo = new Date(Date.now() - 20 * 1000);
-            const lastUpdated = new Date(existing.last_updated_at);
-            const isRecent = lastUpdated > twentySecondsAgo;
-
-            if (isRecent) {
-                // MERGE: Combine with existing recent message
-                console.log('[PendingMessages] Found recent message, merging...');
-
-                const mergedCaption = existing.caption
-                    ? (caption ? `${existing.caption}\n${caption}` : existing.caption)
-                    : caption;
-
-                const mergedImageUrl = imageUrl || existing.image_url;
-
-                const { data: updated, error: updateError } = await supabase
-                    .from('pending_messages')
-                    .update({
-                        caption: mergedCaption,
-                        image_url: mergedImageUrl,
-                        wamid: wamid,
-                        last_updated_at: new Date().toISOString()
-                    })
-                    .eq('id', existing.id)
-                    .select()
-                    .single();
-
-                if (updateError) {
-                    console.error('[PendingMessages] Error updating:', updateError);
-                    return { success: false, error: updateError.message };
-                }
-
-                console.log('[PendingMessages] ✅ Merged with existing message');
-                return { success: true, pendingMessage: updated };
-            } else {
-                // REPLACE: Old message, start fresh
-                console.log('[PendingMessages] Found old message, replacing with fresh data...');
-
-                const { data: updated, error: updateError } = await supabase
-                    .from('pending_messages')
-                    .update({
-                        caption: caption,
-                        image_url: imageUrl,
-                        wamid: wamid,
-                        last_updated_at: new Date().toISOString()
-                    })
-                    .eq('id', existing.id)
-                    .select()
-                    .single();
-
-                if (updateError) {
-                    console.error('[PendingMessages] Error replacing:', updateError);
-                    return { success: false, error: updateError.message };
-                }
-
-                console.log('[PendingMessages] ✅ Replaced old pending message');
-                return { success: true, pendingMessage: updated };
-            }
-        } else {
-            // CREATE: No existing message, create new
-            console.log('[PendingMessages] Creating new pending message...');
-
-            const { data: created, error: createError } = await supabase
-                .from('pending_messages')
-                .insert({
-                    sender_number: senderNumber,
-                    market_id: marketId,
-                    caption: caption,
-                    image_url: imageUrl,
-                    wamid: wamid
-                })
-                .select()
-                .single();
+/**
+ * The content of a batch, grouped for AI extraction
+ */
+export interface BatchContent {
+    // Text sent before the first image - applies to the whole batch
+    text: string | null;
+    // Images in the order they were received, each with its own caption and follow-up texts
+    images: BatchImage[];
+    // Documents (PDF flyers) in the order they were received - extracted page by page
+    documents: BatchDocument[];
+}
 
-            if (createError) {
-                console.error('[PendingMessages] Error creating:', createError);
-                return { success: false, error: createError.message };
-            }
+/**
+ * Append an inbound message to the sender's buffer.
+ * Messages are never merged or overwritten - grouping happens when the batch is claimed.
+ */
+export async function appendBufferedMessage(message: {
+    senderNumber: string;
+    marketId: string;
+    wamid: string;
+    type: BufferedMessageType;
+    text: string | null;
+    imageUrl: string | null;
+    mediaId?: string | null;
+    fileName?: string | null;
+    targetMarketIds?: string[] | null;
+}): Promise<{ success: boolean; bufferedMessage?: BufferedMessage; error?: string }> {
+    try {
+        console.log('[PendingMessages] Buffering message for sender:', message.senderNumber);
+
+        const { data, error } = await supabase
+            .from('message_buffer')
+            .insert({
+                sender_number: message.senderNumber,
+                market_id: message.marketId,
+                wamid: message.wamid,
+                message_type: message.type,
+                text: message.text,
+                image_url: message.imageUrl,
+                media_id: message.mediaId || null,
+                file_name: message.fileName || null,
+                target_market_ids: message.targetMarketIds || null
+            })
+            .select()
+            .single();
 
-            console.log('[PendingMessages] ✅ Created new pending message');
-            return { success: true, pendingMessage: created };
+        if (error) {
+            console.error('[PendingMessages] Error buffering message:', error);
+            return { success: false, error: error.message };
         }
+
+        console.log('[PendingMessages] ✅ Buffered message:', data.id);
+        return { success: true, bufferedMessage: data };
     } catch (err) {
         console.error('[PendingMessages] Unexpected error:', err);
         return { success: false, error: String(err) };
@@ -165,109 +145,184 @@ export async function upsertPendingMessage(
 }
 
 /**
- * Get a pending message that's ready to process (15 seconds since last update)
+ * Claim ALL batches that are ready to process (sender quiet for 15 seconds).
+ * Used by cron job to process messages in bulk.
+ *
+ * Claiming sets a batch_id on the buffered rows; only rows that are still unclaimed
+ * (or whose claim went stale) are taken, so concurrent cron runs never process
+ * the same message twice.
  */
-export async function getReadyPendingMessage(
-    senderNumber: string,
-    marketId: string
-): Promise<{ success: boolean; pendingMessage?: PendingMessage; error?: string }> {
+export async function claimReadyBatches(): Promise<{ success: boolean; batches: MessageBatch[]; error?: string }> {
     try {
-        const fifteenSecondsAgo = new Date(Date.now() - 15 * 1000).toISOString();
+        const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
 
         const { data, error } = await supabase
-            .from('pending_messages')
+            .from('message_buffer')
             .select('*')
-            .eq('sender_number', senderNumber)
-            .eq('market_id', marketId)
-            .lte('last_updated_at', fifteenSecondsAgo)
-            .eq('is_processing', false)
-            .maybeSingle();
+            .or(`batch_id.is.null,claimed_at.lt.${staleBefore}`)
+            .order('received_at', { ascending: true });
 
         if (error) {
-            console.error('[PendingMessages] Error fetching ready message:', error);
-            return { success: false, error: error.message };
+            console.error('[PendingMessages] Error fetching buffered messages:', error);
+            return { success: false, batches: [], error: error.message };
         }
 
-        if (data) {
-            console.log('[PendingMessages] ✅ Found message ready to process');
+        // Group by sender/market
+        const groups = new Map<string, BufferedMessage[]>();
+        for (const message of (data || []) as BufferedMessage[]) {
+            const key = `${message.sender_number}:${message.market_id}`;
+            groups.set(key, [...(groups.get(key) || []), message]);
         }
 
-        return { success: true, pendingMessage: data || undefined };
+        const quietSince = Date.now() - QUIET_PERIOD_MS;
+        const batches: MessageBatch[] = [];
+
+        for (const messages of groups.values()) {
+            const lastReceived = new Date(messages[messages.length - 1].received_at).getTime();
+            if (lastReceived > quietSince) {
+                // Sender is still typing - wait for the next run
+                continue;
+            }
+
+            const batchId = crypto.randomUUID();
+            const { data: claimed, error: claimError } = await supabase
+                .from('message_buffer')
+                .update({ batch_id: batchId, claimed_at: new Date().toISOString() })
+                .in('id', messages.map(message => message.id))
+                .or(`batch_id.is.null,claimed_at.lt.${staleBefore}`)
+                .select()
+                .order('received_at', { ascending: true });
+
+            if (claimError) {
+                console.error('[PendingMessages] Error claiming batch:', claimError);
+                continue;
+            }
+
+            if (!claimed || claimed.length === 0) {
+                // Another cron run was faster
+                continue;
+            }
+
+            batches.push({
+                batch_id: batchId,
+                sender_number: messages[0].sender_number,
+                market_id: messages[0].market_id,
+                messages: claimed
+            });
+        }
+
+        console.log(`[PendingMessages] Claimed ${batches.length} batch(es) ready to process`);
+        return { success: true, batches };
     } catch (err) {
         console.error('[PendingMessages] Unexpected error:', err);
-        return { success: false, error: String(err) };
+        return { success: false, batches: [], error: String(err) };
     }
 }
 
 /**
- * Mark a pending message as being processed
+ * Group the messages of a batch for AI extraction.
+ * Texts sent after an image belong to that image (like its caption) until the next image or document
+ * arrives; all other texts apply to the whole batch. Documents keep only their own caption.
+ * Voice notes count as texts once they have been transcribed into `text`.
  */
-export async function markAsProcessing(messageId: string): Promise<boolean> {
-    try {
-        const { error } = await supabase
-            .from('pending_messages')
-            .update({
-                is_processing: true,
-                processed_at: new Date().toISOString()
-            })
-            .eq('id', messageId);
-
-        if (error) {
-            console.error('[PendingMessages] Error marking as processing:', error);
-            return false;
+export function groupBatchContent(batch: MessageBatch): BatchContent {
+    const generalTexts: string[] = [];
+    const images: { message: BufferedMessage; image_url: string; texts: string[] }[] = [];
+    const documents: BatchDocument[] = [];
+    // The image that follow-up texts belong to; a document ends the image's follow-up texts
+    let currentImage: { message: BufferedMessage; image_url: string; texts: string[] } | null = null;
+
+    for (const message of batch.messages) {
+        if (message.message_type === 'image' && message.image_url) {
+            currentImage = { message, image_url: message.image_url, texts: message.text ? [message.text] : [] };
+            images.push(currentImage);
+        } else if (message.message_type === 'document' && message.media_id) {
+            documents.push({
+                message_id: message.id,
+                media_id: message.media_id,
+                file_name: message.file_name,
+                caption: message.text,
+                processed_pages: message.processed_pages || [],
+                page_offer_ids: message.page_offer_ids || []
+            });
+            currentImage = null;
+        } else if (message.text) {
+            if (currentImage) {
+                currentImage.texts.push(message.text);
+            } else {
+                generalTexts.push(message.text);
+            }
         }
+    }
 
-        console.log('[PendingMessages] ✅ Marked as processing:', messageId);
-        return true;
-    } catch (err) {
-        console.error('[PendingMessages] Unexpected error:', err);
-        return false;
+    return {
+        text: generalTexts.length > 0 ? generalTexts.join('\n') : null,
+        images: images.map(image => ({
+            message_id: image.message.id,
+            image_url: image.image_url,
+            caption: image.texts.length > 0 ? image.texts.join('\n') : null,
+            processed_pages: image.message.processed_pages || [],
+            page_offer_ids: image.message.page_offer_ids || []
+        })),
+        documents
+    };
+}
+
+/**
+ * The markets the offers of a batch are created for: the batch's own market first,
+ * followed by the other branches any of its messages were sent for
+ */
+export function getTargetMarketIds(batch: MessageBatch): string[] {
+    const marketIds = new Set([batch.market_id]);
+    for (const message of batch.messages) {
+        message.target_market_ids?.forEach(marketId => marketIds.add(marketId));
     }
+    return [...marketIds];
 }
 
 /**
- * Get ALL pending messages that are ready to process (15 seconds since last update)
- * Used by cron job to process messages in bulk
+ * Store which pages of a buffered document or image have been extracted and the offers created from them,
+ * so a batch reclaimed after a timed out cron run continues after the last finished page
  */
-export async function getAllReadyPendingMessages(): Promise<{ success: boolean; messages: PendingMessage[]; error?: string }> {
+export async function recordProcessedPages(
+    messageId: string,
+    processedPages: number[],
+    pageOfferIds: string[]
+): Promise<boolean> {
     try {
-        const fifteenSecondsAgo = new Date(Date.now() - 15 * 1000).toISOString();
-
-        const { data, error } = await supabase
-            .from('pending_messages')
-            .select('*')
-            .lte('last_updated_at', fifteenSecondsAgo)
-            .eq('is_processing', false);
+        const { error } = await supabase
+            .from('message_buffer')
+            .update({ processed_pages: processedPages, page_offer_ids: pageOfferIds })
+            .eq('id', messageId);
 
         if (error) {
-            console.error('[PendingMessages] Error fetching all ready messages:', error);
-            return { success: false, messages: [], error: error.message };
+            console.error('[PendingMessages] Error recording processed pages:', error);
+            return false;
         }
 
-        console.log(`[PendingMessages] Found ${data?.length || 0} messages ready to process`);
-        return { success: true, messages: data || [] };
+        return true;
     } catch (err) {
         console.error('[PendingMessages] Unexpected error:', err);
-        return { success: false, messages: [], error: String(err) };
+        return false;
     }
 }
 
 /**
- * Delete a processed pending message
+ * Delete the buffered messages of a processed batch
  */
-export async function deletePendingMessage(messageId: string): Promise<boolean> {
+export async function deleteBatch(batchId: string): Promise<boolean> {
     try {
         const { error } = await supabase
-            .from('pending_messages')
+            .from('message_buffer')
             .delete()
-            .eq('id', messageId);
+            .eq('batch_id', batchId);
 
         if (error) {
-            console.error('[PendingMessages] Error deleting:', error);
+            console.error('[PendingMessages] Error deleting batch:', error);
             return false;
         }
 
-        console.log('[PendingMessages] ✅ Deleted pending message:', messageId);
+        console.log('[PendingMessages] ✅ Deleted processed batch:', batchId);
         return true;
     } catch (err) {
         console.error('[PendingMessages] Unexpected error:', err);
@@ -0,0 +1,121 @@
+/**
+ * Processed Messages Ledger
+ * Records every WhatsApp message ID (wamid) the webhook has handled, so retried
+ * deliveries from Meta are recognized and handled exactly once
+ *
+ * A wamid is claimed as 'processing' and marked 'done' once it was handled. A claim that
+ * stays 'processing' (the function was killed mid-handle) goes stale and can be reclaimed.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// Claims still 'processing' after this time are considered crashed and may be reclaimed by a retry
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+// Meta retries a delivery for at most about 7 days, older entries can never match a retry
+const RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+/**
+ * Claim a message ID before handling it
+ * @returns claimed=true if this is the first delivery or a stale claim was taken over,
+ *          claimed=false if it was handled before or is being handled right now
+ */
+export async function claimMessageId(wamid: string): Promise<{ claimed: boolean; error?: string }> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('processed_webhook_messages')
+        .insert({ wamid, status: 'processing' });
+
+    if (!error) {
+        return { claimed: true };
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+        console.error('[Ledger] Error claiming message ID:', error);
+        return { claimed: false, error: error.message };
+    }
+
+    // Take over a claim whose handler died before marking it done
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+
+    const { data: reclaimed, error: reclaimError } = await supabase
+        .from('processed_webhook_messages')
+        .update({ processed_at: new Date().toISOString() })
+        .eq('wamid', wamid)
+        .eq('status', 'processing')
+        .lt('processed_at', staleBefore)
+        .select('wamid');
+
+    if (reclaimError) {
+        console.error('[Ledger] Error reclaiming message ID:', reclaimError);
+        return { claimed: false, error: reclaimError.message };
+    }
+
+    if (reclaimed.length > 0) {
+        console.log('[Ledger] Reclaimed stale message ID:', wamid);
+        return { claimed: true };
+    }
+
+    return { claimed: false };
+}
+
+/**
+ * Mark a claimed message ID as handled, so retries are skipped for good
+ */
+export async function completeMessageId(wamid: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('processed_webhook_messages')
+        .update({ status: 'done' })
+        .eq('wamid', wamid);
+
+    if (error) {
+        console.error('[Ledger] Error completing message ID:', error);
+    }
+}
+
+/**
+ * Release a claimed message ID after handling failed, so Meta's retry is handled again
+ */
+export async function releaseMessageId(wamid: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('processed_webhook_messages')
+        .delete()
+        .eq('wamid', wamid);
+
+    if (error) {
+        console.error('[Ledger] Error releasing message ID:', error);
+    }
+}
+
+/**
+ * Delete ledger entries older than Meta's retry window
+ * @returns The number of deleted entries
+ */
+export async function purgeProcessedMessageIds(now: Date = new Date()): Promise<number> {
+    const supabase = createServiceClient();
+    const cutoff = new Date(now.getTime() - RETENTION_MS).toISOString();
+
+    const { data, error } = await supabase
+        .from('processed_webhook_messages')
+        .delete()
+        .lt('processed_at', cutoff)
+        .select('wamid');
+
+    if (error) {
+        throw error;
+    }
+
+    if (data.length > 0) {
+        console.log(`[Ledger] ✅ Purged ${data.length} message ID(s)`);
+    }
+
+    return data.length;
+}
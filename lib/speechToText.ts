@@ -0,0 +1,117 @@
+/**
+ * Speech-to-Text
+ * Transcribes WhatsApp voice notes so they can go through the same offer extraction as text.
+ *
+ * Providers are pluggable and selected via SPEECH_TO_TEXT_PROVIDER:
+ * - 'local' (default): a self-hosted Whisper server with an OpenAI-compatible
+ *   /v1/audio/transcriptions endpoint (e.g. faster-whisper-server, whisper.cpp) at SPEECH_TO_TEXT_URL
+ * - 'stub': returns a fixed transcript (SPEECH_TO_TEXT_STUB_TRANSCRIPT), for tests and local development
+ */
+
+import { getWhatsAppMediaUrl } from '@/app/api/webhooks/whatsapp/media';
+
+export interface SpeechToTextProvider {
+    name: string;
+    /**
+     * @param audio - The raw audio file (WhatsApp voice notes are OGG/Opus)
+     * @param mimeType - MIME type of the audio file
+     * @returns The transcript, or an empty string if nothing was said
+     */
+    transcribe(audio: ArrayBuffer, mimeType: string): Promise<string>;
+}
+
+/**
+ * Provider for a self-hosted Whisper server with an OpenAI-compatible API
+ */
+export function createLocalSpeechToTextProvider(
+    baseUrl: string = process.env.SPEECH_TO_TEXT_URL || 'http://localhost:8000',
+    model: string = process.env.SPEECH_TO_TEXT_MODEL || 'whisper-1'
+): SpeechToTextProvider {
+    return {
+        name: 'local',
+        async transcribe(audio, mimeType) {
+            const formData = new FormData();
+            formData.append('file', new Blob([audio], { type: mimeType }), 'voice-note.ogg');
+            formData.append('model', model);
+            formData.append('response_format', 'json');
+
+            const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/audio/transcriptions`, {
+                method: 'POST',
+                body: formData
+            });
+
+            if (!response.ok) {
+                throw new Error(`Speech-to-text request failed: ${response.status}`);
+            }
+
+            const data = await response.json();
+            return (data?.text || '').trim();
+        }
+    };
+}
+
+/**
+ * Provider that returns a fixed transcript without calling any service
+ */
+export function createStubSpeechToTextProvider(
+    transcript: string = process.env.SPEECH_TO_TEXT_STUB_TRANSCRIPT || 'Heute Lammfleisch 12,99 das Kilo'
+): SpeechToTextProvider {
+    return {
+        name: 'stub',
+        async transcribe() {
+            return transcript;
+        }
+    };
+}
+
+let activeProvider: SpeechToTextProvider | null = null;
+
+/**
+ * The configured speech-to-text provider
+ */
+export function getSpeechToTextProvider(): SpeechToTextProvider {
+    if (!activeProvider) {
+        activeProvider = process.env.SPEECH_TO_TEXT_PROVIDER === 'stub'
+            ? createStubSpeechToTextProvider()
+            : createLocalSpeechToTextProvider();
+    }
+    return activeProvider;
+}
+
+/**
+ * Replace the configured provider (e.g. with a stub in tests); pass null to reset
+ */
+export function setSpeechToTextProvider(provider: SpeechToTextProvider | null): void {
+    activeProvider = provider;
+}
+
+/**
+ * Download a WhatsApp voice note and transcribe it
+ * @param mediaId - The media ID from the WhatsApp webhook payload
+ * @throws If the voice note cannot be downloaded or transcribed
+ */
+export async function transcribeWhatsAppAudio(mediaId: string): Promise<string> {
+    const mediaUrl = await getWhatsAppMediaUrl(mediaId);
+    if (!mediaUrl) {
+        throw new Error(`No download URL for voice note ${mediaId}`);
+    }
+
+    const response = await fetch(mediaUrl, {
+        headers: {
+            'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to download voice note: ${response.status}`);
+    }
+
+    const mimeType = response.headers.get('content-type') || 'audio/ogg';
+    const audio = await response.arrayBuffer();
+
+    const provider = getSpeechToTextProvider();
+    const transcript = await provider.transcribe(audio, mimeType);
+
+    console.log(`[SpeechToText] 🎙️ Transcribed voice note via ${provider.name}:`, transcript);
+    return transcript;
+}
@@ -0,0 +1,93 @@
+/**
+ * Trash
+ * Offers, markets and library images deleted in the dashboard are only moved to the trash (deleted_at);
+ * they stay restorable for TRASH_RETENTION_DAYS days before the purge-trash cron job deletes them for good.
+ * Trashing a market trashes its offers with the same timestamp, so restoring it brings exactly those back.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How many days trashed rows are kept before they are purged
+ */
+export function getTrashRetentionDays(): number {
+    const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Delete offers, markets and library images that stayed in the trash longer than the retention period
+ * Images are only deleted once no offer uses them anymore, also no trashed one.
+ * @returns The number of deleted offers, markets and images
+ */
+export async function purgeTrash(now: Date = new Date()): Promise<{ offers: number; markets: number; images: number }> {
+    const supabase = createServiceClient();
+    const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS).toISOString();
+
+    // Offers first, so the offers of a purged market and the users of a purged image are gone
+    const { data: offers, error: offersError } = await supabase
+        .from('offers')
+        .delete()
+        .lte('deleted_at', cutoff)
+        .select('id');
+
+    if (offersError) {
+        throw offersError;
+    }
+
+    const { data: markets, error: marketsError } = await supabase
+        .from('markets')
+        .delete()
+        .lte('deleted_at', cutoff)
+        .select('id');
+
+    if (marketsError) {
+        throw marketsError;
+    }
+
+    const { data: trashedImages, error: imagesError } = await supabase
+        .from('image_library')
+        .select('id')
+        .lte('deleted_at', cutoff);
+
+    if (imagesError) {
+        throw imagesError;
+    }
+
+    let images = 0;
+    if (trashedImages.length > 0) {
+        const { data: usages, error: usageError } = await supabase
+            .from('offers')
+            .select('image_id')
+            .in('image_id', trashedImages.map(image => image.id));
+
+        if (usageError) {
+            throw usageError;
+        }
+
+        const usedIds = new Set(usages.map(usage => usage.image_id));
+        const unusedIds = trashedImages.map(image => image.id).filter(id => !usedIds.has(id));
+
+        if (unusedIds.length > 0) {
+            const { error: deleteError } = await supabase
+                .from('image_library')
+                .delete()
+                .in('id', unusedIds);
+
+            if (deleteError) {
+                throw deleteError;
+            }
+            images = unusedIds.length;
+        }
+    }
+
+    if (offers.length > 0 || markets.length > 0 || images > 0) {
+        console.log(`[Trash] ✅ Purged ${offers.length} offer(s), ${markets.length} market(s), ${images} image(s)`);
+    }
+
+    return { offers: offers.length, markets: markets.length, images };
+}
@@ -0,0 +1,598 @@
+/**
+ * WhatsApp Commands
+ * Parses and executes reply commands from shop owners before a message enters the waiting room
+ *
+ * Supported commands (case-insensitive, German or Turkish):
+ * - "Preis 2,49" / "Preis Tomaten 2,49" → change the price of the most recent draft ("fiyat")
+ * - "löschen" / "löschen Tomaten"       → withdraw the most recent draft(s) ("sil")
+ * - Interactive "Löschen" button         → same as "löschen" for the drafts the button was sent with
+ * - "meine angebote"                     → list the market's live offers ("tekliflerim")
+ * - "verlängern Tomaten 3 Tage"          → extend a live offer, default: one week ("uzat Domates 3 gün")
+ * - "beenden Ayran"                      → end a live offer immediately ("bitir")
+ * - "freigeben" / "freigeben Tomaten"   → publish the market's drafts right away ("onayla")
+ * - "dil türkçe" / "sprache deutsch"     → switch the reply language of the sender's number
+ * - Interactive "Aktualisieren" button   → merge a new draft into the existing offer it likely duplicates
+ * - Interactive "Beide behalten" button  → keep a likely duplicate as a separate offer
+ *
+ * Publishing, extending and ending offers is reserved for owner numbers; employees can only
+ * submit and correct their own drafts. Replies are sent in the preferred language of the sender's number.
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+import { sendWhatsAppText, formatPrice, formatDate } from './whatsappMessages';
+import { getActiveSession, updateSessionDrafts } from './whatsappSessions';
+import { getBotTranslator, getSenderLocale, setSenderLocale, type BotTranslator } from './whatsappLanguage';
+import { getPriceColumns } from './offerPricing';
+import { getPublishStatus } from './offerSchedule';
+import { mergeDuplicate, keepDuplicate } from './offerDuplicates';
+import type { MarketMemberRole } from './marketMembers';
+import type { Locale } from '@/i18n/routing';
+
+// Button reply IDs are "<prefix><first offer id of the batch>"
+export const DRAFT_DELETE_BUTTON_PREFIX = 'draft_delete:';
+// Button reply IDs are "<prefix><id of the duplicate draft>"
+export const DUPLICATE_MERGE_BUTTON_PREFIX = 'duplicate_merge:';
+export const DUPLICATE_KEEP_BUTTON_PREFIX = 'duplicate_keep:';
+
+/**
+ * The subset of a WhatsApp webhook message that commands are parsed from
+ */
+export interface InboundWhatsAppMessage {
+    type: string;
+    text?: { body?: string };
+    interactive?: {
+        type: string;
+        button_reply?: { id: string; title: string };
+    };
+}
+
+export type WhatsAppCommand =
+    | { type: 'update_price'; productName: string | null; price: string }
+    | { type: 'cancel_draft'; productName: string | null; anchorOfferId?: string }
+    | { type: 'list_offers' }
+    | { type: 'extend_offer'; productName: string; days: number }
+    | { type: 'end_offer'; productName: string }
+    | { type: 'publish_drafts'; productName: string | null }
+    | { type: 'set_language'; locale: Locale }
+    | { type: 'merge_duplicate'; offerId: string }
+    | { type: 'keep_duplicate'; offerId: string };
+
+interface CommandContext {
+    senderNumber: string;
+    marketId: string;
+    role: MarketMemberRole;
+}
+
+/**
+ * Command context with the sender's reply language
+ */
+interface ReplyContext extends CommandContext {
+    locale: Locale;
+    t: BotTranslator;
+}
+
+interface DraftOffer {
+    id: string;
+    product_name: string;
+    unit: string | null;
+    // Drafts prepared in the dashboard can have a start date
+    starts_at?: string | null;
+    expires_at?: string;
+}
+
+interface LiveOffer {
+    id: string;
+    product_name: string;
+    price: string;
+    unit: string | null;
+    expires_at: string;
+}
+
+// Upper bound for "verlängern", so a typo can't keep an offer online for years
+const MAX_EXTENSION_DAYS = 60;
+const DEFAULT_EXTENSION_DAYS = 7;
+
+// Commands that change what customers see - employees can only submit drafts
+const OWNER_COMMANDS: WhatsAppCommand['type'][] = ['extend_offer', 'end_offer', 'publish_drafts', 'merge_duplicate'];
+
+const PRICE_COMMAND = /^(?:preis|fiyat)\s*:?\s*(?:(.+?)\s+)?(\d+(?:[.,]\d{1,2})?)\s*(?:€|eur|euro)?$/i;
+const CANCEL_COMMAND = /^(?:löschen|loeschen|stornieren|zurückziehen|sil|iptal)(?:\s+(.+))?$/i;
+const LIST_COMMAND = /^(?:(?:meine\s+)?angebote|tekliflerim)$/i;
+const EXTEND_COMMAND = /^(?:verlängern|verlaengern|uzat)\s+(.+?)(?:\s+(?:um\s+)?(\d+)\s*(tag|tage|tagen|woche|wochen|gün|gun|hafta))?$/i;
+const END_COMMAND = /^(?:beenden|bitir)\s+(.+)$/i;
+const PUBLISH_COMMAND = /^(?:freigeben|veröffentlichen|veroeffentlichen|onayla|yayınla|yayinla)(?:\s+(.+))?$/i;
+const LANGUAGE_COMMAND = /^(?:dil|sprache)\s*:?\s*(türkçe|turkce|türkisch|tuerkisch|deutsch|almanca)$/i;
+
+/**
+ * Parse a reply command from an incoming WhatsApp message
+ * @returns The command, or null if the message is not a command and should be treated as an offer
+ */
+export function parseCommand(message: InboundWhatsAppMessage): WhatsAppCommand | null {
+    if (message.type === 'interactive') {
+        const buttonId = message.interactive?.button_reply?.id;
+        if (buttonId?.startsWith(DRAFT_DELETE_BUTTON_PREFIX)) {
+            return {
+                type: 'cancel_draft',
+                productName: null,
+                anchorOfferId: buttonId.slice(DRAFT_DELETE_BUTTON_PREFIX.length)
+            };
+        }
+        if (buttonId?.startsWith(DUPLICATE_MERGE_BUTTON_PREFIX)) {
+            return { type: 'merge_duplicate', offerId: buttonId.slice(DUPLICATE_MERGE_BUTTON_PREFIX.length) };
+        }
+        if (buttonId?.startsWith(DUPLICATE_KEEP_BUTTON_PREFIX)) {
+            return { type: 'keep_duplicate', offerId: buttonId.slice(DUPLICATE_KEEP_BUTTON_PREFIX.length) };
+        }
+        return null;
+    }
+
+    if (message.type !== 'text') {
+        return null;
+    }
+
+    const text = message.text?.body?.trim().replace(/\s+/g, ' ');
+    if (!text) {
+        return null;
+    }
+
+    const priceMatch = text.match(PRICE_COMMAND);
+    if (priceMatch) {
+        return {
+            type: 'update_price',
+            productName: priceMatch[1]?.trim() || null,
+            price: priceMatch[2].replace(',', '.')
+        };
+    }
+
+    const cancelMatch = text.match(CANCEL_COMMAND);
+    if (cancelMatch) {
+        return {
+            type: 'cancel_draft',
+            productName: cancelMatch[1]?.trim() || null
+        };
+    }
+
+    if (LIST_COMMAND.test(text)) {
+        return { type: 'list_offers' };
+    }
+
+    const extendMatch = text.match(EXTEND_COMMAND);
+    if (extendMatch) {
+        const amount = extendMatch[2] ? parseInt(extendMatch[2], 10) : DEFAULT_EXTENSION_DAYS;
+        const unit = extendMatch[3]?.toLowerCase();
+        const isWeeks = unit?.startsWith('woche') || unit === 'hafta';
+        return {
+            type: 'extend_offer',
+            productName: extendMatch[1].trim(),
+            days: isWeeks ? amount * 7 : amount
+        };
+    }
+
+    const endMatch = text.match(END_COMMAND);
+    if (endMatch) {
+        return {
+            type: 'end_offer',
+            productName: endMatch[1].trim()
+        };
+    }
+
+    const publishMatch = text.match(PUBLISH_COMMAND);
+    if (publishMatch) {
+        return {
+            type: 'publish_drafts',
+            productName: publishMatch[1]?.trim() || null
+        };
+    }
+
+    const languageMatch = text.match(LANGUAGE_COMMAND);
+    if (languageMatch) {
+        const language = languageMatch[1].toLowerCase();
+        return {
+            type: 'set_language',
+            locale: language === 'deutsch' || language === 'almanca' ? 'de' : 'tr'
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Handle a message if it is a reply command
+ * @returns true if the message was a command (and has been answered), false otherwise
+ */
+export async function handleWhatsAppCommand(
+    message: InboundWhatsAppMessage,
+    context: CommandContext
+): Promise<boolean> {
+    const command = parseCommand(message);
+    if (!command) {
+        return false;
+    }
+
+    console.log('[Commands] Handling command:', command);
+
+    const locale = await getSenderLocale(context.marketId, context.senderNumber);
+    const replyContext: ReplyContext = { ...context, locale, t: getBotTranslator(locale) };
+
+    if (OWNER_COMMANDS.includes(command.type) && context.role !== 'owner') {
+        console.log('[Commands] ⛔ Owner command from employee number:', context.senderNumber);
+        await sendWhatsAppText(context.senderNumber, replyContext.t('access.ownerOnly'));
+        return true;
+    }
+
+    try {
+        switch (command.type) {
+            case 'update_price':
+            case 'cancel_draft':
+                await executeDraftCommand(command, replyContext);
+                break;
+            case 'list_offers':
+                await listLiveOffers(replyContext);
+                break;
+            case 'extend_offer':
+            case 'end_offer':
+                await executeLiveOfferCommand(command, replyContext);
+                break;
+            case 'publish_drafts':
+                await publishDrafts(command.productName, replyContext);
+                break;
+            case 'set_language':
+                await changeLanguage(command.locale, replyContext);
+                break;
+            case 'merge_duplicate':
+            case 'keep_duplicate':
+                await resolveDuplicate(command, replyContext);
+                break;
+        }
+    } catch (err) {
+        console.error('[Commands] Error executing command:', err);
+        await sendWhatsAppText(context.senderNumber, replyContext.t('genericError'));
+    }
+
+    return true;
+}
+
+async function executeDraftCommand(
+    command: Extract<WhatsAppCommand, { type: 'update_price' | 'cancel_draft' }>,
+    { senderNumber, marketId, t }: ReplyContext
+): Promise<void> {
+    const session = await getActiveSession(senderNumber, marketId);
+
+    if (!session || session.last_offer_ids.length === 0) {
+        await sendWhatsAppText(senderNumber, t('drafts.noOpenDraft'));
+        return;
+    }
+
+    if (command.type === 'cancel_draft' && command.anchorOfferId && command.anchorOfferId !== session.last_offer_ids[0]) {
+        await sendWhatsAppText(senderNumber, t('drafts.outdated'));
+        return;
+    }
+
+    const supabase = createServiceClient();
+
+    // Only drafts can be changed - once our team has reviewed an offer, it is out of the owner's hands
+    const { data: drafts, error: fetchError } = await supabase
+        .from('offers')
+        .select('id, product_name, unit')
+        .in('id', session.last_offer_ids)
+        .eq('status', 'draft')
+        .is('deleted_at', null);
+
+    if (fetchError) {
+        throw fetchError;
+    }
+
+    if (!drafts || drafts.length === 0) {
+        await sendWhatsAppText(senderNumber, t('drafts.alreadyReviewed'));
+        return;
+    }
+
+    const targets = selectDrafts(drafts, command.productName);
+
+    if (targets.length === 0) {
+        await sendWhatsAppText(senderNumber, t('drafts.notFound', { productName: command.productName ?? '' }));
+        return;
+    }
+
+    if (command.type === 'update_price') {
+        // Offers sent for "alle Filialen" are copies with the same name - those are corrected together
+        const productNames = new Set(targets.map(draft => draft.product_name.toLowerCase()));
+        if (productNames.size > 1) {
+            await sendWhatsAppText(
+                senderNumber,
+                t('drafts.whichProduct', { productName: targets[0].product_name, price: command.price.replace('.', ',') })
+            );
+            return;
+        }
+
+        const { error: updateError } = await supabase
+            .from('offers')
+            .update(getPriceColumns(command.price, targets[0].unit))
+            .in('id', targets.map(draft => draft.id))
+            .eq('status', 'draft');
+
+        if (updateError) {
+            throw updateError;
+        }
+
+        console.log('[Commands] ✅ Updated price of draft(s):', targets.map(draft => draft.id));
+        await sendWhatsAppText(
+            senderNumber,
+            t('drafts.priceUpdated', { productName: targets[0].product_name, price: command.price.replace('.', ',') })
+        );
+        return;
+    }
+
+    const targetIds = targets.map(draft => draft.id);
+
+    // Moved to the trash like drafts deleted in the dashboard, so our team can still restore them
+    const { error: deleteError } = await supabase
+        .from('offers')
+        .update({ deleted_at: new Date().toISOString() })
+        .in('id', targetIds)
+        .eq('status', 'draft')
+        .is('deleted_at', null);
+
+    if (deleteError) {
+        throw deleteError;
+    }
+
+    await updateSessionDrafts(senderNumber, session.last_offer_ids.filter(id => !targetIds.includes(id)));
+
+    console.log('[Commands] ✅ Deleted drafts:', targetIds);
+    await sendWhatsAppText(
+        senderNumber,
+        t('drafts.deleted', { count: targets.length, productName: targets[0].product_name })
+    );
+}
+
+/**
+ * Fetch the live, not yet expired offers of a market
+ */
+async function fetchLiveOffers(marketId: string): Promise<LiveOffer[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('offers')
+        .select('id, product_name, price, unit, expires_at')
+        .eq('market_id', marketId)
+        .eq('status', 'live')
+        .is('deleted_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return data || [];
+}
+
+async function listLiveOffers({ senderNumber, marketId, locale, t }: ReplyContext): Promise<void> {
+    const offers = await fetchLiveOffers(marketId);
+
+    if (offers.length === 0) {
+        await sendWhatsAppText(senderNumber, t('liveOffers.none'));
+        return;
+    }
+
+    const lines = offers.map((offer, index) => t('liveOffers.item', {
+        index: index + 1,
+        productName: offer.product_name,
+        price: offer.unit ? `${formatPrice(offer.price)} / ${offer.unit}` : formatPrice(offer.price),
+        date: formatDate(offer.expires_at, locale)
+    }));
+
+    await sendWhatsAppText(
+        senderNumber,
+        [
+            t('liveOffers.header', { count: offers.length }),
+            lines.join('\n'),
+            t('liveOffers.hint')
+        ].join('\n\n')
+    );
+}
+
+async function executeLiveOfferCommand(
+    command: Extract<WhatsAppCommand, { type: 'extend_offer' | 'end_offer' }>,
+    { senderNumber, marketId, locale, t }: ReplyContext
+): Promise<void> {
+    const offers = await fetchLiveOffers(marketId);
+    const matches = selectOffer(offers, command.productName);
+
+    if (matches.length === 0) {
+        await sendWhatsAppText(senderNumber, t('liveOffers.notFound', { productName: command.productName }));
+        return;
+    }
+
+    if (matches.length > 1) {
+        await sendWhatsAppText(
+            senderNumber,
+            t('liveOffers.ambiguous', { options: matches.map(offer => `• ${offer.product_name}`).join('\n') })
+        );
+        return;
+    }
+
+    const offer = matches[0];
+    const supabase = createServiceClient();
+
+    if (command.type === 'extend_offer') {
+        if (command.days < 1 || command.days > MAX_EXTENSION_DAYS) {
+            await sendWhatsAppText(senderNumber, t('liveOffers.invalidExtension', { max: MAX_EXTENSION_DAYS }));
+            return;
+        }
+
+        const newExpiry = new Date(new Date(offer.expires_at).getTime() + command.days * 24 * 60 * 60 * 1000).toISOString();
+
+        const { error } = await supabase
+            .from('offers')
+            .update({ expires_at: newExpiry })
+            .eq('id', offer.id)
+            .eq('market_id', marketId);
+
+        if (error) {
+            throw error;
+        }
+
+        console.log('[Commands] ✅ Extended offer:', offer.id, 'until', newExpiry);
+        await sendWhatsAppText(senderNumber, t('liveOffers.extended', { productName: offer.product_name, date: formatDate(newExpiry, locale) }));
+        return;
+    }
+
+    const endedAt = new Date().toISOString();
+    const { error } = await supabase
+        .from('offers')
+        .update({ status: 'expired', expires_at: endedAt, expired_at: endedAt })
+        .eq('id', offer.id)
+        .eq('market_id', marketId);
+
+    if (error) {
+        throw error;
+    }
+
+    console.log('[Commands] ✅ Ended offer:', offer.id);
+    await sendWhatsAppText(senderNumber, t('liveOffers.ended', { productName: offer.product_name }));
+}
+
+/**
+ * Publish the market's drafts without waiting for the team review (owners only)
+ * Without a product name, all drafts of the market are published
+ */
+async function publishDrafts(productName: string | null, { senderNumber, marketId, t }: ReplyContext): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { data: drafts, error: fetchError } = await supabase
+        .from('offers')
+        .select('id, product_name, unit, starts_at, expires_at')
+        .eq('market_id', marketId)
+        .eq('status', 'draft')
+        .is('deleted_at', null);
+
+    if (fetchError) {
+        throw fetchError;
+    }
+
+    if (!drafts || drafts.length === 0) {
+        await sendWhatsAppText(senderNumber, t('approval.none'));
+        return;
+    }
+
+    const targets = selectDrafts(drafts, productName);
+
+    if (targets.length === 0) {
+        await sendWhatsAppText(senderNumber, t('approval.notFound', { productName: productName ?? '' }));
+        return;
+    }
+
+    // Drafts that expired while waiting for approval would go live only to be expired by the status cron
+    const now = new Date().toISOString();
+    const expired = targets.filter(draft => draft.expires_at && draft.expires_at <= now);
+    const publishable = targets.filter(draft => !expired.includes(draft));
+
+    // Drafts with a start date in the future wait for it as 'scheduled'
+    for (const status of ['live', 'scheduled'] as const) {
+        const ids = publishable.filter(draft => getPublishStatus(draft.starts_at) === status).map(draft => draft.id);
+        if (ids.length === 0) {
+            continue;
+        }
+
+        const { error: updateError } = await supabase
+            .from('offers')
+            .update({ status, duplicate_of: null })
+            .in('id', ids)
+            .eq('market_id', marketId)
+            .eq('status', 'draft')
+            .gt('expires_at', now);
+
+        if (updateError) {
+            throw updateError;
+        }
+    }
+
+    if (publishable.length > 0) {
+        console.log('[Commands] ✅ Published drafts:', publishable.map(draft => draft.id));
+        await sendWhatsAppText(senderNumber, t('approval.published', { count: publishable.length, productName: publishable[0].product_name }));
+    }
+
+    if (expired.length > 0) {
+        console.log('[Commands] Skipped expired drafts:', expired.map(draft => draft.id));
+        await sendWhatsAppText(senderNumber, t('approval.expired', {
+            count: expired.length,
+            items: expired.map(draft => `• ${draft.product_name}`).join('\n')
+        }));
+    }
+}
+
+/**
+ * Store the sender's new reply language and confirm it in that language
+ */
+async function changeLanguage(locale: Locale, { senderNumber, marketId }: ReplyContext): Promise<void> {
+    if (!await setSenderLocale(marketId, senderNumber, locale)) {
+        throw new Error('Failed to store preferred language');
+    }
+
+    await sendWhatsAppText(senderNumber, getBotTranslator(locale)('language.changed'));
+}
+
+/**
+ * Answer the "Angebot aktualisieren?" question sent for a likely duplicate draft
+ * Merging moves the new price and expiry to the existing offer and moves the draft to the trash.
+ */
+async function resolveDuplicate(
+    command: Extract<WhatsAppCommand, { type: 'merge_duplicate' | 'keep_duplicate' }>,
+    { senderNumber, marketId, locale, t }: ReplyContext
+): Promise<void> {
+    const result = command.type === 'merge_duplicate'
+        ? await mergeDuplicate(command.offerId, marketId)
+        : await keepDuplicate(command.offerId, marketId);
+
+    if (!result.ok) {
+        await sendWhatsAppText(senderNumber, t(result.reason === 'original_gone' ? 'duplicates.originalGone' : 'duplicates.outdated'));
+        return;
+    }
+
+    if (command.type === 'keep_duplicate') {
+        console.log('[Commands] ✅ Kept duplicate draft:', command.offerId);
+        await sendWhatsAppText(senderNumber, t('duplicates.kept', { productName: result.offer.product_name }));
+        return;
+    }
+
+    // The merged draft is in the trash now, so later corrections by reply must not target it
+    const session = await getActiveSession(senderNumber, marketId);
+    if (session?.last_offer_ids.includes(command.offerId)) {
+        await updateSessionDrafts(senderNumber, session.last_offer_ids.filter(id => id !== command.offerId));
+    }
+
+    console.log('[Commands] ✅ Merged duplicate draft', command.offerId, 'into offer', result.offer.id);
+    await sendWhatsAppText(senderNumber, t('duplicates.merged', {
+        productName: result.offer.product_name,
+        price: `${formatPrice(result.offer.price)}${result.offer.unit ? ` / ${result.offer.unit}` : ''}`,
+        date: formatDate(result.offer.expires_at, locale)
+    }));
+}
+
+/**
+ * Find the live offer a command refers to
+ * An exact (case-insensitive) name match wins over partial matches
+ */
+function selectOffer(offers: LiveOffer[], productName: string): LiveOffer[] {
+    const needle = productName.toLowerCase();
+    const exact = offers.filter(offer => offer.product_name.toLowerCase() === needle);
+    if (exact.length > 0) {
+        return exact;
+    }
+    return offers.filter(offer => offer.product_name.toLowerCase().includes(needle));
+}
+
+/**
+ * Pick the drafts a command refers to
+ * Without a product name, all drafts are targeted; otherwise matching is case-insensitive and partial
+ */
+function selectDrafts(drafts: DraftOffer[], productName: string | null): DraftOffer[] {
+    if (!productName) {
+        return drafts;
+    }
+
+    const needle = productName.toLowerCase();
+    return drafts.filter(draft => draft.product_name.toLowerCase().includes(needle));
+}
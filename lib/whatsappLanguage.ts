@@ -0,0 +1,74 @@
+/**
+ * WhatsApp Language
+ * Preferred reply language per WhatsApp number, stored on the market (`markets.whatsapp_languages`),
+ * and translators for the bot replies in `messages/<locale>.json` (namespace "whatsappBot")
+ */
+
+import { createTranslator } from 'next-intl';
+import { createServiceClient } from '@/utils/supabase/service';
+import { routing, type Locale } from '@/i18n/routing';
+import de from '@/messages/de.json';
+import tr from '@/messages/tr.json';
+
+const MESSAGES: Record<Locale, typeof de> = { de, tr };
+
+function createBotTranslator(locale: Locale) {
+    return createTranslator({ locale, messages: MESSAGES[locale], namespace: 'whatsappBot' });
+}
+
+export type BotTranslator = ReturnType<typeof createBotTranslator>;
+
+/**
+ * Translator for bot replies in the given language
+ */
+export function getBotTranslator(locale: Locale = routing.defaultLocale): BotTranslator {
+    return createBotTranslator(locale);
+}
+
+/**
+ * The preferred reply language of a WhatsApp number, German if none was chosen
+ */
+export async function getSenderLocale(marketId: string, senderNumber: string): Promise<Locale> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('markets')
+        .select('whatsapp_languages')
+        .eq('id', marketId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Language] Error fetching preferred language:', error);
+        return routing.defaultLocale;
+    }
+
+    const locale = (data?.whatsapp_languages as Record<string, string> | null)?.[senderNumber];
+    return routing.locales.includes(locale as Locale) ? locale as Locale : routing.defaultLocale;
+}
+
+/**
+ * Store the preferred reply language of a WhatsApp number
+ * Only the sender's key is set (set_whatsapp_language), so numbers of the same market never overwrite each other.
+ */
+export async function setSenderLocale(marketId: string, senderNumber: string, locale: Locale): Promise<boolean> {
+    const supabase = createServiceClient();
+
+    const { data: updated, error } = await supabase.rpc('set_whatsapp_language', {
+        p_market_id: marketId,
+        p_sender_number: senderNumber,
+        p_locale: locale
+    });
+
+    if (error) {
+        console.error('[Language] Error storing preferred language:', error);
+        return false;
+    }
+
+    if (!updated) {
+        console.error('[Language] Market not found:', marketId);
+        return false;
+    }
+
+    console.log('[Language] ✅ Preferred language of', senderNumber, 'set to', locale);
+    return true;
+}
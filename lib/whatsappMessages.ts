@@ -0,0 +1,358 @@
+/**
+ * WhatsApp Messages
+ * Typed messaging client for replies via the WhatsApp Cloud API: text, reply buttons,
+ * list messages and approved template messages, with retries and error reporting.
+ *
+ * Messages go through a transport: the Graph API in production, or a fake transport
+ * that records every message so replies can be asserted in tests.
+ */
+
+import type { Locale } from '@/i18n/routing';
+
+const GRAPH_API_VERSION = process.env.WHATSAPP_API_VERSION || 'v17.0';
+
+// Limits of the WhatsApp Cloud API for interactive messages
+const MAX_REPLY_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+
+export interface ReplyButton {
+    id: string;
+    title: string;
+}
+
+export interface ListRow {
+    // Comes back in the webhook as `interactive.list_reply.id`
+    id: string;
+    title: string;
+    description?: string;
+}
+
+export interface ListSection {
+    title?: string;
+    rows: ListRow[];
+}
+
+export interface TemplateComponent {
+    type: 'header' | 'body' | 'button';
+    sub_type?: 'quick_reply' | 'url';
+    index?: number;
+    parameters: Array<{ type: 'text'; text: string } | { type: 'payload'; payload: string }>;
+}
+
+/**
+ * A message as it is sent to the Graph API (without the envelope fields)
+ */
+export type OutboundMessage =
+    | { type: 'text'; text: { preview_url: boolean; body: string } }
+    | {
+        type: 'interactive';
+        interactive:
+            | { type: 'button'; body: { text: string }; action: { buttons: Array<{ type: 'reply'; reply: ReplyButton }> } }
+            | { type: 'list'; body: { text: string }; action: { button: string; sections: ListSection[] } };
+    }
+    | { type: 'template'; template: { name: string; language: { code: string }; components?: TemplateComponent[] } };
+
+export interface TransportResponse {
+    ok: boolean;
+    status: number;
+    messageId?: string;
+    error?: string;
+}
+
+/**
+ * Delivers a single message; implementations must not throw on API errors but report them in the response
+ */
+export interface WhatsAppTransport {
+    send(toNumber: string, message: OutboundMessage): Promise<TransportResponse>;
+}
+
+export interface SendResult {
+    success: boolean;
+    messageId?: string;
+    error?: string;
+    attempts: number;
+}
+
+export interface WhatsAppClientOptions {
+    transport: WhatsAppTransport;
+    // Attempts per message, including the first one
+    maxAttempts?: number;
+    // Delay before the first retry, doubled for every further retry
+    retryDelayMs?: number;
+    // Called once a message finally failed
+    onError?: (failure: { toNumber: string; message: OutboundMessage; error: string; attempts: number }) => void;
+}
+
+export interface WhatsAppClient {
+    sendText(toNumber: string, body: string, options?: { previewUrl?: boolean }): Promise<SendResult>;
+    sendButtons(toNumber: string, body: string, buttons: ReplyButton[]): Promise<SendResult>;
+    sendList(toNumber: string, body: string, buttonLabel: string, sections: ListSection[]): Promise<SendResult>;
+    sendTemplate(toNumber: string, name: string, languageCode: string, components?: TemplateComponent[]): Promise<SendResult>;
+}
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+/**
+ * Transport for the WhatsApp Cloud API (Graph API)
+ */
+export function createGraphApiTransport(
+    phoneNumberId: string = process.env.WHATSAPP_PHONE_NUMBER_ID || '',
+    accessToken: string = process.env.WHATSAPP_ACCESS_TOKEN || ''
+): WhatsAppTransport {
+    return {
+        async send(toNumber, message) {
+            try {
+                const response = await fetch(`https://graph.facebook.com/${GRAPH_API_VERSION}/${phoneNumberId}/messages`, {
+                    method: 'POST',
+                    headers: {
+                        'Authorization': `Bearer ${accessToken}`,
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        messaging_product: 'whatsapp',
+                        recipient_type: 'individual',
+                        to: toNumber,
+                        ...message
+                    })
+                });
+
+                const data = await response.json().catch(() => null);
+
+                if (!response.ok) {
+                    return { ok: false, status: response.status, error: data?.error?.message || response.statusText };
+                }
+
+                return { ok: true, status: response.status, messageId: data?.messages?.[0]?.id };
+            } catch (err) {
+                // Network errors have no HTTP status
+                return { ok: false, status: 0, error: String(err) };
+            }
+        }
+    };
+}
+
+export interface FakeTransport extends WhatsAppTransport {
+    // Every message sent through the transport, in order
+    sent: Array<{ toNumber: string; message: OutboundMessage }>;
+    // Responses to return for the next sends (e.g. a 500 to test retries); defaults to success
+    queueResponse(response: TransportResponse): void;
+    clear(): void;
+}
+
+/**
+ * Transport that sends nothing and records every message, for tests and local development
+ */
+export function createFakeTransport(): FakeTransport {
+    const queuedResponses: TransportResponse[] = [];
+
+    const transport: FakeTransport = {
+        sent: [],
+        async send(toNumber, message) {
+            transport.sent.push({ toNumber, message });
+            return queuedResponses.shift() || { ok: true, status: 200, messageId: `wamid.fake.${transport.sent.length}` };
+        },
+        queueResponse(response) {
+            queuedResponses.push(response);
+        },
+        clear() {
+            transport.sent.length = 0;
+            queuedResponses.length = 0;
+        }
+    };
+
+    return transport;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Whether a failed send is worth retrying: network errors, rate limits and server errors
+ */
+function isRetryable(response: TransportResponse): boolean {
+    return response.status === 0 || response.status === 429 || response.status >= 500;
+}
+
+/**
+ * Create a messaging client on top of a transport
+ */
+export function createWhatsAppClient({
+    transport,
+    maxAttempts = 3,
+    retryDelayMs = 500,
+    onError = ({ toNumber, error, attempts }) => {
+        console.error(`[WhatsApp] ❌ Failed to send message to ${toNumber} after ${attempts} attempt(s):`, error);
+    }
+}: WhatsAppClientOptions): WhatsAppClient {
+    const send = async (toNumber: string, message: OutboundMessage): Promise<SendResult> => {
+        let response: TransportResponse = { ok: false, status: 0 };
+        let attempts = 0;
+
+        while (attempts < maxAttempts) {
+            attempts++;
+            response = await transport.send(toNumber, message);
+
+            if (response.ok || !isRetryable(response)) {
+                break;
+            }
+
+            if (attempts < maxAttempts) {
+                console.log(`[WhatsApp] 🔁 Retrying message to ${toNumber} (status ${response.status})...`);
+                await new Promise(resolve => setTimeout(resolve, retryDelayMs * Math.pow(2, attempts - 1)));
+            }
+        }
+
+        if (!response.ok) {
+            const error = response.error || `HTTP ${response.status}`;
+            onError({ toNumber, message, error, attempts });
+            return { success: false, error, attempts };
+        }
+
+        return { success: true, messageId: response.messageId, attempts };
+    };
+
+    return {
+        sendText(toNumber, body, options = {}) {
+            return send(toNumber, {
+                type: 'text',
+                text: { preview_url: options.previewUrl ?? false, body }
+            });
+        },
+
+        sendButtons(toNumber, body, buttons) {
+            return send(toNumber, {
+                type: 'interactive',
+                interactive: {
+                    type: 'button',
+                    body: { text: body },
+                    action: {
+                        buttons: buttons.slice(0, MAX_REPLY_BUTTONS).map(button => ({ type: 'reply', reply: button }))
+                    }
+                }
+            });
+        },
+
+        sendList(toNumber, body, buttonLabel, sections) {
+            // The API rejects lists with more than ten rows in total
+            let remaining = MAX_LIST_ROWS;
+            const limitedSections = sections
+                .map(section => {
+                    const rows = section.rows.slice(0, remaining);
+                    remaining -= rows.length;
+                    return { ...section, rows };
+                })
+                .filter(section => section.rows.length > 0);
+
+            return send(toNumber, {
+                type: 'interactive',
+                interactive: {
+                    type: 'list',
+                    body: { text: body },
+                    action: { button: buttonLabel, sections: limitedSections }
+                }
+            });
+        },
+
+        sendTemplate(toNumber, name, languageCode, components) {
+            return send(toNumber, {
+                type: 'template',
+                template: { name, language: { code: languageCode }, ...(components ? { components } : {}) }
+            });
+        }
+    };
+}
+
+let activeClient: WhatsAppClient | null = null;
+
+/**
+ * The client used for all bot replies
+ * Set WHATSAPP_TRANSPORT=fake to record messages instead of sending them
+ */
+export function getWhatsAppClient(): WhatsAppClient {
+    if (!activeClient) {
+        activeClient = createWhatsAppClient({
+            transport: process.env.WHATSAPP_TRANSPORT === 'fake' ? createFakeTransport() : createGraphApiTransport()
+        });
+    }
+    return activeClient;
+}
+
+/**
+ * Replace the client used for bot replies (e.g. with a fake transport in tests); pass null to reset
+ */
+export function setWhatsAppClient(client: WhatsAppClient | null): void {
+    activeClient = client;
+}
+
+// ============================================================================
+// Shortcuts for the configured client
+// ============================================================================
+
+/**
+ * Send a plain text message
+ * @returns true if the message was accepted by WhatsApp
+ */
+export async function sendWhatsAppText(toNumber: string, body: string, options?: { previewUrl?: boolean }): Promise<boolean> {
+    return (await getWhatsAppClient().sendText(toNumber, body, options)).success;
+}
+
+/**
+ * Send an interactive message with up to three reply buttons
+ * The button `id` comes back in the webhook as `interactive.button_reply.id`
+ * @returns true if the message was accepted by WhatsApp
+ */
+export async function sendWhatsAppButtons(toNumber: string, body: string, buttons: ReplyButton[]): Promise<boolean> {
+    return (await getWhatsAppClient().sendButtons(toNumber, body, buttons)).success;
+}
+
+/**
+ * Send an interactive list message (up to ten rows)
+ * The row `id` comes back in the webhook as `interactive.list_reply.id`
+ * @returns true if the message was accepted by WhatsApp
+ */
+export async function sendWhatsAppList(toNumber: string, body: string, buttonLabel: string, sections: ListSection[]): Promise<boolean> {
+    return (await getWhatsAppClient().sendList(toNumber, body, buttonLabel, sections)).success;
+}
+
+/**
+ * Send an approved template message (required outside the 24-hour customer service window)
+ * @returns true if the message was accepted by WhatsApp
+ */
+export async function sendWhatsAppTemplate(
+    toNumber: string,
+    name: string,
+    languageCode: string,
+    components?: TemplateComponent[]
+): Promise<boolean> {
+    return (await getWhatsAppClient().sendTemplate(toNumber, name, languageCode, components)).success;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Format a price for WhatsApp replies (e.g. "4.99" → "4,99 €")
+ */
+export function formatPrice(price: string | number): string {
+    const numeric = typeof price === 'number' ? price : parseFloat(String(price).replace(',', '.'));
+    if (isNaN(numeric)) {
+        return String(price);
+    }
+    return `${numeric.toFixed(2).replace('.', ',')} €`;
+}
+
+/**
+ * Format an ISO timestamp as a date in the reply language (e.g. "26.10.2026")
+ */
+export function formatDate(isoDate: string, locale: Locale = 'de'): string {
+    return new Date(isoDate).toLocaleDateString(locale === 'tr' ? 'tr-TR' : 'de-DE', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        timeZone: 'Europe/Berlin'
+    });
+}
@@ -0,0 +1,79 @@
+/**
+ * WhatsApp Sessions
+ * Remembers per sender which draft offers were created from their most recent message,
+ * so follow-up replies like "Preis 2,49" or "löschen" can be applied to them
+ */
+
+import { createServiceClient } from '@/utils/supabase/service';
+
+// Drafts older than this can no longer be changed via WhatsApp reply
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface WhatsAppSession {
+    sender_number: string;
+    market_id: string;
+    last_offer_ids: string[];
+    updated_at: string;
+}
+
+/**
+ * Link a sender to the draft offers that were just created from their message
+ */
+export async function rememberDrafts(senderNumber: string, marketId: string, offerIds: string[]): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('whatsapp_sessions')
+        .upsert({
+            sender_number: senderNumber,
+            market_id: marketId,
+            last_offer_ids: offerIds,
+            updated_at: new Date().toISOString()
+        }, { onConflict: 'sender_number' });
+
+    if (error) {
+        console.error('[Sessions] Error saving session:', error);
+    }
+}
+
+/**
+ * Get the active session of a sender for the given market
+ * @returns The session, or null if none exists or it has expired
+ */
+export async function getActiveSession(senderNumber: string, marketId: string): Promise<WhatsAppSession | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('whatsapp_sessions')
+        .select('sender_number, market_id, last_offer_ids, updated_at')
+        .eq('sender_number', senderNumber)
+        .eq('market_id', marketId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Sessions] Error fetching session:', error);
+        return null;
+    }
+
+    if (!data || new Date(data.updated_at).getTime() < Date.now() - SESSION_TTL_MS) {
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Replace the remembered draft offers of a sender (e.g. after some were deleted)
+ */
+export async function updateSessionDrafts(senderNumber: string, offerIds: string[]): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('whatsapp_sessions')
+        .update({ last_offer_ids: offerIds })
+        .eq('sender_number', senderNumber);
+
+    if (error) {
+        console.error('[Sessions] Error updating session:', error);
+    }
+}
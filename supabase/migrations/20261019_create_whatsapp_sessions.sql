@@ -0,0 +1,32 @@
+-- ============================================================================
+-- WHATSAPP SESSIONS
+-- Generated: 2026-10-19
+-- Purpose: Link a WhatsApp sender to the draft offers created from their most
+--          recent message, so they can correct ("Preis 2,49") or cancel
+--          ("löschen") those drafts by replying.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_sessions (
+    sender_number TEXT PRIMARY KEY,
+    market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+    last_offer_ids UUID[] NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_sessions_market_id
+ON public.whatsapp_sessions(market_id);
+
+-- Only the webhook/cron (service_role) touches this table
+ALTER TABLE public.whatsapp_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to whatsapp_sessions"
+ON public.whatsapp_sessions FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE public.whatsapp_sessions IS 'Per-sender WhatsApp conversation state (most recent draft offers)';
+
+COMMIT;
@@ -0,0 +1,48 @@
+-- ============================================================================
+-- MESSAGE BUFFER
+-- Generated: 2026-10-20
+-- Purpose: Replace the single-row pending_messages waiting room with an
+--          append-only buffer of individual inbound WhatsApp messages.
+--          The cron job groups a sender's messages into a batch (batch_id)
+--          once the sender has been quiet for 15 seconds, so no photo or
+--          caption is overwritten anymore.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.message_buffer (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sender_number TEXT NOT NULL,
+    market_id UUID NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+    wamid TEXT,
+    message_type TEXT NOT NULL CHECK (message_type IN ('text', 'image')),
+    text TEXT,
+    image_url TEXT,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    batch_id UUID,
+    claimed_at TIMESTAMPTZ
+);
+
+-- Cron lookup: unclaimed messages in arrival order
+CREATE INDEX IF NOT EXISTS idx_message_buffer_unclaimed
+ON public.message_buffer(sender_number, market_id, received_at)
+WHERE batch_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_buffer_batch_id
+ON public.message_buffer(batch_id);
+
+-- Only the webhook/cron (service_role) touches this table
+ALTER TABLE public.message_buffer ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to message_buffer"
+ON public.message_buffer FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE public.message_buffer IS 'Append-only buffer of inbound WhatsApp messages, grouped into batches by the cron job';
+
+-- The old waiting room only ever held in-flight messages, so nothing needs to be migrated
+DROP TABLE IF EXISTS public.pending_messages;
+
+COMMIT;
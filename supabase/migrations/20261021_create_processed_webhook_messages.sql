@@ -0,0 +1,31 @@
+-- ============================================================================
+-- PROCESSED WEBHOOK MESSAGES
+-- Generated: 2026-10-21
+-- Purpose: Ledger of handled WhatsApp message IDs (wamid). Meta retries
+--          webhook deliveries, so the webhook claims each wamid here before
+--          handling it and skips messages it has already seen.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.processed_webhook_messages (
+    wamid TEXT PRIMARY KEY,
+    processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- For periodic cleanup of old ledger entries
+CREATE INDEX IF NOT EXISTS idx_processed_webhook_messages_processed_at
+ON public.processed_webhook_messages(processed_at);
+
+-- Only the webhook (service_role) touches this table
+ALTER TABLE public.processed_webhook_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to processed_webhook_messages"
+ON public.processed_webhook_messages FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE public.processed_webhook_messages IS 'WhatsApp message IDs already handled by the webhook (idempotency ledger)';
+
+COMMIT;
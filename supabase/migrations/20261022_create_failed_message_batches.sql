@@ -0,0 +1,52 @@
+-- ============================================================================
+-- FAILED MESSAGE BATCHES (DEAD-LETTER QUEUE)
+-- Generated: 2026-10-22
+-- Purpose: Keep WhatsApp message batches whose processing failed (exceptions,
+--          empty or unparseable AI responses) instead of dropping them. The
+--          cron job retries them with exponential backoff; admins can inspect
+--          and replay them from the dashboard.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.failed_message_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sender_number TEXT NOT NULL,
+    market_id UUID NOT NULL REFERENCES public.markets(id) ON DELETE CASCADE,
+    -- The buffered messages of the batch, as they were stored in message_buffer
+    messages JSONB NOT NULL,
+    error TEXT,
+    raw_ai_response TEXT,
+    attempt_count INTEGER NOT NULL DEFAULT 1,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'retrying', 'exhausted', 'resolved')),
+    next_retry_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+-- For the cron job looking up due retries
+CREATE INDEX IF NOT EXISTS idx_failed_message_batches_status_next_retry
+ON public.failed_message_batches(status, next_retry_at);
+
+-- WhatsApp media IDs let retries request fresh download URLs (the original ones expire)
+ALTER TABLE public.message_buffer ADD COLUMN IF NOT EXISTS media_id TEXT;
+
+ALTER TABLE public.failed_message_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to failed_message_batches"
+ON public.failed_message_batches FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Admins inspect the queue from the dashboard; replays go through server actions
+CREATE POLICY "Admins can view failed_message_batches"
+ON public.failed_message_batches FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.failed_message_batches IS 'WhatsApp message batches that failed processing (dead-letter queue with retries)';
+
+COMMIT;
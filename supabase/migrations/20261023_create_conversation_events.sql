@@ -0,0 +1,46 @@
+-- ============================================================================
+-- CONVERSATION EVENTS
+-- Generated: 2026-10-23
+-- Purpose: Auditable log of every WhatsApp conversation per market: inbound
+--          messages, merged batches, AI prompts/responses and the resulting
+--          offers or rejections. Shown as a timeline in the admin dashboard.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.conversation_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    market_id UUID NOT NULL REFERENCES public.markets(id) ON DELETE CASCADE,
+    sender_number TEXT NOT NULL,
+    event_type TEXT NOT NULL
+        CHECK (event_type IN ('inbound_message', 'batch_merged', 'ai_exchange', 'offers_created', 'rejected', 'failed')),
+    -- Correlates the events of one processing run (message_buffer batch or dead-letter batch)
+    batch_id TEXT,
+    wamid TEXT,
+    summary TEXT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    offer_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- For the per-market timeline
+CREATE INDEX IF NOT EXISTS idx_conversation_events_market_created
+ON public.conversation_events(market_id, created_at DESC);
+
+ALTER TABLE public.conversation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to conversation_events"
+ON public.conversation_events FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Admins read the timeline from the dashboard; the log itself is append-only
+CREATE POLICY "Admins can view conversation_events"
+ON public.conversation_events FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.conversation_events IS 'Append-only WhatsApp conversation log per market (messages, AI decisions, resulting offers)';
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- VOICE NOTES IN MESSAGE BUFFER
+-- Generated: 2026-10-24
+-- Purpose: Allow WhatsApp voice notes ('audio') in the message buffer. They are
+--          stored with their media ID only and transcribed by the speech-to-text
+--          provider when the batch is processed.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.message_buffer
+DROP CONSTRAINT IF EXISTS message_buffer_message_type_check;
+
+ALTER TABLE public.message_buffer
+ADD CONSTRAINT message_buffer_message_type_check
+CHECK (message_type IN ('text', 'image', 'audio'));
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- PDF FLYERS VIA WHATSAPP
+-- Generated: 2026-10-25
+-- Purpose: Accept PDF documents (weekly Prospekte) in the message buffer and
+--          tag draft offers extracted from them with the source document and
+--          page, so reviewers can check each draft against the flyer.
+-- ============================================================================
+
+BEGIN;
+
+-- Message buffer: documents with their original file name
+ALTER TABLE public.message_buffer
+DROP CONSTRAINT IF EXISTS message_buffer_message_type_check;
+
+ALTER TABLE public.message_buffer
+ADD CONSTRAINT message_buffer_message_type_check
+CHECK (message_type IN ('text', 'image', 'audio', 'document'));
+
+ALTER TABLE public.message_buffer ADD COLUMN IF NOT EXISTS file_name TEXT;
+
+-- Offers: source document of drafts extracted from a flyer
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS source_document TEXT;
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS source_page INTEGER;
+
+COMMENT ON COLUMN public.offers.source_document IS 'File name of the PDF flyer the offer was extracted from (NULL for messages/photos)';
+COMMENT ON COLUMN public.offers.source_page IS '1-based page of source_document the offer was found on';
+
+COMMIT;
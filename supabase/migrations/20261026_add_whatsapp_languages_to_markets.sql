@@ -0,0 +1,17 @@
+-- ============================================================================
+-- WHATSAPP REPLY LANGUAGE PER NUMBER
+-- Generated: 2026-10-26
+-- Purpose: Bot replies are sent in German or Turkish, chosen per WhatsApp number
+--          with "dil türkçe" / "sprache deutsch"
+-- ============================================================================
+
+BEGIN;
+
+-- Maps a normalized WhatsApp number to its locale, e.g. {"4917612345678": "tr"}
+-- Numbers without an entry get German replies
+ALTER TABLE public.markets
+    ADD COLUMN IF NOT EXISTS whatsapp_languages JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.markets.whatsapp_languages IS 'Preferred bot reply language (de/tr) per WhatsApp number of the market';
+
+COMMIT;
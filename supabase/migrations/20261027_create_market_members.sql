@@ -0,0 +1,51 @@
+-- ============================================================================
+-- MARKET MEMBERS
+-- Generated: 2026-10-27
+-- Purpose: Roles per WhatsApp number of a market. Owners can publish drafts
+--          directly and approve drafts of their employees; employees can only
+--          submit drafts. Replaces the flat markets.whatsapp_numbers array for
+--          webhook authorization.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.market_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    market_id UUID NOT NULL REFERENCES public.markets(id) ON DELETE CASCADE,
+    -- Normalized number without '+', as sent by the WhatsApp webhook
+    phone_number TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'employee'
+        CHECK (role IN ('owner', 'employee')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (market_id, phone_number)
+);
+
+-- For the webhook authorization lookup
+CREATE INDEX IF NOT EXISTS idx_market_members_phone_number
+ON public.market_members(phone_number);
+
+-- Existing numbers keep their full permissions
+INSERT INTO public.market_members (market_id, phone_number, role)
+SELECT id, TRIM(LEADING '+' FROM number), 'owner'
+FROM public.markets, UNNEST(whatsapp_numbers) AS number
+WHERE TRIM(number) <> ''
+ON CONFLICT (market_id, phone_number) DO NOTHING;
+
+ALTER TABLE public.market_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to market_members"
+ON public.market_members FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Admins see the roles in the market form; changes go through server actions
+CREATE POLICY "Admins can view market_members"
+ON public.market_members FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.market_members IS 'WhatsApp numbers of a market with their role (owner/employee)';
+COMMENT ON COLUMN public.markets.whatsapp_numbers IS 'Deprecated: mirror of market_members.phone_number, kept for display; authorization uses market_members';
+
+COMMIT;
@@ -0,0 +1,61 @@
+-- ============================================================================
+-- AUTO-PUBLISH FOR TRUSTED MARKETS
+-- Generated: 2026-10-28
+-- Purpose: Let WhatsApp offers of trusted markets go live without admin review
+--          when they pass the checks (AI confidence, price range, known
+--          category, image present). Every decision is recorded with the
+--          outcome of each check, so auto-approvals can be traced later.
+-- ============================================================================
+
+BEGIN;
+
+-- Per-market trust settings
+ALTER TABLE public.markets
+    ADD COLUMN IF NOT EXISTS auto_publish_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS auto_publish_min_confidence NUMERIC(3, 2) NOT NULL DEFAULT 0.90
+        CHECK (auto_publish_min_confidence BETWEEN 0 AND 1),
+    ADD COLUMN IF NOT EXISTS auto_publish_min_price NUMERIC(10, 2) NOT NULL DEFAULT 0.10,
+    ADD COLUMN IF NOT EXISTS auto_publish_max_price NUMERIC(10, 2) NOT NULL DEFAULT 100.00;
+
+-- How sure the AI was about the extracted name, price and unit (0-1)
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS ai_confidence NUMERIC(3, 2);
+
+CREATE TABLE IF NOT EXISTS public.offer_auto_publish_decisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Kept when the offer is deleted, the product name stays as a snapshot
+    offer_id UUID REFERENCES public.offers(id) ON DELETE SET NULL,
+    market_id UUID NOT NULL REFERENCES public.markets(id) ON DELETE CASCADE,
+    product_name TEXT NOT NULL,
+    published BOOLEAN NOT NULL,
+    confidence NUMERIC(3, 2),
+    -- [{ "name": "confidence", "passed": true, "detail": "0.95 ≥ 0.90" }, ...]
+    checks JSONB NOT NULL DEFAULT '[]'::jsonb,
+    reason TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_auto_publish_decisions_offer_id
+ON public.offer_auto_publish_decisions(offer_id);
+
+CREATE INDEX IF NOT EXISTS idx_offer_auto_publish_decisions_market_created
+ON public.offer_auto_publish_decisions(market_id, created_at DESC);
+
+ALTER TABLE public.offer_auto_publish_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to offer_auto_publish_decisions"
+ON public.offer_auto_publish_decisions FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Admins read the decisions in the dashboard; the audit trail itself is append-only
+CREATE POLICY "Admins can view offer_auto_publish_decisions"
+ON public.offer_auto_publish_decisions FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.offer_auto_publish_decisions IS 'Audit trail of auto-publish decisions for WhatsApp offers of trusted markets';
+COMMENT ON COLUMN public.markets.auto_publish_enabled IS 'Trusted market: WhatsApp offers that pass all checks go live without admin review';
+
+COMMIT;
@@ -0,0 +1,55 @@
+-- ============================================================================
+-- WHATSAPP BRANCH SELECTION
+-- Generated: 2026-10-29
+-- Purpose: Numbers registered for several markets (branches) choose which
+--          branch their offers are for via an interactive list. The choice
+--          is remembered per sender; "alle Filialen" creates the same offer
+--          for every branch. Messages that arrive before the choice is made
+--          are parked and routed once the sender has answered.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_branch_selections (
+    sender_number TEXT PRIMARY KEY,
+    -- Empty while the question is open; several IDs mean "alle Filialen"
+    market_ids UUID[] NOT NULL DEFAULT '{}',
+    asked_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_parked_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sender_number TEXT NOT NULL,
+    -- The raw message from Meta's webhook payload
+    message JSONB NOT NULL,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_parked_messages_sender
+ON public.whatsapp_parked_messages(sender_number, received_at);
+
+-- Message buffer: all markets an offer is created for ("alle Filialen"); NULL means only market_id
+ALTER TABLE public.message_buffer
+    ADD COLUMN IF NOT EXISTS target_market_ids UUID[];
+
+-- Only the webhook/cron (service_role) touches these tables
+ALTER TABLE public.whatsapp_branch_selections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_parked_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to whatsapp_branch_selections"
+ON public.whatsapp_branch_selections FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to whatsapp_parked_messages"
+ON public.whatsapp_parked_messages FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE public.whatsapp_branch_selections IS 'Branch (market) chosen by WhatsApp numbers registered for several markets';
+COMMENT ON TABLE public.whatsapp_parked_messages IS 'WhatsApp messages waiting for the sender to choose a branch';
+
+COMMIT;
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- OFFER BASE PRICE (GRUNDPREIS)
+-- Generated: 2026-10-30
+-- Purpose: Store the normalized price of an offer together with its quantity
+--          and the comparison price per kg, l or Stück (Grundpreis), so offers
+--          like "12,99 €/kg" and "6,99 €/500g" can be compared. The columns are
+--          filled by the app (lib/offerPricing.ts) whenever price or unit change.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.offers
+    -- The price as a number; NULL if the entered price could not be parsed
+    ADD COLUMN IF NOT EXISTS price_value NUMERIC(10, 2),
+    -- The offered quantity in base units (500 g → 0.5 kg); NULL for units like "Bund"
+    ADD COLUMN IF NOT EXISTS quantity NUMERIC(10, 3) CHECK (quantity > 0),
+    ADD COLUMN IF NOT EXISTS base_unit TEXT CHECK (base_unit IN ('kg', 'l', 'Stück')),
+    -- Price per 1 kg, 1 l or 1 Stück
+    ADD COLUMN IF NOT EXISTS base_price NUMERIC(10, 2);
+
+-- Backfill existing offers with a plain price ("1.99", "1,99 €") and a plain unit ("kg", "l", "Stück").
+-- Offers with other units get their Grundpreis the next time they are edited.
+UPDATE public.offers
+SET price_value = REPLACE(SUBSTRING(price FROM '\d+(?:[.,]\d{1,2})?'), ',', '.')::NUMERIC(10, 2)
+WHERE price_value IS NULL
+  AND price ~ '^\s*\d+([.,]\d{1,2})?\s*(€|EUR)?\s*$';
+
+UPDATE public.offers
+SET quantity = 1,
+    base_unit = CASE
+        WHEN LOWER(TRIM(unit)) IN ('kg', 'kilo') THEN 'kg'
+        WHEN LOWER(TRIM(unit)) IN ('l', 'liter') THEN 'l'
+        ELSE 'Stück'
+    END,
+    base_price = price_value
+WHERE base_price IS NULL
+  AND price_value IS NOT NULL
+  AND LOWER(TRIM(unit)) IN ('kg', 'kilo', 'l', 'liter', 'stück', 'stk');
+
+COMMENT ON COLUMN public.offers.price_value IS 'Normalized price in euros (lowest price for ranges)';
+COMMENT ON COLUMN public.offers.quantity IS 'Offered quantity in base_unit, e.g. 0.5 for 500 g';
+COMMENT ON COLUMN public.offers.base_unit IS 'Unit of the Grundpreis: kg, l or Stück';
+COMMENT ON COLUMN public.offers.base_price IS 'Grundpreis: price per 1 kg, 1 l or 1 Stück';
+
+COMMIT;
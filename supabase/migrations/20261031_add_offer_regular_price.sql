@@ -0,0 +1,16 @@
+-- ============================================================================
+-- OFFER REGULAR PRICE
+-- Generated: 2026-10-31
+-- Purpose: Store the optional regular price an offer is reduced from ("statt 3,49 €"),
+--          so offer cards can show it struck through next to a discount badge ("-43%").
+--          The discount is computed from price and regular price, not stored.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS regular_price NUMERIC(10, 2) CHECK (regular_price > 0);
+
+COMMENT ON COLUMN public.offers.regular_price IS 'Regular price in euros before the discount; NULL if the offer is not reduced';
+
+COMMIT;
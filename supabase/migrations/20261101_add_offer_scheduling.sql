@@ -0,0 +1,44 @@
+-- ============================================================================
+-- SCHEDULED OFFERS
+-- Generated: 2026-11-01
+-- Purpose: Let markets prepare offers in advance with a start date. Offers
+--          published before their start date get the status 'scheduled'; the
+--          update-offer-status cron job sets them 'live' once starts_at has
+--          passed and sets live offers 'expired' once expires_at has passed.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.offers
+    -- NULL = valid from publication on
+    ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ;
+
+ALTER TABLE public.offers DROP CONSTRAINT IF EXISTS offers_status_check;
+ALTER TABLE public.offers
+    ADD CONSTRAINT offers_status_check CHECK (status IN ('draft', 'scheduled', 'live', 'expired'));
+
+-- The cron job looks up due offers by status and date
+CREATE INDEX IF NOT EXISTS idx_offers_scheduled_starts_at
+ON public.offers(starts_at)
+WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_offers_live_expires_at
+ON public.offers(expires_at)
+WHERE status = 'live';
+
+-- The public only sees live offers inside their validity window, also in the
+-- minutes between a date passing and the cron job updating the status
+DROP POLICY IF EXISTS "Public can view live offers" ON public.offers;
+
+CREATE POLICY "Public can view live offers"
+ON public.offers FOR SELECT
+TO anon, authenticated
+USING (
+    status = 'live'
+    AND (starts_at IS NULL OR starts_at <= NOW())
+    AND expires_at > NOW()
+);
+
+COMMENT ON COLUMN public.offers.starts_at IS 'Start of the validity window; NULL if the offer is valid from publication on';
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- OFFER EXPIRY
+-- Generated: 2026-11-02
+-- Purpose: Record when an offer expired. The update-offer-status cron job sets
+--          live offers past expires_at to 'expired' and stores the time in
+--          expired_at; the dashboard archive lists expired offers per market.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS expired_at TIMESTAMPTZ;
+
+-- Offers that expired before the job existed are still 'live'
+UPDATE public.offers
+SET status = 'expired',
+    expired_at = expires_at
+WHERE status = 'live'
+  AND expires_at <= NOW();
+
+-- Offers ended manually (e.g. "beenden" via WhatsApp) had their expires_at set to the end time
+UPDATE public.offers
+SET expired_at = expires_at
+WHERE status = 'expired'
+  AND expired_at IS NULL;
+
+-- The archive lists expired offers per market, newest first
+CREATE INDEX IF NOT EXISTS idx_offers_expired_market
+ON public.offers(market_id, expired_at DESC)
+WHERE status = 'expired';
+
+COMMENT ON COLUMN public.offers.expired_at IS 'When the offer was set to expired (by the cron job or ended manually)';
+
+COMMIT;
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- RECURRING OFFER TEMPLATES
+-- Generated: 2026-11-03
+-- Purpose: Reusable offers per market that repeat on fixed weekdays, every
+--          N weeks (e.g. "Freitag: frisches Fladenbrot 0,99"). The
+--          materialize-offer-templates cron job creates one offer per
+--          occurrence a week in advance, as draft or as scheduled/live offer.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.offer_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    market_id UUID NOT NULL REFERENCES public.markets(id) ON DELETE CASCADE,
+    product_name TEXT NOT NULL,
+    description TEXT,
+    price TEXT NOT NULL,
+    regular_price NUMERIC(10, 2) CHECK (regular_price > 0),
+    unit TEXT,
+    ai_category TEXT,
+    image_id UUID REFERENCES public.image_library(id) ON DELETE SET NULL,
+    -- ISO weekdays the offer runs on: 1 = Monday ... 7 = Sunday
+    weekdays SMALLINT[] NOT NULL
+        CHECK (CARDINALITY(weekdays) > 0 AND weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]),
+    -- 1 = every week, 2 = every other week, ... counted from the week of starts_on
+    interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 12),
+    -- How many days each occurrence stays valid
+    duration_days INTEGER NOT NULL DEFAULT 1 CHECK (duration_days BETWEEN 1 AND 28),
+    -- 'live': occurrences go online on their day without review; 'draft': they wait in the review
+    publish_status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (publish_status IN ('draft', 'live')),
+    starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    ends_on DATE CHECK (ends_on >= starts_on),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    -- Last day offers were created for; later runs continue after it, so deleted occurrences stay deleted
+    materialized_until DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_templates_market_id
+ON public.offer_templates(market_id);
+
+-- Offers created from a template; one offer per template and start time,
+-- so running the cron job twice creates nothing twice
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.offer_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.offers DROP CONSTRAINT IF EXISTS offers_template_occurrence_key;
+ALTER TABLE public.offers
+    ADD CONSTRAINT offers_template_occurrence_key UNIQUE (template_id, starts_at);
+
+ALTER TABLE public.offer_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to offer_templates"
+ON public.offer_templates FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Admins manage templates in the dashboard; changes go through server actions
+CREATE POLICY "Admins can view offer_templates"
+ON public.offer_templates FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.offer_templates IS 'Recurring offers per market, materialized into offers by a cron job';
+COMMENT ON COLUMN public.offers.template_id IS 'The template this offer was created from, if any';
+
+COMMIT;
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- OFFER DUPLICATES
+-- Generated: 2026-11-04
+-- Purpose: Flag offers that likely repeat an existing draft or live offer of
+--          the same market (e.g. a resent "Tomaten"). New offers from WhatsApp
+--          and the dashboard are compared by product name (lib/offerDuplicates.ts);
+--          a likely duplicate points at the existing offer until it is merged
+--          into it or kept as a separate offer.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES public.offers(id) ON DELETE SET NULL;
+
+-- The review lists flagged drafts next to the offer they repeat
+CREATE INDEX IF NOT EXISTS idx_offers_duplicate_of
+ON public.offers(duplicate_of)
+WHERE duplicate_of IS NOT NULL;
+
+COMMENT ON COLUMN public.offers.duplicate_of IS 'Existing offer of the same market this offer likely duplicates; NULL once merged or kept';
+
+COMMIT;
@@ -0,0 +1,72 @@
+-- ============================================================================
+-- AUDIT LOG
+-- Generated: 2026-11-05
+-- Purpose: Append-only trail of every mutation made from the admin dashboard:
+--          who (actor) did what (action) to which offer, offer template,
+--          market, library image, team member or failed WhatsApp message,
+--          with the changed fields before and after. Written by the server
+--          actions (lib/auditLog.ts), shown as a filterable history in the
+--          dashboard and per entity in the offer and market editors.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- No foreign keys: entries must outlive deleted users and entities
+    actor_id UUID NOT NULL,
+    -- Snapshot of the actor's e-mail, so the trail stays readable after the account is deleted
+    actor_email TEXT,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL
+        CHECK (entity_type IN ('offer', 'offer_template', 'market', 'image', 'user', 'failed_message')),
+    entity_id UUID NOT NULL,
+    -- Readable name at the time of the change (product name, market name, e-mail)
+    entity_label TEXT,
+    -- Changed fields: { "<field>": { "before": ..., "after": ... } }
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- For the dashboard history (newest first) and the per-entity panels
+CREATE INDEX IF NOT EXISTS idx_audit_log_created
+ON public.audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+ON public.audit_log(entity_type, entity_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor
+ON public.audit_log(actor_id, created_at DESC);
+
+-- Append-only: entries can neither be changed nor deleted, not even with the service role
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to audit_log"
+ON public.audit_log FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Admins can view audit_log"
+ON public.audit_log FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.audit_log IS 'Append-only audit trail of dashboard mutations (actor, action, entity, changed fields)';
+
+COMMIT;
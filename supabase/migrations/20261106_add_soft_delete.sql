@@ -0,0 +1,77 @@
+-- ============================================================================
+-- SOFT DELETE
+-- Generated: 2026-11-06
+-- Purpose: Deleting an offer, market or library image in the dashboard moves
+--          it to the trash (deleted_at) instead of removing the row, so a
+--          misclick can be undone. Trashing a market trashes its offers with
+--          the same timestamp, restoring it brings them back. The purge-trash
+--          cron job deletes rows that stayed in the trash longer than the
+--          retention period (TRASH_RETENTION_DAYS, see lib/trash.ts).
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE public.markets
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE public.image_library
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- The trash view and the purge job look up trashed rows by date
+CREATE INDEX IF NOT EXISTS idx_offers_deleted_at
+ON public.offers(deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_markets_deleted_at
+ON public.markets(deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_image_library_deleted_at
+ON public.image_library(deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+-- ============================================================================
+-- Public policies exclude trashed rows; admins keep seeing them for the trash
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Public can view live offers" ON public.offers;
+
+CREATE POLICY "Public can view live offers"
+ON public.offers FOR SELECT
+TO anon, authenticated
+USING (
+    status = 'live'
+    AND deleted_at IS NULL
+    AND (starts_at IS NULL OR starts_at <= NOW())
+    AND expires_at > NOW()
+);
+
+DROP POLICY IF EXISTS "Public can view active markets" ON public.markets;
+
+CREATE POLICY "Public can view active markets"
+ON public.markets FOR SELECT
+TO anon, authenticated
+USING (is_active = true AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Public can view image_library" ON public.image_library;
+
+CREATE POLICY "Public can view image_library"
+ON public.image_library FOR SELECT
+TO anon, authenticated
+USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Admins can view all image_library" ON public.image_library;
+
+CREATE POLICY "Admins can view all image_library"
+ON public.image_library FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+COMMENT ON COLUMN public.offers.deleted_at IS 'When the offer was moved to the trash; NULL if it is not deleted';
+COMMENT ON COLUMN public.markets.deleted_at IS 'When the market was moved to the trash; NULL if it is not deleted';
+COMMENT ON COLUMN public.image_library.deleted_at IS 'When the image was moved to the trash; NULL if it is not deleted';
+
+COMMIT;
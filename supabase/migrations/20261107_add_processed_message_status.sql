@@ -0,0 +1,24 @@
+-- ============================================================================
+-- PROCESSED WEBHOOK MESSAGE STATUS
+-- Generated: 2026-11-07
+-- Purpose: A wamid is claimed as 'processing' before the webhook handles it
+--          and marked 'done' afterwards. If the function is killed in between,
+--          the claim goes stale and Meta's retry may reclaim it instead of
+--          being dropped as a duplicate. Entries older than Meta's retry
+--          window are purged by the process-messages cron job.
+-- ============================================================================
+
+BEGIN;
+
+-- Existing entries were all handled successfully (failed ones were released)
+ALTER TABLE public.processed_webhook_messages
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'done'
+    CHECK (status IN ('processing', 'done'));
+
+ALTER TABLE public.processed_webhook_messages
+    ALTER COLUMN status SET DEFAULT 'processing';
+
+COMMENT ON COLUMN public.processed_webhook_messages.status IS 'processing while the webhook handles the message, done once it was handled';
+COMMENT ON COLUMN public.processed_webhook_messages.processed_at IS 'When the message was (last) claimed; stale processing claims can be reclaimed';
+
+COMMIT;
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- FLYER PAGE PROGRESS
+-- Generated: 2026-11-08
+-- Purpose: PDF flyers are extracted page by page inside the process-messages
+--          cron job. When a run times out, the batch is reclaimed once its
+--          claim went stale. The buffered document remembers which pages are
+--          done and which drafts they produced, so the next run continues
+--          after the last finished page instead of creating duplicate drafts.
+--          Images sent together with a flyer count as a single page.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.message_buffer
+    ADD COLUMN IF NOT EXISTS processed_pages INTEGER[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.message_buffer
+    ADD COLUMN IF NOT EXISTS page_offer_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.message_buffer.processed_pages IS '1-based pages of a buffered PDF document (or page 1 of an image) that have already been extracted';
+COMMENT ON COLUMN public.message_buffer.page_offer_ids IS 'Offers created from the processed pages, confirmed together once the whole document is done';
+
+COMMIT;
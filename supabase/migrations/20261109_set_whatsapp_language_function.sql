@@ -0,0 +1,35 @@
+-- ============================================================================
+-- ATOMIC WHATSAPP LANGUAGE UPDATE
+-- Generated: 2026-11-09
+-- Purpose: Store the reply language of one WhatsApp number with a single
+--          jsonb_set, so two numbers of the same market changing their
+--          language at the same time don't overwrite each other.
+-- ============================================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.set_whatsapp_language(
+    p_market_id UUID,
+    p_sender_number TEXT,
+    p_locale TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+SET search_path = public
+AS $$
+    WITH updated AS (
+        UPDATE markets
+        SET whatsapp_languages = jsonb_set(whatsapp_languages, ARRAY[p_sender_number], to_jsonb(p_locale))
+        WHERE id = p_market_id
+        RETURNING id
+    )
+    SELECT EXISTS (SELECT 1 FROM updated);
+$$;
+
+-- Only the webhook (service_role) changes reply languages
+REVOKE EXECUTE ON FUNCTION public.set_whatsapp_language(UUID, TEXT, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.set_whatsapp_language(UUID, TEXT, TEXT) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_whatsapp_language(UUID, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.set_whatsapp_language(UUID, TEXT, TEXT) TO service_role;
+
+COMMIT;
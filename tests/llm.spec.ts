@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import { createFixtureProvider, createLlmProvider, type ChatRequest, type LlmProvider } from '@/lib/llm';
+import { createMockExtractionProvider, createOfferExtractor } from '@/lib/offerExtraction';
+
+/**
+ * Provider that counts its requests and answers every chat with the same text
+ */
+function createCountingProvider(response: { ok: boolean; status: number; text: string }): LlmProvider & { calls: number } {
+    const provider = {
+        name: 'counting',
+        defaultModels: { extraction: 'counting' },
+        calls: 0,
+        async chat() {
+            provider.calls++;
+            return { ...response, raw: response.text };
+        },
+        async generateImage() {
+            provider.calls++;
+            return { ok: true, status: 200, imageUrl: 'data:image/png;base64,iVBORw0KGgo=', raw: '' };
+        }
+    };
+    return provider;
+}
+
+function chatRequest(imageUrl: string): ChatRequest {
+    return {
+        model: 'any-model',
+        messages: [{
+            role: 'user',
+            content: [{ type: 'text', text: 'Was kostet das?' }, { type: 'image_url', image_url: { url: imageUrl } }]
+        }]
+    };
+}
+
+test.describe('Fixture replay provider', () => {
+    test('replays the recorded extraction from tests/fixtures/llm', async () => {
+        // Recorded against OpenRouter; re-record with LLM_FIXTURES_RECORD=openrouter when the prompt changes
+        const extractor = createOfferExtractor({ provider: createFixtureProvider(), model: 'google/gemini-2.0-flash-001' });
+
+        const result = await extractor.extract({ text: 'Lammkeule 12,99 kg statt 15,99\nAyran 0,99\nnur bis Samstag' });
+
+        if (!result.ok) {
+            throw new Error(`Expected the recorded offers, got ${result.code}: ${result.error}`);
+        }
+        expect(result.offers.map(offer => [offer.product_name, offer.price, offer.regular_price, offer.unit, offer.validity_days])).toEqual([
+            ['Lammkeulen', 12.99, 15.99, 'kg', 3],
+            ['Ayran', 0.99, null, 'Flasche', 3]
+        ]);
+    });
+
+    test('fails requests without a recording instead of going online', async () => {
+        const provider = createFixtureProvider(test.info().outputPath('fixtures'));
+
+        const response = await provider.chat({ model: 'any-model', messages: [{ role: 'user', content: 'Tomaten 1,99' }] });
+
+        expect(response).toMatchObject({ ok: false, status: 404 });
+    });
+
+    test('records unknown requests and replays them without the recording provider', async () => {
+        const dir = test.info().outputPath('fixtures');
+        const mock = createMockExtractionProvider();
+        const request: ChatRequest = { model: 'any-model', messages: [{ role: 'user', content: 'Message to validate:\nText: Tomaten 1,99 kg\nImages: 0' }] };
+
+        const recorded = await createFixtureProvider(dir, mock).chat(request);
+        const replayed = await createFixtureProvider(dir).chat({ ...request, model: 'another-model' });
+
+        expect(mock.requests).toHaveLength(1);
+        expect(await fs.readdir(dir)).toHaveLength(1);
+        expect(replayed).toEqual(recorded);
+        expect(JSON.parse(replayed.text).products[0]).toMatchObject({ product_name: 'Tomaten', price: 1.99, unit: 'kg' });
+    });
+
+    test('does not record failed requests', async () => {
+        const dir = test.info().outputPath('fixtures');
+        const failing = createCountingProvider({ ok: false, status: 503, text: '' });
+        const provider = createFixtureProvider(dir, failing);
+
+        await provider.chat({ model: 'any-model', messages: [{ role: 'user', content: 'Tomaten 1,99' }] });
+        await provider.chat({ model: 'any-model', messages: [{ role: 'user', content: 'Tomaten 1,99' }] });
+
+        expect(failing.calls).toBe(2);
+        await expect(fs.readdir(dir)).rejects.toThrow();
+    });
+
+    test('keys inline images by their content and keeps recordings free of image data', async () => {
+        const dir = test.info().outputPath('fixtures');
+        const recorder = createCountingProvider({ ok: true, status: 200, text: '{"products": []}' });
+        const provider = createFixtureProvider(dir, recorder);
+
+        await provider.chat(chatRequest('data:image/jpeg;base64,AAAA'));
+        await provider.chat(chatRequest('data:image/jpeg;base64,AAAA'));
+        await provider.chat(chatRequest('data:image/jpeg;base64,BBBB'));
+
+        const files = await fs.readdir(dir);
+        const recording = await fs.readFile(`${dir}/${files[0]}`, 'utf8');
+
+        expect(recorder.calls).toBe(2);
+        expect(files).toHaveLength(2);
+        expect(recording).not.toContain('base64,AAAA');
+        expect(recording).toMatch(/data:image\/jpeg;base64,sha256:[0-9a-f]{64}/);
+    });
+
+    test('only records with a real provider', async () => {
+        const originalRecordWith = process.env.LLM_FIXTURES_RECORD;
+
+        try {
+            for (const recordWith of ['fixtures', 'openai']) {
+                process.env.LLM_FIXTURES_RECORD = recordWith;
+                expect(() => createLlmProvider('fixtures')).toThrow(`got '${recordWith}'`);
+            }
+        } finally {
+            if (originalRecordWith === undefined) {
+                delete process.env.LLM_FIXTURES_RECORD;
+            } else {
+                process.env.LLM_FIXTURES_RECORD = originalRecordWith;
+            }
+        }
+    });
+});
@@ -0,0 +1,137 @@
+import { test, expect } from '@playwright/test';
+import { createMockExtractionProvider, createOfferExtractor, type ExtractionResult } from '@/lib/offerExtraction';
+
+function createExtractor() {
+    const provider = createMockExtractionProvider();
+    return { provider, extractor: createOfferExtractor({ provider, model: 'mock' }) };
+}
+
+function expectFailure(result: ExtractionResult): Extract<ExtractionResult, { ok: false }> {
+    if (result.ok) {
+        throw new Error(`Expected a failed extraction, got ${result.offers.length} offer(s)`);
+    }
+    return result;
+}
+
+function expectOffers(result: ExtractionResult): Extract<ExtractionResult, { ok: true }>['offers'] {
+    if (!result.ok) {
+        throw new Error(`Expected offers, got ${result.code}: ${result.error}`);
+    }
+    return result.offers;
+}
+
+test.describe('Offer extraction', () => {
+    test('extracts every product of a message', async () => {
+        const { extractor } = createExtractor();
+
+        const offers = expectOffers(await extractor.extract({ text: 'Tomaten 1,99 kg, Gurken 0,79 Stück\nLamm 12,99 kg statt 15,99' }));
+
+        expect(offers.map(offer => [offer.product_name, offer.price, offer.unit, offer.regular_price])).toEqual([
+            ['Tomaten', 1.99, 'kg', null],
+            ['Gurken', 0.79, 'Stück', null],
+            ['Lamm', 12.99, 'kg', 15.99]
+        ]);
+    });
+
+    test('sends a flyer page as PDF instead of images', async () => {
+        const { provider, extractor } = createExtractor();
+
+        await extractor.extract({
+            text: 'Ayran 0,99',
+            images: [{ url: 'data:image/jpeg;base64,AAAA', caption: null }],
+            page: { fileName: 'Prospekt KW 42.pdf', pageNumber: 2, pageCount: 4, data: new Uint8Array([0x25, 0x50, 0x44, 0x46]) }
+        });
+
+        const content = provider.requests[0].messages[1].content;
+        expect(Array.isArray(content) && content.map(part => part.type)).toEqual(['text', 'file']);
+        expect(JSON.stringify(content)).toContain('Flyer page: 2 of 4 (Prospekt KW 42.pdf)');
+    });
+
+    test('validates and normalizes the offers the model returns', async () => {
+        const { provider, extractor } = createExtractor();
+        provider.queueResponse({
+            text: '```json\n' + JSON.stringify({
+                products: [
+                    { product_name: ' Bananen ', price: '1,49 €', regular_price: 1.29, unit: '', ai_category: 'Obst', validity_days: 0, confidence: 1.4 },
+                    { product_name: 'Ohne Preis', price: null },
+                    { product_name: '', price: 2 }
+                ]
+            }) + '\n```'
+        });
+
+        const offers = expectOffers(await extractor.extract({ text: 'Bananen 1,49' }));
+
+        expect(offers).toEqual([{
+            product_name: 'Bananen',
+            price: 1.49,
+            // Not higher than the price, so no discount
+            regular_price: null,
+            unit: null,
+            description: null,
+            ai_category: 'Sonstiges',
+            validity_days: 7,
+            image_index: null,
+            confidence: 1,
+            is_image_professional: null
+        }]);
+    });
+
+    test('reads prices with thousands separators', async () => {
+        const { provider, extractor } = createExtractor();
+        provider.queueResponse({ text: JSON.stringify({ products: [{ product_name: 'Kühlschrank', price: '1.299,00 €', regular_price: '1.499' }] }) });
+
+        const [offer] = expectOffers(await extractor.extract({ text: 'Kühlschrank 1.299,00 statt 1.499' }));
+
+        expect([offer.price, offer.regular_price]).toEqual([1299, 1499]);
+    });
+
+    test('accepts a bare array or a single offer object', async () => {
+        const { provider, extractor } = createExtractor();
+        provider.queueResponse({ text: JSON.stringify([{ product_name: 'Ayran', price: 0.99 }]) });
+        provider.queueResponse({ text: JSON.stringify({ product_name: 'Simit', price: 0.5 }) });
+
+        expect(expectOffers(await extractor.extract({ text: 'Ayran 0,99' }))[0].product_name).toBe('Ayran');
+        expect(expectOffers(await extractor.extract({ text: 'Simit 0,50' }))[0].product_name).toBe('Simit');
+    });
+
+    test('reports problems with the message as final input errors', async () => {
+        const { provider, extractor } = createExtractor();
+        provider.queueResponse({ text: 'INVALID: MISSING_PRICE' });
+        provider.queueResponse({ text: 'INVALID: SOMETHING_NEW' });
+
+        const missingPrice = expectFailure(await extractor.extract({ text: 'Frische Tomaten' }));
+        const unknownCode = expectFailure(await extractor.extract({ text: '???' }));
+
+        expect([missingPrice.code, missingPrice.retryable]).toEqual(['MISSING_PRICE', false]);
+        expect([unknownCode.code, unknownCode.retryable]).toEqual(['UNCLEAR_MESSAGE', false]);
+    });
+
+    test('reports answers without a usable product as final', async () => {
+        const { provider, extractor } = createExtractor();
+        provider.queueResponse({ text: JSON.stringify({ products: [{ product_name: 'Tomaten' }] }) });
+
+        const result = expectFailure(await extractor.extract({ text: 'Tomaten' }));
+
+        expect([result.code, result.retryable]).toEqual(['NO_PRODUCTS', false]);
+    });
+
+    test('marks failures of the model or provider as retryable', async () => {
+        const { provider, extractor } = createExtractor();
+        provider.queueResponse({ ok: false, status: 503, text: '', raw: 'Service Unavailable' });
+        provider.queueResponse({ text: '   ' });
+        provider.queueResponse({ text: 'Hier sind die Angebote: Tomaten für 1,99' });
+
+        const failures = [
+            expectFailure(await extractor.extract({ text: 'Tomaten 1,99' })),
+            expectFailure(await extractor.extract({ text: 'Tomaten 1,99' })),
+            expectFailure(await extractor.extract({ text: 'Tomaten 1,99' }))
+        ];
+
+        expect(failures.map(failure => [failure.code, failure.retryable])).toEqual([
+            ['PROVIDER_ERROR', true],
+            ['EMPTY_RESPONSE', true],
+            ['PARSE_ERROR', true]
+        ]);
+        expect(failures[0].exchange.httpStatus).toBe(503);
+    });
+});
@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test';
+import { createStubSpeechToTextProvider, setSpeechToTextProvider, transcribeWhatsAppAudio } from '@/lib/speechToText';
+
+const originalFetch = globalThis.fetch;
+const originalAccessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+
+/**
+ * Answer Graph API requests like WhatsApp does: the media ID resolves to a download URL,
+ * which serves the voice note
+ */
+function mockWhatsAppMedia(download: Response): string[] {
+    const requestedUrls: string[] = [];
+
+    globalThis.fetch = async (input: string | URL | Request) => {
+        const url = String(input);
+        requestedUrls.push(url);
+
+        if (url.startsWith('https://graph.facebook.com/')) {
+            return Response.json({ url: 'https://lookaside.fbsbx.com/whatsapp_business/attachments/?mid=voice-note' });
+        }
+        return download;
+    };
+
+    return requestedUrls;
+}
+
+test.describe('Speech-to-text', () => {
+    test.beforeEach(() => {
+        process.env.WHATSAPP_ACCESS_TOKEN = 'test-token';
+    });
+
+    test.afterEach(() => {
+        globalThis.fetch = originalFetch;
+        if (originalAccessToken === undefined) {
+            delete process.env.WHATSAPP_ACCESS_TOKEN;
+        } else {
+            process.env.WHATSAPP_ACCESS_TOKEN = originalAccessToken;
+        }
+        setSpeechToTextProvider(null);
+    });
+
+    test('downloads a voice note and transcribes it with the configured provider', async () => {
+        const requestedUrls = mockWhatsAppMedia(new Response(new Uint8Array([0x4f, 0x67, 0x67, 0x53]), {
+            headers: { 'Content-Type': 'audio/ogg; codecs=opus' }
+        }));
+        const received: Array<{ size: number; mimeType: string }> = [];
+        const stub = createStubSpeechToTextProvider('Heute Lammfleisch 12,99 das Kilo');
+        setSpeechToTextProvider({
+            name: stub.name,
+            async transcribe(audio, mimeType) {
+                received.push({ size: audio.byteLength, mimeType });
+                return stub.transcribe(audio, mimeType);
+            }
+        });
+
+        const transcript = await transcribeWhatsAppAudio('media-123');
+
+        expect(transcript).toBe('Heute Lammfleisch 12,99 das Kilo');
+        expect(requestedUrls).toHaveLength(2);
+        expect(requestedUrls[0]).toMatch(/\/media-123$/);
+        expect(received).toEqual([{ size: 4, mimeType: 'audio/ogg; codecs=opus' }]);
+    });
+
+    test('fails when the voice note cannot be downloaded', async () => {
+        mockWhatsAppMedia(new Response('Not found', { status: 404 }));
+        setSpeechToTextProvider(createStubSpeechToTextProvider());
+
+        await expect(transcribeWhatsAppAudio('media-123')).rejects.toThrow('Failed to download voice note: 404');
+    });
+});
@@ -0,0 +1,99 @@
+import { test, expect } from '@playwright/test';
+import { createFakeTransport, createWhatsAppClient, sendWhatsAppText, setWhatsAppClient } from '@/lib/whatsappMessages';
+
+test.describe('WhatsApp messaging client', () => {
+    test('sends a text message through the transport', async () => {
+        const transport = createFakeTransport();
+        const client = createWhatsAppClient({ transport, retryDelayMs: 0 });
+
+        const result = await client.sendText('4917612345678', 'Hallo!');
+
+        expect(result).toEqual({ success: true, messageId: 'wamid.fake.1', attempts: 1 });
+        expect(transport.sent).toEqual([{
+            toNumber: '4917612345678',
+            message: { type: 'text', text: { preview_url: false, body: 'Hallo!' } }
+        }]);
+    });
+
+    test('retries server errors and rate limits until the message goes through', async () => {
+        const transport = createFakeTransport();
+        const client = createWhatsAppClient({ transport, retryDelayMs: 0 });
+
+        transport.queueResponse({ ok: false, status: 500, error: 'Internal error' });
+        transport.queueResponse({ ok: false, status: 429, error: 'Too many requests' });
+
+        const result = await client.sendText('4917612345678', 'Hallo!');
+
+        expect(result.success).toBe(true);
+        expect(result.attempts).toBe(3);
+        expect(transport.sent).toHaveLength(3);
+    });
+
+    test('does not retry rejected messages', async () => {
+        const transport = createFakeTransport();
+        const failures: string[] = [];
+        const client = createWhatsAppClient({ transport, retryDelayMs: 0, onError: ({ error }) => failures.push(error) });
+
+        transport.queueResponse({ ok: false, status: 400, error: 'Invalid parameter' });
+
+        const result = await client.sendText('4917612345678', 'Hallo!');
+
+        expect(result).toEqual({ success: false, error: 'Invalid parameter', attempts: 1 });
+        expect(transport.sent).toHaveLength(1);
+        expect(failures).toEqual(['Invalid parameter']);
+    });
+
+    test('reports the error once all attempts failed', async () => {
+        const transport = createFakeTransport();
+        const failures: Array<{ error: string; attempts: number }> = [];
+        const client = createWhatsAppClient({
+            transport,
+            maxAttempts: 2,
+            retryDelayMs: 0,
+            onError: ({ error, attempts }) => failures.push({ error, attempts })
+        });
+
+        transport.queueResponse({ ok: false, status: 0 });
+        transport.queueResponse({ ok: false, status: 503 });
+
+        const result = await client.sendText('4917612345678', 'Hallo!');
+
+        expect(result).toEqual({ success: false, error: 'HTTP 503', attempts: 2 });
+        expect(failures).toEqual([{ error: 'HTTP 503', attempts: 2 }]);
+    });
+
+    test('limits buttons and list rows to what the API accepts', async () => {
+        const transport = createFakeTransport();
+        const client = createWhatsAppClient({ transport, retryDelayMs: 0 });
+
+        await client.sendButtons('4917612345678', 'Welche?', [1, 2, 3, 4].map(n => ({ id: `b${n}`, title: `Button ${n}` })));
+        await client.sendList('4917612345678', 'Welche Filiale?', 'Filiale wählen', [
+            { title: 'Berlin', rows: Array.from({ length: 6 }, (_, n) => ({ id: `berlin-${n}`, title: `Berlin ${n}` })) },
+            { title: 'Hamburg', rows: Array.from({ length: 6 }, (_, n) => ({ id: `hamburg-${n}`, title: `Hamburg ${n}` })) },
+            { title: 'München', rows: [{ id: 'muenchen-0', title: 'München 0' }] }
+        ]);
+
+        const [buttons, list] = transport.sent.map(({ message }) => message);
+        if (buttons.type !== 'interactive' || buttons.interactive.type !== 'button') {
+            throw new Error('Expected a button message');
+        }
+        if (list.type !== 'interactive' || list.interactive.type !== 'list') {
+            throw new Error('Expected a list message');
+        }
+
+        expect(buttons.interactive.action.buttons.map(button => button.reply.id)).toEqual(['b1', 'b2', 'b3']);
+        expect(list.interactive.action.sections.map(section => [section.title, section.rows.length])).toEqual([['Berlin', 6], ['Hamburg', 4]]);
+    });
+
+    test('routes the shortcut helpers through the configured client', async () => {
+        const transport = createFakeTransport();
+        setWhatsAppClient(createWhatsAppClient({ transport, retryDelayMs: 0 }));
+
+        try {
+            expect(await sendWhatsAppText('4917612345678', 'Dein Angebot ist online.')).toBe(true);
+            expect(transport.sent.map(({ toNumber }) => toNumber)).toEqual(['4917612345678']);
+        } finally {
+            setWhatsAppClient(null);
+        }
+    });
+});